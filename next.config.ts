@@ -1,7 +1,14 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  async redirects() {
+    // Dashboard sections live under /dashboard so they share its layout
+    return ["communities", "discussions", "settings", "trends"].map((section) => ({
+      source: `/${section}`,
+      destination: `/dashboard/${section}`,
+      permanent: false,
+    }));
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { sendTestAlert } from '@/lib/alerts';
+import { errorResponse, jsonError } from '@/lib/api-response';
+import { getCurrentUserId } from '@/lib/auth';
+import { getStorage } from '@/lib/storage';
+
+export async function POST(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    return jsonError('Not signed in', 401);
+  }
+
+  const { id } = await params;
+
+  try {
+    const storage = await getStorage();
+    const channel = await storage.alerts.getChannel(userId, id);
+    if (!channel) {
+      return jsonError('Not found', 404);
+    }
+    return NextResponse.json(await sendTestAlert(storage, channel));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAlertChannel, AlertChannelInputSchema, webhookTargetProblem } from '@/lib/alerts';
+import { errorResponse, jsonError } from '@/lib/api-response';
+import { getCurrentUserId } from '@/lib/auth';
+import { getStorage } from '@/lib/storage';
+
+export async function GET() {
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    return jsonError('Not signed in', 401);
+  }
+
+  try {
+    const storage = await getStorage();
+    return NextResponse.json({ channels: await storage.alerts.listChannels(userId) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    return jsonError('Not signed in', 401);
+  }
+
+  const parsed = AlertChannelInputSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return jsonError(parsed.error.issues[0]?.message ?? 'Invalid channel', 400);
+  }
+
+  const problem = await webhookTargetProblem(parsed.data);
+  if (problem) {
+    return jsonError(problem, 400);
+  }
+
+  try {
+    const storage = await getStorage();
+    const channel = createAlertChannel(userId, parsed.data);
+    await storage.alerts.saveChannel(channel);
+    return NextResponse.json(channel, { status: 201 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { errorResponse, jsonError } from '@/lib/api-response';
+import { getCurrentUserId } from '@/lib/auth';
+import { getStorage } from '@/lib/storage';
+
+export async function GET() {
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    return jsonError('Not signed in', 401);
+  }
+
+  try {
+    const storage = await getStorage();
+    return NextResponse.json({ deliveries: await storage.alertDeliveries.list(userId, 50) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
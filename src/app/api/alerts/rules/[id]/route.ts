@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse, jsonError } from '@/lib/api-response';
+import { getCurrentUserId } from '@/lib/auth';
+import { getStorage } from '@/lib/storage';
+
+export async function DELETE(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    return jsonError('Not signed in', 401);
+  }
+
+  const { id } = await params;
+
+  try {
+    const storage = await getStorage();
+    if (!(await storage.alerts.deleteRule(userId, id))) {
+      return jsonError('Not found', 404);
+    }
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAlertRule, AlertRuleInputSchema } from '@/lib/alerts';
+import { errorResponse, jsonError } from '@/lib/api-response';
+import { getCurrentUserId } from '@/lib/auth';
+import { getStorage } from '@/lib/storage';
+
+export async function GET() {
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    return jsonError('Not signed in', 401);
+  }
+
+  try {
+    const storage = await getStorage();
+    return NextResponse.json({ rules: await storage.alerts.listRules(userId) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    return jsonError('Not signed in', 401);
+  }
+
+  const parsed = AlertRuleInputSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return jsonError(parsed.error.issues[0]?.message ?? 'Invalid rule', 400);
+  }
+
+  try {
+    const storage = await getStorage();
+    const channels = await storage.alerts.listChannels(userId);
+    if (!parsed.data.channelIds.every((id) => channels.some((channel) => channel.id === id))) {
+      return jsonError('Unknown channel', 400);
+    }
+
+    const rule = createAlertRule(userId, parsed.data);
+    await storage.alerts.saveRule(rule);
+    return NextResponse.json(rule, { status: 201 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
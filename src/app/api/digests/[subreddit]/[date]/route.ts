@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { jsonError } from '@/lib/api-response';
+import { getCurrentUserId } from '@/lib/auth';
+import { digestToHtml, digestToMarkdown } from '@/lib/digest-export';
+import { getStorage } from '@/lib/storage';
+import { isValidSubredditName } from '@/lib/subreddits';
+
+// Downloads a stored digest as Markdown, HTML or JSON (?format=md|html|json)
+export async function GET(request: NextRequest, { params }: { params: Promise<{ subreddit: string; date: string }> }) {
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    return jsonError('Not signed in', 401);
+  }
+
+  const { subreddit, date } = await params;
+  if (!isValidSubredditName(subreddit) || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    return jsonError('Invalid subreddit or date', 400);
+  }
+
+  const storage = await getStorage();
+  const digest = await storage.digests.get(subreddit, date);
+  if (!digest) {
+    return jsonError('No digest for this date', 404);
+  }
+
+  const format = request.nextUrl.searchParams.get('format') ?? 'json';
+  const filename = `${subreddit}-digest-${date}`;
+
+  if (format === 'md') {
+    return new NextResponse(digestToMarkdown(digest), {
+      headers: {
+        'Content-Type': 'text/markdown; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}.md"`,
+      },
+    });
+  }
+  if (format === 'html') {
+    return new NextResponse(digestToHtml(digest), {
+      headers: {
+        'Content-Type': 'text/html; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}.html"`,
+      },
+    });
+  }
+  return NextResponse.json(digest);
+}
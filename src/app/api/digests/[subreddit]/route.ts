@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { getRedditClient } from '@/lib/reddit-client';
+import { GeminiError } from '@/lib/gemini-client';
+import { LLMResponseError } from '@/lib/llm';
+import { errorResponse, jsonError } from '@/lib/api-response';
+import { getCurrentUserId } from '@/lib/auth';
+import { generateDailyDigest } from '@/lib/digest';
+import { createConfiguredGeminiClient } from '@/lib/settings';
+import { getStorage } from '@/lib/storage';
+import { isValidSubredditName } from '@/lib/subreddits';
+
+// Generates (or regenerates) today's digest for a subreddit
+export async function POST(_request: Request, { params }: { params: Promise<{ subreddit: string }> }) {
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    return jsonError('Not signed in', 401);
+  }
+
+  const { subreddit } = await params;
+  if (!isValidSubredditName(subreddit)) {
+    return jsonError('Invalid subreddit name', 400);
+  }
+
+  const storage = await getStorage();
+  const llm = await createConfiguredGeminiClient(storage);
+  if (!llm) {
+    return jsonError('Digests need GEMINI_API_KEY to be configured', 503);
+  }
+
+  const api = getRedditClient();
+  try {
+    const digest = await generateDailyDigest(api, llm, subreddit);
+    await storage.digests.save(digest);
+    return NextResponse.json(digest);
+  } catch (error) {
+    if (error instanceof GeminiError || error instanceof LLMResponseError) {
+      console.error('Error generating digest:', error);
+      return jsonError('The digest could not be generated, try again later', 502);
+    }
+    return errorResponse(error);
+  }
+}
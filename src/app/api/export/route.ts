@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse, jsonError } from '@/lib/api-response';
+import { getCurrentUserId } from '@/lib/auth';
+import { EXPORT_CONTENT_TYPES, EXPORT_FORMATS, exportPosts, parseExportColumns, type ExportFormat } from '@/lib/export';
+import { getRedditClientFor } from '@/lib/reddit-client';
+import type { RedditPost } from '@/lib/reddit-schemas';
+import { parseSearchRequest } from '@/lib/search';
+import { matchesSearchFilters, parseSearchQuery, toRedditQuery } from '@/lib/search-query';
+import { getStorage } from '@/lib/storage';
+import { isValidSubredditName, parseListingOptions } from '@/lib/subreddits';
+
+async function* take(posts: AsyncIterable<RedditPost>, maxItems: number) {
+  let count = 0;
+  for await (const post of posts) {
+    yield post;
+    if (++count >= maxItems) {
+      return;
+    }
+  }
+}
+
+async function* filtered(posts: AsyncIterable<RedditPost>, keep: (post: RedditPost) => boolean) {
+  for await (const post of posts) {
+    if (keep(post)) {
+      yield post;
+    }
+  }
+}
+
+/**
+ * Downloads every post of a subreddit listing (?subreddit=&sort=&time=) or a
+ * search (?q=, optionally within ?subreddit=), following all pages.
+ * ?format=csv|jsonl, ?columns=a,b,c and ?max= limit what is written.
+ */
+export async function GET(request: NextRequest) {
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    return jsonError('Not signed in', 401);
+  }
+
+  const searchParams = Object.fromEntries(request.nextUrl.searchParams);
+  const format = (EXPORT_FORMATS.find((value) => value === searchParams.format) ?? 'csv') as ExportFormat;
+  const columns = parseExportColumns(searchParams.columns);
+  const max = Number.parseInt(searchParams.max ?? '', 10);
+  const maxItems = Number.isFinite(max) && max > 0 ? max : undefined;
+
+  const search = parseSearchRequest(searchParams);
+  const parsed = parseSearchQuery(search.query);
+  if (!search.query && !isValidSubredditName(searchParams.subreddit ?? '')) {
+    return jsonError('Pass a subreddit or a search query', 400);
+  }
+
+  const date = new Date().toISOString().slice(0, 10);
+
+  try {
+    const api = await getRedditClientFor(await getStorage(), userId);
+
+    let filename: string;
+    let posts: AsyncGenerator<RedditPost>;
+    if (search.query) {
+      posts = filtered(
+        api.searchAll(toRedditQuery(parsed), { subreddit: search.subreddit ?? undefined, sort: search.sort, time: search.time }),
+        (post) => matchesSearchFilters(post, parsed)
+      );
+      filename = `search-${search.subreddit ? `${search.subreddit}-` : ''}${date}`;
+    } else {
+      const options = parseListingOptions(searchParams);
+      posts = api.paginate(searchParams.subreddit, { sort: options.sort, time: options.time });
+      filename = `${searchParams.subreddit}-${options.sort}-${date}`;
+    }
+
+    // Applied after filtering, so ?max= is the number of rows written
+    if (maxItems !== undefined) {
+      posts = take(posts, maxItems);
+    }
+
+    const body = await exportPosts(posts, format, columns);
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': EXPORT_CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${filename}.${format}"`,
+      },
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse, jsonError } from '@/lib/api-response';
+import { getCurrentUserId } from '@/lib/auth';
+import { getStorage } from '@/lib/storage';
+import { getPreferences, PreferencesInputSchema } from '@/lib/users';
+
+export async function GET() {
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    return jsonError('Not signed in', 401);
+  }
+
+  try {
+    const storage = await getStorage();
+    return NextResponse.json(await getPreferences(storage, userId));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    return jsonError('Not signed in', 401);
+  }
+
+  const parsed = PreferencesInputSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return jsonError(parsed.error.issues[0]?.message ?? 'Invalid preferences', 400);
+  }
+
+  try {
+    const storage = await getStorage();
+    const preferences = { userId, ...parsed.data, updatedAt: new Date() };
+    await storage.users.savePreferences(preferences);
+    return NextResponse.json(preferences);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { errorResponse, jsonError } from '@/lib/api-response';
+import { getCurrentUserId } from '@/lib/auth';
+import { getStorage } from '@/lib/storage';
+
+// Without ids, every notification is marked as read
+const MarkReadSchema = z.object({
+  ids: z.array(z.string()).max(100).optional(),
+});
+
+export async function POST(request: NextRequest) {
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    return jsonError('Not signed in', 401);
+  }
+
+  const parsed = MarkReadSchema.safeParse(await request.json().catch(() => ({})));
+  if (!parsed.success) {
+    return jsonError('Invalid request', 400);
+  }
+
+  try {
+    const storage = await getStorage();
+    await storage.notifications.markRead(userId, parsed.data.ids);
+    return NextResponse.json({ unread: await storage.notifications.countUnread(userId) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
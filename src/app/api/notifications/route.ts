@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse, jsonError } from '@/lib/api-response';
+import { getCurrentUserId } from '@/lib/auth';
+import { getSettings } from '@/lib/settings';
+import { getStorage } from '@/lib/storage';
+
+export async function GET(request: NextRequest) {
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    return jsonError('Not signed in', 401);
+  }
+
+  try {
+    const storage = await getStorage();
+    const [notifications, unread, settings] = await Promise.all([
+      storage.notifications.list(userId, {
+        unreadOnly: request.nextUrl.searchParams.get('unread') === '1',
+        limit: 20,
+      }),
+      storage.notifications.countUnread(userId),
+      getSettings(storage),
+    ]);
+    return NextResponse.json({ notifications, unread, pollSeconds: settings.notificationPollSeconds });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRedditClient } from '@/lib/reddit-client';
+import { GeminiError } from '@/lib/gemini-client';
+import { LLMResponseError } from '@/lib/llm';
+import { errorResponse, jsonError } from '@/lib/api-response';
+import { getCurrentUserId } from '@/lib/auth';
+import { createConfiguredGeminiClient } from '@/lib/settings';
+import { getStorage } from '@/lib/storage';
+import { summarizePostCached } from '@/lib/summarize';
+
+export async function POST(request: NextRequest, { params }: { params: Promise<{ postId: string }> }) {
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    return jsonError('Not signed in', 401);
+  }
+
+  const { postId } = await params;
+  if (!/^[a-z0-9]+$/i.test(postId)) {
+    return jsonError('Invalid post id', 400);
+  }
+
+  const storage = await getStorage();
+  const llm = await createConfiguredGeminiClient(storage);
+  if (!llm) {
+    return jsonError('Summaries need GEMINI_API_KEY to be configured', 503);
+  }
+
+  const api = getRedditClient();
+  try {
+    const thread = await api.getComments(postId, { sort: 'top', limit: 100 });
+    const summary = await summarizePostCached(storage.analyses, llm, thread.post, thread.comments, {
+      refresh: request.nextUrl.searchParams.get('refresh') === '1',
+    });
+    return NextResponse.json(summary);
+  } catch (error) {
+    if (error instanceof GeminiError || error instanceof LLMResponseError) {
+      console.error('Error summarizing post:', error);
+      return jsonError('The summary could not be generated, try again later', 502);
+    }
+    return errorResponse(error);
+  }
+}
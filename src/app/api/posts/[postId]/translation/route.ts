@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRedditClientFor } from '@/lib/reddit-client';
+import { GeminiError } from '@/lib/gemini-client';
+import { LLMResponseError } from '@/lib/llm';
+import { errorResponse, jsonError } from '@/lib/api-response';
+import { getCurrentUserId } from '@/lib/auth';
+import { createConfiguredGeminiClient } from '@/lib/settings';
+import { getStorage } from '@/lib/storage';
+import { NoTranslationNeededError, translatePostCached } from '@/lib/translate';
+
+export async function POST(request: NextRequest, { params }: { params: Promise<{ postId: string }> }) {
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    return jsonError('Not signed in', 401);
+  }
+
+  const { postId } = await params;
+  if (!/^[a-z0-9]+$/i.test(postId)) {
+    return jsonError('Invalid post id', 400);
+  }
+
+  const storage = await getStorage();
+  const llm = await createConfiguredGeminiClient(storage);
+  if (!llm) {
+    return jsonError('Translations need GEMINI_API_KEY to be configured', 503);
+  }
+
+  try {
+    const api = await getRedditClientFor(storage, userId);
+    const thread = await api.getComments(postId, { limit: 1, depth: 1, maxMoreRequests: 0 });
+    const translation = await translatePostCached(storage.analyses, llm, thread.post, {
+      refresh: request.nextUrl.searchParams.get('refresh') === '1',
+    });
+    return NextResponse.json(translation);
+  } catch (error) {
+    if (error instanceof NoTranslationNeededError) {
+      return jsonError('Only Bangla and Banglish posts are translated', 400);
+    }
+    if (error instanceof GeminiError || error instanceof LLMResponseError) {
+      console.error('Error translating post:', error);
+      return jsonError('The translation could not be generated, try again later', 502);
+    }
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { jsonError } from '@/lib/api-response';
+import { getCurrentUserId } from '@/lib/auth';
+import { getRedditCache } from '@/lib/reddit-cache';
+import { getStorage } from '@/lib/storage';
+import { isValidSubredditName } from '@/lib/subreddits';
+import { isAdmin } from '@/lib/users';
+
+// Hit/miss counts per endpoint type since the server started
+export async function GET() {
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    return jsonError('Not signed in', 401);
+  }
+  if (!(await isAdmin(await getStorage(), userId))) {
+    return jsonError('Only admins can manage the Reddit cache', 403);
+  }
+
+  const cache = getRedditCache();
+  return NextResponse.json(cache ? { enabled: true, ...cache.getStats() } : { enabled: false });
+}
+
+// Purges one subreddit (?subreddit=name), or everything without it
+export async function DELETE(request: NextRequest) {
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    return jsonError('Not signed in', 401);
+  }
+  if (!(await isAdmin(await getStorage(), userId))) {
+    return jsonError('Only admins can manage the Reddit cache', 403);
+  }
+
+  const subreddit = request.nextUrl.searchParams.get('subreddit')?.trim().replace(/^r\//i, '');
+  if (subreddit !== undefined && !isValidSubredditName(subreddit)) {
+    return jsonError('Invalid subreddit name', 400);
+  }
+
+  const cache = getRedditCache();
+  if (!cache) {
+    return jsonError('The Reddit cache is turned off', 404);
+  }
+
+  if (subreddit) {
+    return NextResponse.json({ purged: cache.purgeSubreddit(subreddit) });
+  }
+  const { keys } = cache.getStats();
+  cache.flush();
+  return NextResponse.json({ purged: keys });
+}
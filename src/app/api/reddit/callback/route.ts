@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { jsonError } from '@/lib/api-response';
+import { getCurrentUserId } from '@/lib/auth';
+import { RedditAPI } from '@/lib/reddit-api';
+import { releaseUserRedditClient } from '@/lib/reddit-client';
+import { encryptToken, getRedditOAuthApp, STATE_COOKIE, statesMatch } from '@/lib/reddit-oauth';
+import { getStorage } from '@/lib/storage';
+
+function backToAccount(request: NextRequest, result: string) {
+  const response = NextResponse.redirect(new URL(`/dashboard/account?reddit=${result}`, request.url));
+  response.cookies.delete({ name: STATE_COOKIE, path: '/api/reddit' });
+  return response;
+}
+
+export async function GET(request: NextRequest) {
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    return jsonError('Not signed in', 401);
+  }
+
+  const app = getRedditOAuthApp();
+  if (!app) {
+    return jsonError('Reddit OAuth is not configured', 503);
+  }
+
+  const params = request.nextUrl.searchParams;
+  if (!statesMatch(request.cookies.get(STATE_COOKIE)?.value, params.get('state'))) {
+    return jsonError('OAuth state does not match, start the connection again', 400);
+  }
+  // Reddit sends `error=access_denied` when the user declines
+  const code = params.get('code');
+  if (params.get('error') || !code) {
+    return backToAccount(request, 'denied');
+  }
+
+  let refreshToken: string | null = null;
+  const api = new RedditAPI({
+    clientId: app.clientId,
+    clientSecret: app.clientSecret,
+    grant: { type: 'authorization_code', code, redirectUri: app.redirectUri },
+    onRefreshToken: (token) => {
+      refreshToken = token;
+    },
+    authBaseUrl: process.env.REDDIT_AUTH_BASE_URL || undefined,
+    apiBaseUrl: process.env.REDDIT_API_BASE_URL || undefined,
+  });
+
+  try {
+    const me = await api.getUserInfo();
+    if (!refreshToken) {
+      return backToAccount(request, 'error');
+    }
+
+    const storage = await getStorage();
+    const now = new Date();
+    const existing = await storage.redditConnections.get(userId);
+    // Drop the client and access token of a previously connected account
+    await releaseUserRedditClient(storage, userId);
+    await storage.redditConnections.save({
+      userId,
+      redditUsername: me.name,
+      scopes: api.getGrantedScopes(),
+      encryptedRefreshToken: encryptToken(refreshToken),
+      connectedAt: existing?.connectedAt ?? now,
+      updatedAt: now,
+    });
+    return backToAccount(request, 'connected');
+  } catch (error) {
+    console.error('Reddit account connection failed:', error);
+    return backToAccount(request, 'error');
+  } finally {
+    await api.cleanup();
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { jsonError } from '@/lib/api-response';
+import { getCurrentUserId } from '@/lib/auth';
+import {
+  buildAuthorizeUrl,
+  createOAuthState,
+  getRedditOAuthApp,
+  normalizeScopes,
+  STATE_COOKIE,
+} from '@/lib/reddit-oauth';
+
+// Starts the authorization-code flow; `scope` may be repeated to request optional scopes
+export async function GET(request: NextRequest) {
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    return jsonError('Not signed in', 401);
+  }
+
+  const app = getRedditOAuthApp();
+  if (!app) {
+    return jsonError('Reddit OAuth is not configured', 503);
+  }
+
+  const scopes = normalizeScopes(request.nextUrl.searchParams.getAll('scope'));
+  const state = createOAuthState();
+
+  const response = NextResponse.redirect(buildAuthorizeUrl(app, scopes, state));
+  // The callback only accepts a state that matches this cookie, which a forged link cannot set
+  response.cookies.set(STATE_COOKIE, state, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: request.nextUrl.protocol === 'https:',
+    path: '/api/reddit',
+    maxAge: 10 * 60,
+  });
+  return response;
+}
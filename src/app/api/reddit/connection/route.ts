@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import { errorResponse, jsonError } from '@/lib/api-response';
+import { getCurrentUserId } from '@/lib/auth';
+import { createUserRedditClient, releaseUserRedditClient } from '@/lib/reddit-client';
+import { getStorage } from '@/lib/storage';
+
+export async function GET() {
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    return jsonError('Not signed in', 401);
+  }
+
+  try {
+    const storage = await getStorage();
+    const connection = await storage.redditConnections.get(userId);
+    if (!connection) {
+      return NextResponse.json({ connected: false });
+    }
+    // The encrypted token never leaves the server
+    const { redditUsername, scopes, connectedAt } = connection;
+    return NextResponse.json({ connected: true, redditUsername, scopes, connectedAt });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function DELETE() {
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    return jsonError('Not signed in', 401);
+  }
+
+  try {
+    const storage = await getStorage();
+    const api = await createUserRedditClient(storage, userId).catch(() => null);
+    if (api) {
+      try {
+        await api.revokeRefreshToken();
+      } catch (error) {
+        // Forget the token even if Reddit could not be reached; the user can still revoke it from Reddit's app settings
+        console.warn('Could not revoke Reddit refresh token:', error);
+      } finally {
+        await api.cleanup();
+      }
+    }
+
+    const deleted = await storage.redditConnections.delete(userId);
+    await releaseUserRedditClient(storage, userId);
+    return deleted ? new NextResponse(null, { status: 204 }) : jsonError('No Reddit account connected', 404);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse, jsonError } from '@/lib/api-response';
+import { getStorage } from '@/lib/storage';
+import { isRegistrationOpen, registerUser, RegistrationSchema, UserExistsError } from '@/lib/users';
+
+export async function POST(request: NextRequest) {
+  if (!isRegistrationOpen()) {
+    return jsonError('Registration is closed', 403);
+  }
+
+  const parsed = RegistrationSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return jsonError(parsed.error.issues[0]?.message ?? 'Invalid registration', 400);
+  }
+
+  try {
+    const storage = await getStorage();
+    const user = await registerUser(storage, parsed.data);
+    return NextResponse.json({ id: user.id, username: user.username }, { status: 201 });
+  } catch (error) {
+    if (error instanceof UserExistsError) {
+      return jsonError('That username is taken', 409);
+    }
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRedditClientFor } from '@/lib/reddit-client';
+import { errorResponse, jsonError } from '@/lib/api-response';
+import { getCurrentUserId } from '@/lib/auth';
+import { parseSearchRequest, runSearch } from '@/lib/search';
+import { getStorage, recordPosts } from '@/lib/storage';
+
+export async function GET(request: NextRequest) {
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    return jsonError('Not signed in', 401);
+  }
+
+  const searchRequest = parseSearchRequest(Object.fromEntries(request.nextUrl.searchParams));
+  if (!searchRequest.query) {
+    return jsonError('Missing search query', 400);
+  }
+
+  try {
+    const api = await getRedditClientFor(await getStorage(), userId);
+    const page = await runSearch(api, searchRequest);
+    if (page.type === 'link') {
+      await recordPosts(page.posts);
+    }
+    return NextResponse.json(page);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse, jsonError } from '@/lib/api-response';
+import { getCurrentUserId } from '@/lib/auth';
+import { createSavedSearch, SavedSearchInputSchema } from '@/lib/search';
+import { getStorage } from '@/lib/storage';
+
+export async function GET() {
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    return jsonError('Not signed in', 401);
+  }
+
+  try {
+    const storage = await getStorage();
+    return NextResponse.json({ searches: await storage.savedSearches.list(userId) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    return jsonError('Not signed in', 401);
+  }
+
+  const parsed = SavedSearchInputSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return jsonError(parsed.error.issues[0]?.message ?? 'Invalid search', 400);
+  }
+
+  try {
+    const storage = await getStorage();
+    const search = createSavedSearch(userId, parsed.data);
+    await storage.savedSearches.save(search);
+    return NextResponse.json(search, { status: 201 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
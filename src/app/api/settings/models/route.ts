@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { errorResponse, jsonError } from '@/lib/api-response';
+import { getCurrentUserId } from '@/lib/auth';
+import { GeminiError } from '@/lib/gemini-client';
+import { listGeminiModels } from '@/lib/settings';
+import { getStorage } from '@/lib/storage';
+import { isAdmin } from '@/lib/users';
+
+export async function GET() {
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    return jsonError('Not signed in', 401);
+  }
+  if (!(await isAdmin(await getStorage(), userId))) {
+    return jsonError('Only admins can change settings', 403);
+  }
+
+  try {
+    return NextResponse.json({ models: await listGeminiModels() });
+  } catch (error) {
+    if (error instanceof GeminiError) {
+      console.error('Error listing Gemini models:', error);
+      return jsonError('Could not list Gemini models', 502);
+    }
+    return errorResponse(error);
+  }
+}
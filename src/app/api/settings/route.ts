@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse, jsonError } from '@/lib/api-response';
+import { getCurrentUserId } from '@/lib/auth';
+import { getRedditClient } from '@/lib/reddit-client';
+import { getSettings, saveSettings, SettingsInputSchema, UnavailableSubredditsError } from '@/lib/settings';
+import { getStorage } from '@/lib/storage';
+import { isAdmin } from '@/lib/users';
+
+export async function GET() {
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    return jsonError('Not signed in', 401);
+  }
+
+  try {
+    return NextResponse.json(await getSettings(await getStorage()));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    return jsonError('Not signed in', 401);
+  }
+  if (!(await isAdmin(await getStorage(), userId))) {
+    return jsonError('Only admins can change settings', 403);
+  }
+
+  const parsed = SettingsInputSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return jsonError(parsed.error.issues[0]?.message ?? 'Invalid settings', 400);
+  }
+
+  const api = getRedditClient();
+  try {
+    const storage = await getStorage();
+    return NextResponse.json(await saveSettings(storage, api, parsed.data));
+  } catch (error) {
+    if (error instanceof UnavailableSubredditsError) {
+      return NextResponse.json({ error: error.message, subreddits: error.subreddits }, { status: 422 });
+    }
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { jsonError } from '@/lib/api-response';
+import { getCurrentUserId } from '@/lib/auth';
+import { getSettings, testGeminiConnection, testRedditConnection } from '@/lib/settings';
+import { getStorage } from '@/lib/storage';
+import { isAdmin } from '@/lib/users';
+
+const TestRequestSchema = z.object({
+  service: z.enum(['reddit', 'gemini']),
+  // Model to try instead of the saved one, so a choice can be checked before saving
+  model: z.string().trim().min(1).max(100).optional(),
+});
+
+// Always answers 200; whether the service could be reached is in the result's `ok`
+export async function POST(request: NextRequest) {
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    return jsonError('Not signed in', 401);
+  }
+  if (!(await isAdmin(await getStorage(), userId))) {
+    return jsonError('Only admins can test connections', 403);
+  }
+
+  const parsed = TestRequestSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return jsonError(parsed.error.issues[0]?.message ?? 'Invalid request', 400);
+  }
+
+  if (parsed.data.service === 'reddit') {
+    return NextResponse.json(await testRedditConnection());
+  }
+
+  const model = parsed.data.model ?? (await getSettings(await getStorage())).geminiModel;
+  return NextResponse.json(await testGeminiConnection(model));
+}
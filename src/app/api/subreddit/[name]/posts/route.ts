@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRedditClientFor } from '@/lib/reddit-client';
+import { errorResponse, jsonError } from '@/lib/api-response';
+import { getCurrentUserId } from '@/lib/auth';
+import { isValidSubredditName, parseListingOptions } from '@/lib/subreddits';
+import { getStorage, recordPosts } from '@/lib/storage';
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ name: string }> }) {
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    return jsonError('Not signed in', 401);
+  }
+
+  const { name } = await params;
+  if (!isValidSubredditName(name)) {
+    return jsonError('Invalid subreddit name', 400);
+  }
+
+  const options = parseListingOptions(Object.fromEntries(request.nextUrl.searchParams));
+
+  try {
+    const api = await getRedditClientFor(await getStorage(), userId);
+    const listing = await api.getRecentPosts(name, options);
+    const posts = listing.data.children.map((child) => child.data);
+    await recordPosts(posts);
+    return NextResponse.json({ posts, after: listing.data.after });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
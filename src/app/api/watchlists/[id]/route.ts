@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse, jsonError } from '@/lib/api-response';
+import { getCurrentUserId } from '@/lib/auth';
+import { getStorage } from '@/lib/storage';
+import { WatchlistInputSchema } from '@/lib/watchlists';
+
+export async function PUT(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    return jsonError('Not signed in', 401);
+  }
+
+  const { id } = await params;
+  const parsed = WatchlistInputSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return jsonError(parsed.error.issues[0]?.message ?? 'Invalid watchlist', 400);
+  }
+
+  try {
+    const storage = await getStorage();
+    const existing = await storage.watchlists.get(userId, id);
+    if (!existing) {
+      return jsonError('Not found', 404);
+    }
+
+    const watchlist = { ...existing, ...parsed.data, updatedAt: new Date() };
+    await storage.watchlists.save(watchlist);
+    return NextResponse.json(watchlist);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    return jsonError('Not signed in', 401);
+  }
+
+  const { id } = await params;
+
+  try {
+    const storage = await getStorage();
+    if (!(await storage.watchlists.delete(userId, id))) {
+      return jsonError('Not found', 404);
+    }
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
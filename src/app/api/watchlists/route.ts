@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse, jsonError } from '@/lib/api-response';
+import { getCurrentUserId } from '@/lib/auth';
+import { getStorage } from '@/lib/storage';
+import { createWatchlist, WatchlistInputSchema } from '@/lib/watchlists';
+
+export async function GET() {
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    return jsonError('Not signed in', 401);
+  }
+
+  try {
+    const storage = await getStorage();
+    return NextResponse.json({ watchlists: await storage.watchlists.list(userId) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    return jsonError('Not signed in', 401);
+  }
+
+  const parsed = WatchlistInputSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return jsonError(parsed.error.issues[0]?.message ?? 'Invalid watchlist', 400);
+  }
+
+  try {
+    const storage = await getStorage();
+    const watchlist = createWatchlist(userId, parsed.data);
+    await storage.watchlists.save(watchlist);
+    return NextResponse.json(watchlist, { status: 201 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
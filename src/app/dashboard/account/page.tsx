@@ -0,0 +1,75 @@
+import { redirect } from 'next/navigation';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
+import { PreferencesForm } from "@/components/auth/preferences-form";
+import { RedditConnection } from "@/components/auth/reddit-connection";
+import { getCurrentUserId } from '@/lib/auth';
+import { getRedditOAuthApp, REDDIT_SCOPES, REQUIRED_SCOPES, type RedditScope } from '@/lib/reddit-oauth';
+import { getStorage } from '@/lib/storage';
+import { getPreferences } from '@/lib/users';
+
+interface AccountPageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+export default async function AccountPage({ searchParams }: AccountPageProps) {
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    redirect('/signin?callbackUrl=/dashboard/account');
+  }
+
+  const storage = await getStorage();
+  const [user, preferences, connection] = await Promise.all([
+    storage.users.get(userId),
+    getPreferences(storage, userId),
+    storage.redditConnections.get(userId),
+  ]);
+  const { reddit: connectResult } = await searchParams;
+
+  return (
+    <div className="container mx-auto space-y-6 p-6">
+      <h1 className="text-3xl font-bold">Account</h1>
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-xl">{user?.name ?? 'Your account'}</CardTitle>
+          <CardDescription>
+            {user?.provider === 'reddit' ? `Signed in with Reddit as u/${user.username}` : 'Signed in with a username and password'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <PreferencesForm
+            initial={{
+              subreddits: preferences.subreddits,
+              defaultSort: preferences.defaultSort,
+              defaultTime: preferences.defaultTime,
+            }}
+          />
+        </CardContent>
+      </Card>
+      {getRedditOAuthApp() && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-xl">Reddit account</CardTitle>
+            <CardDescription>
+              Connect your own Reddit account so subreddit listings are loaded as you, including private communities you belong to.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <RedditConnection
+              scopes={(Object.keys(REDDIT_SCOPES) as RedditScope[]).map((name) => ({
+                name,
+                description: REDDIT_SCOPES[name],
+                required: REQUIRED_SCOPES.includes(name),
+              }))}
+              connection={connection && {
+                redditUsername: connection.redditUsername,
+                scopes: connection.scopes,
+                connectedAt: connection.connectedAt.toISOString(),
+              }}
+              result={typeof connectResult === 'string' ? connectResult : undefined}
+            />
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
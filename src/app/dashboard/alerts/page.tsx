@@ -0,0 +1,15 @@
+import { AlertManager } from "@/components/alerts/alert-manager";
+
+export default function AlertsPage() {
+  return (
+    <div className="container mx-auto space-y-6 p-6">
+      <div>
+        <h1 className="text-3xl font-bold">Alerts</h1>
+        <p className="text-sm text-muted-foreground">
+          Send matching posts to webhooks, Slack, Discord or email.
+        </p>
+      </div>
+      <AlertManager />
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+import Link from 'next/link';
+import { formatDistanceToNow } from 'date-fns';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
+import { Sparkline } from "@/components/charts/sparkline";
+import { communityIcon, getCommunityOverviews, type CommunityOverview } from '@/lib/communities';
+import { getRedditClient } from '@/lib/reddit-client';
+import { getSettings } from '@/lib/settings';
+import { getStorage } from '@/lib/storage';
+import { cn } from '@/lib/utils';
+
+const compact = new Intl.NumberFormat('en', { notation: 'compact', maximumFractionDigits: 1 });
+
+function formatCount(value: number | null) {
+  return value === null ? '—' : compact.format(value);
+}
+
+async function getOverviews(): Promise<CommunityOverview[]> {
+  const storage = await getStorage();
+  const { trackedSubreddits } = await getSettings(storage);
+  return getCommunityOverviews(getRedditClient(), storage, trackedSubreddits.map((subreddit) => subreddit.name));
+}
+
+function CommunityCard({ community }: { community: CommunityOverview }) {
+  const { about, rules, history, growth } = community;
+  const icon = about && communityIcon(about);
+
+  return (
+    <Card className="flex flex-col">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-3 text-xl">
+          {icon ? (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img src={icon} alt="" className="h-10 w-10 rounded-full" />
+          ) : (
+            <span className="flex h-10 w-10 items-center justify-center rounded-full bg-secondary text-sm">r/</span>
+          )}
+          <Link href={`/dashboard/subreddit/${community.name}`} className="hover:text-primary transition-colors">
+            r/{community.name}
+          </Link>
+          {about?.over18 && <span className="rounded bg-destructive/10 px-1.5 text-xs text-destructive">NSFW</span>}
+        </CardTitle>
+        <CardDescription>{community.error ?? (about?.public_description || about?.title)}</CardDescription>
+      </CardHeader>
+      <CardContent className="flex-1 space-y-4 text-sm">
+        <div className="grid grid-cols-3 gap-2">
+          <div>
+            <div className="text-lg font-semibold">{formatCount(about?.subscribers ?? null)}</div>
+            <div className="text-xs text-muted-foreground">members</div>
+          </div>
+          <div>
+            <div className="text-lg font-semibold">{formatCount(about?.active_user_count ?? null)}</div>
+            <div className="text-xs text-muted-foreground">online</div>
+          </div>
+          <div>
+            <div className="text-lg font-semibold">
+              {about ? formatDistanceToNow(new Date(about.created_utc * 1000)) : '—'}
+            </div>
+            <div className="text-xs text-muted-foreground">old</div>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <Sparkline values={history.flatMap((snapshot) => snapshot.subscribers ?? [])} />
+          {growth && (
+            <span
+              className={cn('text-xs', growth.change >= 0 ? 'text-green-600' : 'text-destructive')}
+              title={`${growth.perDay.toFixed(1)} per day`}
+            >
+              {growth.change >= 0 ? '+' : ''}{growth.change.toLocaleString()}
+              {growth.percent !== null && ` (${growth.percent.toFixed(2)}%)`} since{' '}
+              {formatDistanceToNow(growth.since, { addSuffix: true })}
+            </span>
+          )}
+        </div>
+
+        {rules.length > 0 && (
+          <details>
+            <summary className="cursor-pointer text-muted-foreground">{rules.length} rules</summary>
+            <ol className="mt-2 list-decimal space-y-1 pl-5">
+              {rules.map((rule) => (
+                <li key={rule.short_name} title={rule.description || undefined}>{rule.short_name}</li>
+              ))}
+            </ol>
+          </details>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default async function CommunitiesPage() {
+  const communities = await getOverviews();
+
+  return (
+    <div className="container mx-auto p-6">
+      <div className="mb-6 flex flex-wrap items-end justify-between gap-4">
+        <h1 className="text-3xl font-bold">Communities</h1>
+        <p className="text-sm text-muted-foreground">
+          Growth is recorded on each visit. <Link href="/dashboard/settings" className="underline">Edit tracked subreddits</Link>
+        </p>
+      </div>
+      <div className="grid grid-cols-1 gap-6 md:grid-cols-2 lg:grid-cols-3">
+        {communities.map((community) => (
+          <CommunityCard key={community.name} community={community} />
+        ))}
+      </div>
+    </div>
+  );
+}
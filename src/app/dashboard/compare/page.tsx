@@ -0,0 +1,189 @@
+import Link from 'next/link';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { getCurrentUserId } from '@/lib/auth';
+import {
+  COMPARE_WINDOWS,
+  MAX_COMPARED,
+  MIN_COMPARED,
+  compareSubreddits,
+  parseComparedSubreddits,
+  type CompareWindow,
+  type SubredditMetrics,
+} from '@/lib/compare';
+import { getRedditClientFor } from '@/lib/reddit-client';
+import { getStorage } from '@/lib/storage';
+import { getUserSubreddits } from '@/lib/users';
+import { cn } from '@/lib/utils';
+
+interface ComparePageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+const WINDOW_LABELS: Record<CompareWindow, string> = { day: 'Past day', week: 'Past week', month: 'Past month' };
+
+const METRIC_ROWS: { label: string; value: (metrics: SubredditMetrics) => string }[] = [
+  { label: 'Posts', value: (metrics) => `${metrics.truncated ? '≥ ' : ''}${metrics.posts.toLocaleString()}` },
+  { label: 'Posts per day', value: (metrics) => metrics.postsPerDay.toFixed(1) },
+  { label: 'Median score', value: (metrics) => metrics.medianScore.toLocaleString() },
+  { label: 'Comments per post', value: (metrics) => metrics.commentsPerPost.toFixed(1) },
+];
+
+export default async function ComparePage({ searchParams }: ComparePageProps) {
+  const params = await searchParams;
+  const window = (Object.keys(COMPARE_WINDOWS) as CompareWindow[]).find((key) => key === params.window) ?? 'week';
+  const selected = parseComparedSubreddits([params.r, params.other]);
+
+  const storage = await getStorage();
+  const userId = await getCurrentUserId();
+  const suggestions = (await getUserSubreddits(storage, userId)).map((subreddit) => subreddit.name);
+  const others = selected.filter((name) => !suggestions.some((suggestion) => suggestion.toLowerCase() === name.toLowerCase()));
+
+  const valid = selected.length >= MIN_COMPARED && selected.length <= MAX_COMPARED;
+  const comparison = valid
+    ? await compareSubreddits(await getRedditClientFor(storage, userId), selected, window)
+    : null;
+  const compared = comparison?.entries.flatMap((entry) => entry.metrics ?? []) ?? [];
+
+  return (
+    <div className="container mx-auto space-y-6 p-6">
+      <h1 className="text-3xl font-bold">Compare</h1>
+
+      <form action="/dashboard/compare" className="space-y-3 text-sm">
+        <div className="flex flex-wrap gap-x-4 gap-y-2">
+          {suggestions.map((name) => (
+            <label key={name} className="flex items-center gap-1.5">
+              <input
+                type="checkbox"
+                name="r"
+                value={name}
+                defaultChecked={selected.some((selectedName) => selectedName.toLowerCase() === name.toLowerCase())}
+              />
+              r/{name}
+            </label>
+          ))}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <input
+            name="other"
+            defaultValue={others.join(', ')}
+            placeholder="Other subreddits, comma separated"
+            className="h-9 min-w-64 flex-1 rounded-md border border-input bg-background px-3"
+          />
+          <select name="window" defaultValue={window} className="h-9 rounded-md border border-input bg-background px-3">
+            {(Object.keys(COMPARE_WINDOWS) as CompareWindow[]).map((key) => (
+              <option key={key} value={key}>{WINDOW_LABELS[key]}</option>
+            ))}
+          </select>
+          <Button type="submit">Compare</Button>
+        </div>
+      </form>
+
+      {!valid ? (
+        <p className="text-sm text-muted-foreground">
+          {selected.length > MAX_COMPARED
+            ? `Pick at most ${MAX_COMPARED} subreddits; ${selected.length} are selected.`
+            : `Pick ${MIN_COMPARED} to ${MAX_COMPARED} subreddits to compare their activity side by side.`}
+        </p>
+      ) : comparison && (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-xl">Activity</CardTitle>
+              <CardDescription>Posts submitted in the {WINDOW_LABELS[window].toLowerCase()}, read from each subreddit&apos;s new listing.</CardDescription>
+            </CardHeader>
+            <CardContent className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left">
+                    <th className="py-2 pr-4 font-medium text-muted-foreground" />
+                    {comparison.entries.map((entry) => (
+                      <th key={entry.subreddit} className="py-2 pr-4 font-semibold">
+                        <Link href={`/dashboard/subreddit/${entry.subreddit}`} className="hover:text-primary transition-colors">
+                          r/{entry.subreddit}
+                        </Link>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {METRIC_ROWS.map((row) => (
+                    <tr key={row.label} className="border-b">
+                      <td className="py-2 pr-4 text-muted-foreground">{row.label}</td>
+                      {comparison.entries.map((entry) => (
+                        <td key={entry.subreddit} className="py-2 pr-4 tabular-nums">
+                          {entry.metrics ? row.value(entry.metrics) : '—'}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                  <tr>
+                    <td className="py-2 pr-4 align-top text-muted-foreground">Top authors</td>
+                    {comparison.entries.map((entry) => (
+                      <td key={entry.subreddit} className="py-2 pr-4 align-top">
+                        {!entry.metrics ? (
+                          <span className="text-destructive">{entry.error}</span>
+                        ) : entry.metrics.topAuthors.length === 0 ? (
+                          <span className="text-muted-foreground">No posts</span>
+                        ) : (
+                          <ol className="space-y-0.5">
+                            {entry.metrics.topAuthors.map(({ author, posts }) => (
+                              <li key={author} className="flex justify-between gap-2">
+                                <Link href={`/dashboard/user/${author}`} className="truncate hover:text-primary transition-colors">
+                                  u/{author}
+                                </Link>
+                                <span className="tabular-nums text-muted-foreground">{posts}</span>
+                              </li>
+                            ))}
+                          </ol>
+                        )}
+                      </td>
+                    ))}
+                  </tr>
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-xl">Shared topics</CardTitle>
+              <CardDescription>Title keywords that come up in more than one of these subreddits, with the number of posts mentioning them.</CardDescription>
+            </CardHeader>
+            <CardContent className="overflow-x-auto">
+              {comparison.sharedTopics.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No topics overlap in this window.</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-left">
+                      <th className="py-2 pr-4 font-medium text-muted-foreground">Keyword</th>
+                      {compared.map((metrics) => (
+                        <th key={metrics.subreddit} className="py-2 pr-4 font-semibold">r/{metrics.subreddit}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {comparison.sharedTopics.map((topic) => (
+                      <tr key={topic.keyword} className="border-b last:border-0">
+                        <td className="py-2 pr-4 font-medium">{topic.keyword}</td>
+                        {compared.map((metrics) => (
+                          <td
+                            key={metrics.subreddit}
+                            className={cn('py-2 pr-4 tabular-nums', !topic.counts[metrics.subreddit] && 'text-muted-foreground')}
+                          >
+                            {topic.counts[metrics.subreddit] ?? '—'}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
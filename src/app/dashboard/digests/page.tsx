@@ -0,0 +1,137 @@
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { GenerateDigestButton } from "@/components/digest/generate-digest-button";
+import { utcDate } from '@/lib/digest';
+import { getSettings } from '@/lib/settings';
+import { getStorage, type DigestPostRef } from '@/lib/storage';
+import { isValidSubredditName } from '@/lib/subreddits';
+
+interface DigestsPageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+function PostLink({ post }: { post: DigestPostRef }) {
+  return (
+    <>
+      <a href={post.permalink} target="_blank" rel="noopener noreferrer" className="hover:text-primary transition-colors">
+        {post.title}
+      </a>{' '}
+      <span className="text-muted-foreground">({post.score} points, {post.numComments} comments)</span>
+    </>
+  );
+}
+
+export default async function DigestsPage({ searchParams }: DigestsPageProps) {
+  const params = await searchParams;
+  const storage = await getStorage();
+  const { trackedSubreddits } = await getSettings(storage);
+  const subredditParam = typeof params.subreddit === 'string' ? params.subreddit : '';
+  const subreddit = isValidSubredditName(subredditParam) ? subredditParam : trackedSubreddits[0].name;
+
+  const dates = await storage.digests.listDates(subreddit);
+  const today = utcDate();
+  const dateParam = typeof params.date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(params.date) ? params.date : null;
+  const date = dateParam ?? dates[0] ?? today;
+  const digest = await storage.digests.get(subreddit, date);
+  const exportBase = `/api/digests/${subreddit}/${date}`;
+
+  return (
+    <div className="container mx-auto space-y-6 p-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <h1 className="text-3xl font-bold">Daily digests</h1>
+        <form className="flex flex-wrap items-end gap-2 text-sm" action="/dashboard/digests">
+          <select
+            name="subreddit"
+            defaultValue={subreddit}
+            className="h-9 rounded-md border border-input bg-background px-3"
+          >
+            {trackedSubreddits.map((tracked) => (
+              <option key={tracked.name} value={tracked.name}>r/{tracked.name}</option>
+            ))}
+          </select>
+          <input
+            type="date"
+            name="date"
+            defaultValue={date}
+            max={today}
+            className="h-9 rounded-md border border-input bg-background px-3"
+          />
+          <Button type="submit" variant="outline">Show</Button>
+        </form>
+      </div>
+
+      {dates.length > 0 && (
+        <p className="text-sm text-muted-foreground">
+          Digests available for r/{subreddit}: {dates.slice(0, 7).join(', ')}{dates.length > 7 && ', …'}
+        </p>
+      )}
+
+      {!digest ? (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-xl">No digest for r/{subreddit} on {date}</CardTitle>
+            <CardDescription>
+              Digests are built from the day&apos;s top posts, so only today&apos;s can be generated.
+            </CardDescription>
+          </CardHeader>
+          {date === today && (
+            <CardContent>
+              <GenerateDigestButton subreddit={subreddit} />
+            </CardContent>
+          )}
+        </Card>
+      ) : (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-2xl">r/{digest.subreddit}: {digest.date}</CardTitle>
+            <CardDescription>
+              {digest.headline}
+            </CardDescription>
+            <div className="flex flex-wrap gap-2 pt-2">
+              <Button asChild variant="outline" size="sm">
+                <a href={`${exportBase}?format=md`}>Export Markdown</a>
+              </Button>
+              <Button asChild variant="outline" size="sm">
+                <a href={`${exportBase}?format=html`}>Export HTML</a>
+              </Button>
+              {date === today && <GenerateDigestButton subreddit={subreddit} label="Regenerate" />}
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-6 text-sm">
+            {digest.topics.map((topic) => (
+              <section key={topic.title} className="space-y-2">
+                <h2 className="text-lg font-semibold">{topic.title}</h2>
+                <p>{topic.summary}</p>
+                <ul className="list-disc space-y-1 pl-5">
+                  {topic.posts.map((post) => (
+                    <li key={post.id}><PostLink post={post} /></li>
+                  ))}
+                </ul>
+              </section>
+            ))}
+
+            {digest.notablePosts.length > 0 && (
+              <section className="space-y-2">
+                <h2 className="text-lg font-semibold">Notable posts</h2>
+                <ul className="list-disc space-y-1 pl-5">
+                  {digest.notablePosts.map((post) => (
+                    <li key={post.id}><PostLink post={post} />: {post.reason}</li>
+                  ))}
+                </ul>
+              </section>
+            )}
+
+            <section className="space-y-2">
+              <h2 className="text-lg font-semibold">Community mood</h2>
+              <p>{digest.mood}</p>
+            </section>
+
+            <p className="text-xs text-muted-foreground">
+              Generated from {digest.postCount} posts by {digest.model}.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
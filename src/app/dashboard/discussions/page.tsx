@@ -0,0 +1,67 @@
+import Link from 'next/link';
+import { formatDistanceToNow } from 'date-fns';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
+import { getRedditClient } from '@/lib/reddit-client';
+import type { RedditPost } from '@/lib/reddit-schemas';
+import { getSettings } from '@/lib/settings';
+import { getStorage } from '@/lib/storage';
+
+async function getMostDiscussedPosts(): Promise<RedditPost[]> {
+  const api = getRedditClient();
+
+  try {
+    // A multireddit path fetches every tracked community in one request
+    const { trackedSubreddits } = await getSettings(await getStorage());
+    const multireddit = trackedSubreddits.map((subreddit) => subreddit.name).join('+');
+    const posts = await api.getRecentPosts(multireddit, { sort: 'top', time: 'day', limit: 100 });
+    return posts.data.children
+      .map((child) => child.data)
+      .sort((a, b) => b.num_comments - a.num_comments)
+      .slice(0, 25);
+  } catch (error) {
+    console.error('Error fetching discussions:', error);
+    return [];
+  }
+}
+
+export default async function DiscussionsPage() {
+  const posts = await getMostDiscussedPosts();
+
+  return (
+    <div className="container mx-auto p-6">
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-3xl font-bold">Discussions</h1>
+        <p className="text-muted-foreground">Most commented posts today</p>
+      </div>
+
+      <div className="space-y-6">
+        {posts.length === 0 && (
+          <p className="text-muted-foreground">No discussions found.</p>
+        )}
+        {posts.map((post) => (
+          <Card key={post.id} className="hover:shadow-lg transition-shadow">
+            <CardHeader>
+              <CardTitle className="text-xl">
+                <Link
+                  href={`/dashboard/subreddit/${post.subreddit}/comments/${post.id}`}
+                  className="hover:text-primary transition-colors"
+                >
+                  {post.title}
+                </Link>
+              </CardTitle>
+              <CardDescription>
+                {post.subreddit_name_prefixed} • Posted by u/{post.author} • {formatDistanceToNow(post.created_utc * 1000)} ago
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="flex items-center gap-6 text-sm text-muted-foreground">
+                <span>↑ {post.score} points</span>
+                <span>💬 {post.num_comments} comments</span>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ExportButton } from "@/components/reddit/export-button";
+import { SavedSearches } from "@/components/search/saved-searches";
+import { SearchResults } from "@/components/search/search-results";
+import { getCurrentUserId } from '@/lib/auth';
+import { getRedditClientFor } from '@/lib/reddit-client';
+import { RedditValidationError } from '@/lib/reddit-errors';
+import { parseSearchRequest, runSearch, searchRequestParams, SEARCH_SORTS, type SearchPage, type SearchRequest } from '@/lib/search';
+import { hasSearchCriteria, parseSearchQuery } from '@/lib/search-query';
+import { getStorage } from '@/lib/storage';
+import { LISTING_TIMES } from '@/lib/subreddits';
+
+interface SearchPageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+const inputClass = "h-9 rounded-md border border-input bg-background px-3";
+
+async function getFirstPage(request: SearchRequest, userId: string | null): Promise<{ page: SearchPage | null; error?: string }> {
+  const api = await getRedditClientFor(await getStorage(), userId);
+
+  try {
+    return { page: await runSearch(api, request) };
+  } catch (error) {
+    console.error('Error searching Reddit:', error);
+    return {
+      page: null,
+      error: error instanceof RedditValidationError
+        ? 'Reddit returned data in an unexpected format.'
+        : 'Could not search Reddit.',
+    };
+  }
+}
+
+export default async function SearchPage({ searchParams }: SearchPageProps) {
+  const request = parseSearchRequest(await searchParams);
+  const parsed = parseSearchQuery(request.query);
+  const searching = hasSearchCriteria(parsed);
+
+  const userId = await getCurrentUserId();
+  const savedSearches = userId ? await (await getStorage()).savedSearches.list(userId) : [];
+  const result = searching ? await getFirstPage({ ...request, after: undefined }, userId) : null;
+
+  return (
+    <div className="container mx-auto p-6">
+      <h1 className="mb-6 text-3xl font-bold">Search</h1>
+
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-[1fr_18rem]">
+        <div className="space-y-6">
+          <form action="/dashboard/search" className="flex flex-wrap gap-2 text-sm">
+            <input
+              name="q"
+              defaultValue={request.query}
+              placeholder='e.g. "load shedding" author:someone flair:News self:yes'
+              className={`${inputClass} min-w-64 flex-1`}
+            />
+            <input
+              name="subreddit"
+              defaultValue={request.subreddit ?? ''}
+              placeholder="All subreddits"
+              className={`${inputClass} w-40`}
+            />
+            <select name="sort" defaultValue={request.sort} className={`${inputClass} capitalize`}>
+              {SEARCH_SORTS.map((sort) => (
+                <option key={sort} value={sort}>{sort}</option>
+              ))}
+            </select>
+            <select name="time" defaultValue={request.time} className={`${inputClass} capitalize`}>
+              {LISTING_TIMES.map((time) => (
+                <option key={time} value={time}>{time === 'all' ? 'All time' : `Past ${time}`}</option>
+              ))}
+            </select>
+            <select name="type" defaultValue={request.type} className={inputClass}>
+              <option value="link">Posts</option>
+              <option value="sr">Communities</option>
+            </select>
+            <Button type="submit">Search</Button>
+          </form>
+
+          {searching && (
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex flex-wrap gap-2 text-xs">
+                {parsed.author && <span className="rounded-full bg-secondary px-2 py-1">author: u/{parsed.author}</span>}
+                {parsed.flair && <span className="rounded-full bg-secondary px-2 py-1">flair: {parsed.flair}</span>}
+                {parsed.self !== null && (
+                  <span className="rounded-full bg-secondary px-2 py-1">{parsed.self ? 'text posts only' : 'link posts only'}</span>
+                )}
+              </div>
+              {request.type === 'link' && result?.page && (
+                <ExportButton query={Object.fromEntries(searchRequestParams(request))} />
+              )}
+            </div>
+          )}
+
+          {!result ? (
+            <p className="text-sm text-muted-foreground">
+              Search posts by words and &quot;quoted phrases&quot;, and narrow them with{' '}
+              <code>author:</code>, <code>flair:</code> and <code>self:yes</code> or <code>self:no</code>.
+            </p>
+          ) : !result.page ? (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-xl">Something went wrong</CardTitle>
+                <CardDescription>{result.error}</CardDescription>
+              </CardHeader>
+            </Card>
+          ) : (
+            <SearchResults
+              query={Object.fromEntries(searchRequestParams(request))}
+              terms={parsed.terms}
+              initialPage={result.page}
+            />
+          )}
+        </div>
+
+        {userId && (
+          <Card className="h-fit">
+            <CardHeader>
+              <CardTitle className="text-xl">Saved searches</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <SavedSearches
+                searches={savedSearches.map((search) => ({
+                  id: search.id,
+                  name: search.name,
+                  query: search.query,
+                  subreddit: search.subreddit,
+                  href: `/dashboard/search?${searchRequestParams({ ...search, type: 'link' }).toString()}`,
+                }))}
+                current={searching && request.type === 'link'
+                  ? { name: '', query: request.query, subreddit: request.subreddit, sort: request.sort, time: request.time }
+                  : null}
+              />
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+import Link from 'next/link';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { SentimentChart } from "@/components/charts/sentiment-chart";
+import { createSentimentScorer, scoreStoredItems, sentimentTimeline } from '@/lib/sentiment';
+import { createConfiguredGeminiClient, getSettings } from '@/lib/settings';
+import { getStorage } from '@/lib/storage';
+import { isValidSubredditName } from '@/lib/subreddits';
+import { cn } from '@/lib/utils';
+
+interface SentimentPageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+const RANGES = [7, 30, 90];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export default async function SentimentPage({ searchParams }: SentimentPageProps) {
+  const params = await searchParams;
+  const storage = await getStorage();
+  const { trackedSubreddits } = await getSettings(storage);
+  const subredditParam = typeof params.subreddit === 'string' ? params.subreddit : '';
+  const subreddit = isValidSubredditName(subredditParam) ? subredditParam : trackedSubreddits[0].name;
+  const daysParam = Number(params.days);
+  const days = RANGES.includes(daysParam) ? daysParam : 7;
+  const since = new Date(Date.now() - days * DAY_MS);
+
+  const scorer = await createSentimentScorer(await createConfiguredGeminiClient(storage));
+
+  // Score whatever the collector stored since the last visit before charting
+  try {
+    await scoreStoredItems(storage, scorer, { subreddit, since, maxPosts: 100 });
+  } catch (error) {
+    console.error('Error scoring sentiment:', error);
+  }
+
+  const records = await storage.sentiment.findBySubreddit(subreddit, since);
+  const buckets = sentimentTimeline(records, days > 30 ? 7 * DAY_MS : DAY_MS);
+  const counts = { positive: 0, neutral: 0, negative: 0 };
+  const emotions = new Map<string, number>();
+  records.forEach((record) => {
+    counts[record.label]++;
+    record.emotions.forEach((emotion) => emotions.set(emotion, (emotions.get(emotion) ?? 0) + 1));
+  });
+  const topEmotions = [...emotions.entries()].sort((a, b) => b[1] - a[1]).slice(0, 5);
+  const percent = (count: number) => records.length ? Math.round((count / records.length) * 100) : 0;
+
+  return (
+    <div className="container mx-auto space-y-6 p-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <h1 className="text-3xl font-bold">Sentiment</h1>
+        <form className="flex flex-wrap items-end gap-2 text-sm" action="/dashboard/sentiment">
+          <select
+            name="subreddit"
+            defaultValue={subreddit}
+            className="h-9 rounded-md border border-input bg-background px-3"
+          >
+            {trackedSubreddits.map((tracked) => (
+              <option key={tracked.name} value={tracked.name}>r/{tracked.name}</option>
+            ))}
+          </select>
+          <input type="hidden" name="days" value={days} />
+          <Button type="submit" variant="outline">Show</Button>
+        </form>
+      </div>
+
+      <div className="flex items-center gap-2 text-sm">
+        {RANGES.map((range) => (
+          <Link
+            key={range}
+            href={`/dashboard/sentiment?subreddit=${subreddit}&days=${range}`}
+            className={cn(
+              "rounded-md px-3 py-1 hover:bg-accent",
+              days === range && "bg-accent text-accent-foreground"
+            )}
+          >
+            Last {range} days
+          </Link>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-xl">
+            <Link href={`/dashboard/subreddit/${subreddit}`} className="hover:text-primary transition-colors">
+              r/{subreddit}
+            </Link>
+          </CardTitle>
+          <CardDescription>
+            {records.length} posts and comments scored • {percent(counts.positive)}% positive,{' '}
+            {percent(counts.neutral)}% neutral, {percent(counts.negative)}% negative
+            {scorer.name === 'lexicon' && ' • scored with the local lexicon because GEMINI_API_KEY is not set'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <SentimentChart buckets={buckets} />
+          {topEmotions.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {topEmotions.map(([emotion, count]) => (
+                <span
+                  key={emotion}
+                  className="rounded-full bg-secondary px-3 py-1 text-xs text-secondary-foreground"
+                >
+                  {emotion} ({count})
+                </span>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
+import { CachePanel } from "@/components/settings/cache-panel";
+import { ConnectionTests } from "@/components/settings/connection-tests";
+import { SettingsForm } from "@/components/settings/settings-form";
+import { getCurrentUserId } from '@/lib/auth';
+import { getSettings } from '@/lib/settings';
+import { getStorage } from '@/lib/storage';
+import { isAdmin } from '@/lib/users';
+
+export default async function SettingsPage() {
+  const storage = await getStorage();
+  const { updatedAt, ...settings } = await getSettings(storage);
+  const admin = await isAdmin(storage, await getCurrentUserId());
+
+  return (
+    <div className="container mx-auto space-y-6 p-6">
+      <h1 className="text-3xl font-bold">Settings</h1>
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-xl">Collection and defaults</CardTitle>
+          <CardDescription>
+            {updatedAt.getTime() > 0
+              ? `Shared by everyone using this dashboard. Last changed ${updatedAt.toLocaleString()}.`
+              : 'Shared by everyone using this dashboard. These are the defaults from the environment until saved.'}
+            {!admin && ' Only admins can change them.'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <SettingsForm initial={settings} readOnly={!admin} />
+        </CardContent>
+      </Card>
+      {admin && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-xl">Connectivity</CardTitle>
+            <CardDescription>Checks the configured Reddit credentials and the saved Gemini model.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ConnectionTests />
+          </CardContent>
+        </Card>
+      )}
+      {admin && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-xl">Reddit cache</CardTitle>
+            <CardDescription>
+              Reddit responses are reused for a short while per endpoint. Purge a subreddit to see its latest posts right away.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <CachePanel />
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
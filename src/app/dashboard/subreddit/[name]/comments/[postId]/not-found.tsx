@@ -0,0 +1,22 @@
+import Link from 'next/link';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
+
+export default function PostNotFound() {
+  return (
+    <div className="container mx-auto p-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-xl">Post not found</CardTitle>
+          <CardDescription>
+            This post does not exist or has been removed.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Link href="/dashboard" className="text-sm text-primary hover:underline">
+            Back to dashboard
+          </Link>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { formatDistanceToNow } from 'date-fns';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
+import { CommentThread } from "@/components/reddit/comment-thread";
+import { SummaryPanel } from "@/components/reddit/summary-panel";
+import { TranslationPanel } from "@/components/reddit/translation-panel";
+import { getRedditClient } from '@/lib/reddit-client';
+import type { CommentSort, CommentThread as Thread } from '@/lib/reddit-api';
+import { RedditNotFoundError } from '@/lib/reddit-errors';
+import { createConfiguredGeminiClient } from '@/lib/settings';
+import { isValidSubredditName } from '@/lib/subreddits';
+import { getStorage, recordThread, type PostSnapshot } from '@/lib/storage';
+import { getCachedSummary, type PostSummary } from '@/lib/summarize';
+import { detectPostLanguage, getCachedTranslation, needsTranslation, type PostTranslation } from '@/lib/translate';
+import { cn } from '@/lib/utils';
+
+interface PostPageProps {
+  params: Promise<{ name: string; postId: string }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+const COMMENT_SORTS: CommentSort[] = ['confidence', 'top', 'new', 'controversial', 'old', 'qa'];
+
+const SORT_LABELS: Record<CommentSort, string> = {
+  confidence: 'Best',
+  top: 'Top',
+  new: 'New',
+  controversial: 'Controversial',
+  old: 'Old',
+  qa: 'Q&A',
+};
+
+async function getThread(postId: string, sort: CommentSort): Promise<Thread | null> {
+  const api = getRedditClient();
+
+  try {
+    const thread = await api.getComments(postId, { sort, limit: 200 });
+    await recordThread(thread);
+    return thread;
+  } catch (error) {
+    if (error instanceof RedditNotFoundError) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+async function getScoreHistory(postId: string): Promise<PostSnapshot[]> {
+  try {
+    const storage = await getStorage();
+    return await storage.posts.getPostHistory(postId);
+  } catch (error) {
+    console.error('Error loading score history:', error);
+    return [];
+  }
+}
+
+async function getSummary(postId: string): Promise<PostSummary | null> {
+  try {
+    const storage = await getStorage();
+    const llm = await createConfiguredGeminiClient(storage);
+    if (!llm) {
+      return null;
+    }
+    return await getCachedSummary(storage.analyses, postId, llm.model);
+  } catch (error) {
+    console.error('Error loading cached summary:', error);
+    return null;
+  }
+}
+
+async function getTranslation(postId: string): Promise<PostTranslation | null> {
+  try {
+    const storage = await getStorage();
+    const llm = await createConfiguredGeminiClient(storage);
+    if (!llm) {
+      return null;
+    }
+    return await getCachedTranslation(storage.analyses, postId, llm.model);
+  } catch (error) {
+    console.error('Error loading cached translation:', error);
+    return null;
+  }
+}
+
+export default async function PostPage({ params, searchParams }: PostPageProps) {
+  const { name, postId } = await params;
+  if (!isValidSubredditName(name) || !/^[a-z0-9]+$/i.test(postId)) {
+    notFound();
+  }
+
+  const sortParam = (await searchParams).sort;
+  const sort = COMMENT_SORTS.find((value) => value === sortParam) ?? 'confidence';
+
+  const thread = await getThread(postId, sort);
+  if (!thread) {
+    notFound();
+  }
+
+  const { post } = thread;
+  const history = await getScoreHistory(post.id);
+  const firstSnapshot = history[0];
+  const summary = await getSummary(post.id);
+  const language = detectPostLanguage(post);
+  const translation = needsTranslation(language) ? await getTranslation(post.id) : null;
+
+  return (
+    <div className="container mx-auto space-y-6 p-6">
+      <Link href={`/dashboard/subreddit/${name}`} className="text-sm text-muted-foreground hover:underline">
+        ← Back to r/{name}
+      </Link>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-2xl">
+            <a
+              href={`https://reddit.com${post.permalink}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="hover:text-primary transition-colors"
+            >
+              {post.title}
+            </a>
+          </CardTitle>
+          <CardDescription>
+            Posted by u/{post.author}
+            {post.author_flair_text && ` (${post.author_flair_text})`} • {formatDistanceToNow(post.created_utc * 1000)} ago
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {post.selftext && (
+            <p className="mb-4 whitespace-pre-wrap text-sm">{post.selftext}</p>
+          )}
+          <div className="flex items-center gap-6 text-sm text-muted-foreground">
+            <span>↑ {post.score} points</span>
+            <span>💬 {post.num_comments} comments</span>
+          </div>
+          {firstSnapshot && history.length > 1 && (
+            <p className="mt-2 text-xs text-muted-foreground">
+              Tracked across {history.length} snapshots since {formatDistanceToNow(firstSnapshot.capturedAt)} ago:
+              score {firstSnapshot.score} → {post.score}, comments {firstSnapshot.numComments} → {post.num_comments}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {needsTranslation(language) && (
+        <TranslationPanel
+          postId={post.id}
+          language={language}
+          title={post.title}
+          body={post.selftext}
+          initialTranslation={translation}
+        />
+      )}
+
+      <SummaryPanel postId={post.id} initialSummary={summary} />
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        {COMMENT_SORTS.map((value) => (
+          <Link
+            key={value}
+            href={`/dashboard/subreddit/${name}/comments/${postId}?sort=${value}`}
+            className={cn(
+              "rounded-md px-3 py-1 hover:bg-accent",
+              sort === value && "bg-accent text-accent-foreground"
+            )}
+          >
+            {SORT_LABELS[value]}
+          </Link>
+        ))}
+      </div>
+
+      <CommentThread comments={thread.comments} moreCount={thread.moreCount} />
+    </div>
+  );
+}
@@ -0,0 +1,22 @@
+import Link from 'next/link';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
+
+export default function SubredditNotFound() {
+  return (
+    <div className="container mx-auto p-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-xl">Subreddit not found</CardTitle>
+          <CardDescription>
+            This community does not exist or the name is not a valid subreddit name.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Link href="/dashboard" className="text-sm text-primary hover:underline">
+            Back to dashboard
+          </Link>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { Card, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { ExportButton } from "@/components/reddit/export-button";
+import { PostFeed } from "@/components/reddit/post-feed";
+import { SaveSubredditButton } from "@/components/reddit/save-subreddit-button";
+import { getCurrentUserId } from '@/lib/auth';
+import { getRedditClientFor } from '@/lib/reddit-client';
+import type { SubredditStatus } from '@/lib/reddit-api';
+import { describeRedditError } from '@/lib/reddit-errors';
+import type { RedditPost } from '@/lib/reddit-schemas';
+import { getStorage, recordPosts } from '@/lib/storage';
+import { LISTING_SORTS, LISTING_TIMES, isValidSubredditName, parseListingOptions } from '@/lib/subreddits';
+import { getPreferences } from '@/lib/users';
+import { cn } from '@/lib/utils';
+
+interface SubredditPageProps {
+  params: Promise<{ name: string }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+const UNAVAILABLE_MESSAGES: Record<Exclude<SubredditStatus, 'ok' | 'not_found'>, string> = {
+  banned: 'This community has been banned by Reddit.',
+  private: 'This community is private and its posts are not visible.',
+  quarantined: 'This community is quarantined and cannot be browsed through the API.',
+};
+
+type SubredditPosts =
+  | { status: SubredditStatus; posts: RedditPost[]; after: string | null }
+  // Reddit could not be read, e.g. rate limits, network or server errors
+  | { status: 'error'; error: string };
+
+async function getSubredditPosts(
+  name: string,
+  options: ReturnType<typeof parseListingOptions>,
+  userId: string | null
+): Promise<SubredditPosts> {
+  const api = await getRedditClientFor(await getStorage(), userId);
+
+  try {
+    const status = await api.getSubredditStatus(name);
+    if (status !== 'ok') {
+      return { status, posts: [], after: null };
+    }
+
+    const posts = await api.getRecentPosts(name, options);
+    await recordPosts(posts.data.children.map((child) => child.data));
+    return { status, posts: posts.data.children.map((child) => child.data), after: posts.data.after };
+  } catch (error) {
+    console.error('Error fetching posts:', error);
+    return { status: 'error', error: describeRedditError(error) };
+  }
+}
+
+export default async function SubredditPage({ params, searchParams }: SubredditPageProps) {
+  const { name } = await params;
+  if (!isValidSubredditName(name)) {
+    notFound();
+  }
+
+  const userId = await getCurrentUserId();
+  const preferences = userId ? await getPreferences(await getStorage(), userId) : null;
+  const options = parseListingOptions(await searchParams, {
+    sort: preferences?.defaultSort,
+    time: preferences?.defaultTime,
+  });
+  const result = await getSubredditPosts(name, options, userId);
+
+  if (result.status === 'not_found') {
+    notFound();
+  }
+
+  const hrefFor = (overrides: Partial<Record<'sort' | 'time', string>>) => {
+    const query = new URLSearchParams({
+      sort: options.sort,
+      time: options.time,
+      limit: options.limit.toString(),
+      ...overrides,
+    });
+    return `/dashboard/subreddit/${name}?${query.toString()}`;
+  };
+
+  return (
+    <div className="container mx-auto p-6">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <div className="flex items-center gap-4">
+          <h1 className="text-3xl font-bold">r/{name}</h1>
+          {preferences && (
+            <SaveSubredditButton
+              subreddit={name}
+              preferences={{
+                subreddits: preferences.subreddits,
+                defaultSort: preferences.defaultSort,
+                defaultTime: preferences.defaultTime,
+              }}
+            />
+          )}
+        </div>
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          {LISTING_SORTS.map((sort) => (
+            <Link
+              key={sort}
+              href={hrefFor({ sort })}
+              className={cn(
+                "rounded-md px-3 py-1 capitalize hover:bg-accent",
+                options.sort === sort && "bg-accent text-accent-foreground"
+              )}
+            >
+              {sort}
+            </Link>
+          ))}
+          {options.sort === 'top' && (
+            <span className="ml-2 flex flex-wrap gap-1">
+              {LISTING_TIMES.map((time) => (
+                <Link
+                  key={time}
+                  href={hrefFor({ time })}
+                  className={cn(
+                    "rounded-md px-2 py-1 capitalize text-muted-foreground hover:bg-accent",
+                    options.time === time && "bg-accent text-accent-foreground"
+                  )}
+                >
+                  {time}
+                </Link>
+              ))}
+            </span>
+          )}
+          {result.status === 'ok' && (
+            <ExportButton query={{ subreddit: name, sort: options.sort, time: options.time }} />
+          )}
+        </div>
+      </div>
+
+      {result.status === 'error' ? (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-xl">Could not load r/{name}</CardTitle>
+            <CardDescription>{result.error}</CardDescription>
+          </CardHeader>
+        </Card>
+      ) : result.status !== 'ok' ? (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-xl">r/{name} is unavailable</CardTitle>
+            <CardDescription>{UNAVAILABLE_MESSAGES[result.status]}</CardDescription>
+          </CardHeader>
+        </Card>
+      ) : (
+        <PostFeed
+          subreddit={name}
+          query={{ sort: options.sort, time: options.time, limit: options.limit.toString() }}
+          initialPage={{ posts: result.posts, after: result.after }}
+        />
+      )}
+    </div>
+  );
+}
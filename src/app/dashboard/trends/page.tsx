@@ -0,0 +1,112 @@
+import Link from 'next/link';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
+import { Sparkline } from "@/components/charts/sparkline";
+import { getRedditClient } from '@/lib/reddit-client';
+import { getSettings } from '@/lib/settings';
+import { getStorage } from '@/lib/storage';
+import { TREND_SAMPLE_INTERVAL_MS, getSubredditTrends, sampleSubreddits, type SubredditTrends } from '@/lib/trends';
+import { cn } from '@/lib/utils';
+
+interface TrendsPageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+const WINDOWS = [6, 24, 72];
+
+async function getTrends(windowHours: number): Promise<SubredditTrends[]> {
+  const storage = await getStorage();
+  const subreddits = (await getSettings(storage)).trackedSubreddits.map((subreddit) => subreddit.name);
+  const api = getRedditClient({ cached: false });
+
+  // Visits add a snapshot every few minutes, on top of whatever the collector has recorded
+  await sampleSubreddits(api, storage, subreddits, { minIntervalMs: TREND_SAMPLE_INTERVAL_MS });
+
+  return Promise.all(subreddits.map((subreddit) =>
+    getSubredditTrends(storage, subreddit, { windowMs: windowHours * 60 * 60 * 1000 })
+  ));
+}
+
+export default async function TrendsPage({ searchParams }: TrendsPageProps) {
+  const windowParam = Number((await searchParams).window);
+  const windowHours = WINDOWS.includes(windowParam) ? windowParam : 24;
+  const trends = await getTrends(windowHours);
+
+  return (
+    <div className="container mx-auto p-6">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <h1 className="text-3xl font-bold">Trends</h1>
+        <div className="flex items-center gap-2 text-sm">
+          {WINDOWS.map((hours) => (
+            <Link
+              key={hours}
+              href={`/dashboard/trends?window=${hours}`}
+              className={cn(
+                "rounded-md px-3 py-1 hover:bg-accent",
+                windowHours === hours && "bg-accent text-accent-foreground"
+              )}
+            >
+              Last {hours}h
+            </Link>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-6">
+        {trends.map((trend) => (
+          <Card key={trend.subreddit}>
+            <CardHeader>
+              <CardTitle className="text-xl">
+                <Link href={`/dashboard/subreddit/${trend.subreddit}`} className="hover:text-primary transition-colors">
+                  r/{trend.subreddit}
+                </Link>
+              </CardTitle>
+              <CardDescription>
+                {trend.postsAnalyzed} posts analyzed • baseline {trend.baseline.scorePerHour.toFixed(1)} points/h,{' '}
+                {trend.baseline.commentsPerHour.toFixed(1)} comments/h
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {trend.keywords.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {trend.keywords.map((keyword) => (
+                    <span
+                      key={keyword.keyword}
+                      className="rounded-full bg-secondary px-3 py-1 text-xs text-secondary-foreground"
+                      title={`${keyword.risingPosts} rising posts, ${keyword.lift.toFixed(1)}× more common than usual`}
+                    >
+                      {keyword.keyword}
+                    </span>
+                  ))}
+                </div>
+              )}
+
+              {trend.risingPosts.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Nothing is rising faster than usual.</p>
+              ) : (
+                <ul className="divide-y">
+                  {trend.risingPosts.map(({ post, velocity, ratio, scoreHistory }) => (
+                    <li key={post.id} className="flex items-center justify-between gap-4 py-3">
+                      <div className="min-w-0">
+                        <Link
+                          href={`/dashboard/subreddit/${post.subreddit}/comments/${post.id}`}
+                          className="block truncate font-medium hover:text-primary transition-colors"
+                        >
+                          {post.title}
+                        </Link>
+                        <p className="text-xs text-muted-foreground">
+                          +{velocity.scorePerHour.toFixed(0)} points/h • +{velocity.commentsPerHour.toFixed(0)} comments/h
+                          {Number.isFinite(ratio) && ` • ${ratio.toFixed(1)}× baseline`}
+                        </p>
+                      </div>
+                      <Sparkline values={scoreHistory} />
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { format, formatDistanceToNow } from 'date-fns';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
+import { HourHistogram } from "@/components/charts/hour-histogram";
+import { PostCard } from "@/components/reddit/post-card";
+import { getCurrentUserId } from '@/lib/auth';
+import { getRedditClientFor } from '@/lib/reddit-client';
+import { RedditForbiddenError, RedditNotFoundError } from '@/lib/reddit-errors';
+import { getStorage } from '@/lib/storage';
+import { NEW_ACCOUNT_DAYS, getUserProfile, isValidUsername, type UserProfile } from '@/lib/user-profile';
+
+interface UserPageProps {
+  params: Promise<{ username: string }>;
+}
+
+const RECENT_POSTS = 10;
+
+async function loadProfile(username: string): Promise<{ profile: UserProfile | null; error?: string }> {
+  const storage = await getStorage();
+  const api = await getRedditClientFor(storage, await getCurrentUserId());
+
+  try {
+    return { profile: await getUserProfile(api, username) };
+  } catch (error) {
+    if (error instanceof RedditNotFoundError) {
+      notFound();
+    }
+    if (error instanceof RedditForbiddenError) {
+      return { profile: null, error: error.reason === 'suspended' ? 'This account has been suspended.' : 'This profile is not visible.' };
+    }
+    console.error('Error fetching user profile:', error);
+    return { profile: null, error: 'Could not load this profile from Reddit.' };
+  }
+}
+
+export default async function UserPage({ params }: UserPageProps) {
+  const { username } = await params;
+  if (!isValidUsername(username)) {
+    notFound();
+  }
+
+  const { profile, error } = await loadProfile(username);
+
+  if (!profile) {
+    return (
+      <div className="container mx-auto p-6">
+        <h1 className="text-3xl font-bold mb-6">u/{username}</h1>
+        <Card>
+          <CardHeader>
+            <CardTitle>Profile unavailable</CardTitle>
+            <CardDescription>{error}</CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  const { about, accountAgeDays, posts, comments, hourlyActivity, subreddits, truncated } = profile;
+  const created = new Date(about.created_utc * 1000);
+  const activityCount = posts.length + comments.length;
+  const busiest = subreddits[0] ? subreddits[0].posts + subreddits[0].comments : 0;
+  const stats = [
+    { label: 'post karma', value: about.link_karma.toLocaleString() },
+    { label: 'comment karma', value: about.comment_karma.toLocaleString() },
+    { label: 'posts read', value: `${posts.length}` },
+    { label: 'comments read', value: `${comments.length}` },
+  ];
+
+  return (
+    <div className="container mx-auto space-y-6 p-6">
+      <div className="flex flex-wrap items-center gap-4">
+        {about.icon_img && (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img src={about.icon_img.replace(/&amp;/g, '&')} alt="" className="h-14 w-14 rounded-full" />
+        )}
+        <div>
+          <h1 className="flex flex-wrap items-center gap-2 text-3xl font-bold">
+            <a
+              href={`https://www.reddit.com/user/${about.name}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="hover:text-primary transition-colors"
+            >
+              u/{about.name}
+            </a>
+            {accountAgeDays < NEW_ACCOUNT_DAYS && (
+              <span className="rounded bg-destructive/10 px-1.5 text-xs font-normal text-destructive">New account</span>
+            )}
+          </h1>
+          <p className="text-sm text-muted-foreground">
+            Joined {format(created, 'PP')} ({formatDistanceToNow(created, { addSuffix: true })})
+            {about.has_verified_email === false && ' • Email not verified'}
+            {about.is_mod && ' • Moderator'}
+          </p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+        {stats.map((stat) => (
+          <Card key={stat.label}>
+            <CardContent className="pt-6">
+              <div className="text-2xl font-semibold tabular-nums">{stat.value}</div>
+              <div className="text-xs text-muted-foreground">{stat.label}</div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-xl">Activity by hour</CardTitle>
+            <CardDescription>
+              Posts and comments per hour of the day (UTC){truncated && `, from the latest ${activityCount.toLocaleString()}`}.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {activityCount === 0 ? (
+              <p className="text-sm text-muted-foreground">No public posts or comments.</p>
+            ) : (
+              <HourHistogram counts={hourlyActivity} />
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-xl">Subreddits</CardTitle>
+            <CardDescription>Where the posts and comments read were made.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {subreddits.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No public posts or comments.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left">
+                    <th className="py-2 pr-4 font-medium text-muted-foreground">Subreddit</th>
+                    <th className="py-2 pr-4 font-medium text-muted-foreground">Posts</th>
+                    <th className="py-2 pr-4 font-medium text-muted-foreground">Comments</th>
+                    <th className="w-1/3 py-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {subreddits.slice(0, 15).map((activity) => (
+                    <tr key={activity.subreddit} className="border-b last:border-0">
+                      <td className="py-2 pr-4">
+                        <Link href={`/dashboard/subreddit/${activity.subreddit}`} className="hover:text-primary transition-colors">
+                          r/{activity.subreddit}
+                        </Link>
+                      </td>
+                      <td className="py-2 pr-4 tabular-nums">{activity.posts}</td>
+                      <td className="py-2 pr-4 tabular-nums">{activity.comments}</td>
+                      <td className="py-2">
+                        <div
+                          className="h-2 rounded bg-primary/80"
+                          style={{ width: `${((activity.posts + activity.comments) / busiest) * 100}%` }}
+                        />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="space-y-4">
+        <h2 className="text-2xl font-semibold">Recent posts</h2>
+        {posts.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No public posts.</p>
+        ) : (
+          posts.slice(0, RECENT_POSTS).map((post) => <PostCard key={post.id} post={post} showSubreddit />)
+        )}
+      </div>
+    </div>
+  );
+}
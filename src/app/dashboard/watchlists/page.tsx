@@ -0,0 +1,15 @@
+import { WatchlistManager } from "@/components/watchlists/watchlist-manager";
+
+export default function WatchlistsPage() {
+  return (
+    <div className="container mx-auto space-y-6 p-6">
+      <div>
+        <h1 className="text-3xl font-bold">Watchlists</h1>
+        <p className="text-sm text-muted-foreground">
+          Keywords, regular expressions, authors and flairs to watch for in tracked subreddits.
+        </p>
+      </div>
+      <WatchlistManager />
+    </div>
+  );
+}
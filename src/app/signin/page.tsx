@@ -0,0 +1,34 @@
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
+import { SignInForm } from "@/components/auth/sign-in-form";
+import { isRegistrationOpen } from "@/lib/users";
+
+interface SignInPageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+export default async function SignInPage({ searchParams }: SignInPageProps) {
+  const params = await searchParams;
+  // Only same-site paths, so the sign-in page cannot be used as an open redirect
+  const callbackUrl = typeof params.callbackUrl === 'string' && params.callbackUrl.startsWith('/') && !params.callbackUrl.startsWith('//')
+    ? params.callbackUrl
+    : '/dashboard';
+
+  return (
+    <div className="flex min-h-screen items-center justify-center p-6">
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <CardTitle className="text-2xl">Sign in</CardTitle>
+          <CardDescription>Watchlists, alerts and your subreddit list are kept per account.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <SignInForm
+            callbackUrl={callbackUrl}
+            redditEnabled={Boolean(process.env.REDDIT_OAUTH_CLIENT_ID && process.env.REDDIT_OAUTH_CLIENT_SECRET)}
+            registrationEnabled={isRegistrationOpen()}
+            initialError={params.error ? 'Sign-in failed, try again' : undefined}
+          />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
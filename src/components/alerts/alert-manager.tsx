@@ -0,0 +1,262 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
+import type { AlertChannel, AlertChannelType, AlertDelivery, AlertRule } from "@/lib/storage";
+import { cn } from "@/lib/utils";
+
+// Dates arrive as ISO strings once they have been through JSON
+type Serialized<T> = Omit<T, "createdAt"> & { createdAt: string };
+
+const CHANNEL_TYPES: Record<AlertChannelType, string> = {
+  webhook: "JSON webhook",
+  slack: "Slack webhook",
+  discord: "Discord webhook",
+  email: "Email",
+};
+
+const inputClass = "h-9 w-full rounded-md border border-input bg-background px-3";
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { "Content-Type": "application/json" },
+  });
+  const body = response.status === 204 ? null : await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(body?.error ?? `Request failed with status ${response.status}`);
+  }
+  return body;
+}
+
+function splitList(text: string) {
+  return text.split(",").map((item) => item.trim()).filter(Boolean);
+}
+
+export function AlertManager() {
+  const queryClient = useQueryClient();
+  const [channelType, setChannelType] = useState<AlertChannelType>("webhook");
+  const [formKey, setFormKey] = useState(0);
+
+  const channels = useQuery({
+    queryKey: ["alert-channels"],
+    queryFn: () => request<{ channels: Serialized<AlertChannel>[] }>("/api/alerts/channels"),
+  });
+  const rules = useQuery({
+    queryKey: ["alert-rules"],
+    queryFn: () => request<{ rules: Serialized<AlertRule>[] }>("/api/alerts/rules"),
+  });
+  const deliveries = useQuery({
+    queryKey: ["alert-deliveries"],
+    queryFn: () => request<{ deliveries: Serialized<AlertDelivery>[] }>("/api/alerts/deliveries"),
+    refetchInterval: 30 * 1000,
+  });
+
+  const invalidate = (key: string) => () => {
+    setFormKey((current) => current + 1);
+    return queryClient.invalidateQueries({ queryKey: [key] });
+  };
+
+  const createChannel = useMutation({
+    mutationFn: (body: unknown) => request("/api/alerts/channels", { method: "POST", body: JSON.stringify(body) }),
+    onSuccess: invalidate("alert-channels"),
+  });
+  const deleteChannel = useMutation({
+    mutationFn: (id: string) => request(`/api/alerts/channels/${id}`, { method: "DELETE" }),
+    onSuccess: invalidate("alert-channels"),
+  });
+  const testChannel = useMutation({
+    mutationFn: (id: string) => request(`/api/alerts/channels/${id}/test`, { method: "POST" }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["alert-deliveries"] }),
+  });
+  const createRule = useMutation({
+    mutationFn: (body: unknown) => request("/api/alerts/rules", { method: "POST", body: JSON.stringify(body) }),
+    onSuccess: invalidate("alert-rules"),
+  });
+  const deleteRule = useMutation({
+    mutationFn: (id: string) => request(`/api/alerts/rules/${id}`, { method: "DELETE" }),
+    onSuccess: invalidate("alert-rules"),
+  });
+
+  const error = [createChannel, deleteChannel, testChannel, createRule, deleteRule]
+    .map((mutation) => mutation.error)
+    .find(Boolean);
+  const channelNames = new Map(channels.data?.channels.map((channel) => [channel.id, channel.name]));
+  const ruleNames = new Map(rules.data?.rules.map((rule) => [rule.id, rule.name]));
+
+  return (
+    <div className="space-y-6">
+      {error && <p className="text-sm text-destructive">{error.message}</p>}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Channels</CardTitle>
+          <CardDescription>
+            Where alerts go. Templates can use {"{{title}}"}, {"{{permalink}}"}, {"{{score}}"}, {"{{numComments}}"},{" "}
+            {"{{subreddit}}"}, {"{{author}}"} and {"{{rule}}"}.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form
+            key={`channel-${formKey}`}
+            className="grid gap-2 text-sm md:grid-cols-2"
+            onSubmit={(event) => {
+              event.preventDefault();
+              const form = new FormData(event.currentTarget);
+              createChannel.mutate({
+                name: form.get("name"),
+                type: channelType,
+                target: form.get("target"),
+                template: form.get("template") || null,
+              });
+            }}
+          >
+            <input name="name" placeholder="Name" required className={inputClass} />
+            <select
+              value={channelType}
+              onChange={(event) => setChannelType(event.target.value as AlertChannelType)}
+              className={inputClass}
+            >
+              {Object.entries(CHANNEL_TYPES).map(([type, label]) => (
+                <option key={type} value={type}>{label}</option>
+              ))}
+            </select>
+            <input
+              name="target"
+              placeholder={channelType === "email" ? "Recipient address" : "Webhook URL"}
+              required
+              className={cn(inputClass, "md:col-span-2")}
+            />
+            <textarea
+              name="template"
+              placeholder="Message template (optional)"
+              rows={2}
+              className="w-full rounded-md border border-input bg-background px-3 py-2 font-mono md:col-span-2"
+            />
+            <div>
+              <Button type="submit" size="sm" disabled={createChannel.isPending}>Add channel</Button>
+            </div>
+          </form>
+
+          <ul className="divide-y text-sm">
+            {channels.data?.channels.map((channel) => (
+              <li key={channel.id} className="flex items-center justify-between gap-4 py-2">
+                <div className="min-w-0">
+                  <p className="font-medium">{channel.name}</p>
+                  <p className="truncate text-xs text-muted-foreground">
+                    {CHANNEL_TYPES[channel.type]} • {channel.target}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button size="sm" variant="outline" onClick={() => testChannel.mutate(channel.id)} disabled={testChannel.isPending}>
+                    Send test
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => deleteChannel.mutate(channel.id)}>
+                    Delete
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Rules</CardTitle>
+          <CardDescription>Checked against every batch of posts the collector fetches.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form
+            key={`rule-${formKey}`}
+            className="grid gap-2 text-sm md:grid-cols-2"
+            onSubmit={(event) => {
+              event.preventDefault();
+              const form = new FormData(event.currentTarget);
+              const minScore = String(form.get("minScore") ?? "");
+              createRule.mutate({
+                name: form.get("name"),
+                subreddits: splitList(String(form.get("subreddits") ?? "")).map((name) => name.replace(/^r\//i, "")),
+                keywords: splitList(String(form.get("keywords") ?? "")),
+                minScore: minScore ? Number(minScore) : null,
+                channelIds: form.getAll("channelIds"),
+              });
+            }}
+          >
+            <input name="name" placeholder="Name" required className={inputClass} />
+            <input name="minScore" type="number" placeholder="Minimum score (optional)" className={inputClass} />
+            <input name="subreddits" placeholder="Subreddits, comma separated (empty for all)" className={inputClass} />
+            <input name="keywords" placeholder="Keywords, comma separated (empty for any)" className={inputClass} />
+            <div className="flex flex-wrap gap-4 md:col-span-2">
+              {channels.data?.channels.length === 0 && (
+                <span className="text-muted-foreground">Add a channel first.</span>
+              )}
+              {channels.data?.channels.map((channel) => (
+                <label key={channel.id} className="flex items-center gap-2">
+                  <input type="checkbox" name="channelIds" value={channel.id} />
+                  {channel.name}
+                </label>
+              ))}
+            </div>
+            <div>
+              <Button type="submit" size="sm" disabled={createRule.isPending}>Add rule</Button>
+            </div>
+          </form>
+
+          <ul className="divide-y text-sm">
+            {rules.data?.rules.map((rule) => (
+              <li key={rule.id} className="flex items-center justify-between gap-4 py-2">
+                <div className="min-w-0">
+                  <p className="font-medium">{rule.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {rule.subreddits.length > 0 ? rule.subreddits.map((name) => `r/${name}`).join(", ") : "All subreddits"}
+                    {rule.keywords.length > 0 && ` • ${rule.keywords.join(", ")}`}
+                    {rule.minScore !== null && ` • score ≥ ${rule.minScore}`}
+                    {" → "}
+                    {rule.channelIds.map((id) => channelNames.get(id) ?? "deleted channel").join(", ")}
+                  </p>
+                </div>
+                <Button size="sm" variant="outline" onClick={() => deleteRule.mutate(rule.id)}>
+                  Delete
+                </Button>
+              </li>
+            ))}
+          </ul>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Delivery log</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {deliveries.data?.deliveries.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nothing has been sent yet.</p>
+          ) : (
+            <ul className="divide-y text-sm">
+              {deliveries.data?.deliveries.map((delivery) => (
+                <li key={delivery.id} className="flex items-center justify-between gap-4 py-2">
+                  <div className="min-w-0">
+                    <p>
+                      {delivery.ruleId ? ruleNames.get(delivery.ruleId) ?? "Deleted rule" : "Test"} →{" "}
+                      {channelNames.get(delivery.channelId) ?? "deleted channel"}
+                    </p>
+                    {delivery.error && <p className="truncate text-xs text-destructive">{delivery.error}</p>}
+                  </div>
+                  <span className="shrink-0 text-xs text-muted-foreground">
+                    <span className={delivery.status === "sent" ? "text-green-600" : "text-destructive"}>{delivery.status}</span>
+                    {" "}after {delivery.attempts} attempt{delivery.attempts === 1 ? "" : "s"} •{" "}
+                    {formatDistanceToNow(new Date(delivery.createdAt))} ago
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import type { UserPreferences } from "@/lib/storage";
+import { LISTING_SORTS, LISTING_TIMES } from "@/lib/subreddits";
+
+type PreferencesInput = Pick<UserPreferences, "subreddits" | "defaultSort" | "defaultTime">;
+
+const inputClass = "h-9 w-full rounded-md border border-input bg-background px-3";
+
+export function PreferencesForm({ initial }: { initial: PreferencesInput }) {
+  const router = useRouter();
+  const mutation = useMutation({
+    mutationFn: async (preferences: PreferencesInput) => {
+      const response = await fetch("/api/me/preferences", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(preferences),
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error ?? `Request failed with status ${response.status}`);
+      }
+    },
+    onSuccess: () => router.refresh(),
+  });
+
+  return (
+    <form
+      className="space-y-4 text-sm"
+      onSubmit={(event) => {
+        event.preventDefault();
+        const form = new FormData(event.currentTarget);
+        mutation.mutate({
+          subreddits: String(form.get("subreddits") ?? "")
+            .split(/[\s,]+/)
+            .map((name) => name.replace(/^r\//i, ""))
+            .filter(Boolean),
+          defaultSort: form.get("defaultSort") as PreferencesInput["defaultSort"],
+          defaultTime: form.get("defaultTime") as PreferencesInput["defaultTime"],
+        });
+      }}
+    >
+      <label className="block space-y-1">
+        <span className="font-medium">My subreddits</span>
+        <textarea
+          name="subreddits"
+          defaultValue={initial.subreddits.join(", ")}
+          placeholder="Comma separated; leave empty to use the tracked list"
+          rows={3}
+          className="w-full rounded-md border border-input bg-background px-3 py-2"
+        />
+      </label>
+      <div className="grid gap-4 md:grid-cols-2">
+        <label className="block space-y-1">
+          <span className="font-medium">Default sort</span>
+          <select name="defaultSort" defaultValue={initial.defaultSort} className={inputClass}>
+            {LISTING_SORTS.map((sort) => (
+              <option key={sort} value={sort}>{sort}</option>
+            ))}
+          </select>
+        </label>
+        <label className="block space-y-1">
+          <span className="font-medium">Default time range for top</span>
+          <select name="defaultTime" defaultValue={initial.defaultTime} className={inputClass}>
+            {LISTING_TIMES.map((time) => (
+              <option key={time} value={time}>{time}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+      {mutation.error && <p className="text-destructive">{mutation.error.message}</p>}
+      {mutation.isSuccess && <p className="text-muted-foreground">Saved.</p>}
+      <Button type="submit" size="sm" disabled={mutation.isPending}>Save preferences</Button>
+    </form>
+  );
+}
@@ -0,0 +1,78 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+
+interface RedditConnectionProps {
+  // Passed in by the page, since the OAuth helpers are server-only
+  scopes: { name: string; description: string; required: boolean }[];
+  connection: { redditUsername: string; scopes: string[]; connectedAt: string } | null;
+  // Outcome of the last connection attempt, from the callback's redirect
+  result?: string;
+}
+
+const RESULT_MESSAGES: Record<string, string> = {
+  connected: "Reddit account connected.",
+  denied: "The connection was cancelled on Reddit.",
+  error: "Could not connect your Reddit account, try again.",
+};
+
+export function RedditConnection({ scopes, connection, result }: RedditConnectionProps) {
+  const router = useRouter();
+  const disconnect = useMutation({
+    mutationFn: async () => {
+      const response = await fetch("/api/reddit/connection", { method: "DELETE" });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error ?? `Request failed with status ${response.status}`);
+      }
+    },
+    onSuccess: () => router.refresh(),
+  });
+
+  const message = result ? RESULT_MESSAGES[result] : undefined;
+
+  if (connection) {
+    return (
+      <div className="space-y-3 text-sm">
+        {message && <p className="text-muted-foreground">{message}</p>}
+        <p>
+          Connected as <span className="font-medium">u/{connection.redditUsername}</span> since{" "}
+          {new Date(connection.connectedAt).toLocaleDateString()}.
+        </p>
+        <p className="text-muted-foreground">Granted: {connection.scopes.join(", ") || "unknown"}</p>
+        {disconnect.error && <p className="text-destructive">{disconnect.error.message}</p>}
+        <Button variant="outline" size="sm" disabled={disconnect.isPending} onClick={() => disconnect.mutate()}>
+          Disconnect
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    // A plain navigation, so the state cookie is set on the redirect to Reddit
+    <form action="/api/reddit/connect" method="get" className="space-y-3 text-sm">
+      {message && <p className="text-muted-foreground">{message}</p>}
+      <fieldset className="space-y-2">
+        <legend className="mb-1 font-medium">Permissions to grant</legend>
+        {scopes.map((scope) => (
+          <label key={scope.name} className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              name="scope"
+              value={scope.name}
+              defaultChecked={scope.required}
+              disabled={scope.required}
+            />
+            <span>
+              <span className="font-mono">{scope.name}</span>
+              <span className="text-muted-foreground"> — {scope.description}</span>
+            </span>
+          </label>
+        ))}
+      </fieldset>
+      <Button type="submit" size="sm">Connect Reddit account</Button>
+    </form>
+  );
+}
@@ -0,0 +1,96 @@
+"use client";
+
+import { useState } from "react";
+import { signIn } from "next-auth/react";
+import { Button } from "@/components/ui/button";
+
+interface SignInFormProps {
+  callbackUrl: string;
+  redditEnabled: boolean;
+  registrationEnabled: boolean;
+  initialError?: string;
+}
+
+const inputClass = "h-9 w-full rounded-md border border-input bg-background px-3";
+
+export function SignInForm({ callbackUrl, redditEnabled, registrationEnabled, initialError }: SignInFormProps) {
+  const [mode, setMode] = useState<"signin" | "register">("signin");
+  const [error, setError] = useState(initialError);
+  const [pending, setPending] = useState(false);
+
+  const submit = async (form: FormData) => {
+    const username = String(form.get("username") ?? "");
+    const password = String(form.get("password") ?? "");
+    setPending(true);
+    setError(undefined);
+
+    try {
+      if (mode === "register") {
+        const response = await fetch("/api/register", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ username, password }),
+        });
+        if (!response.ok) {
+          const body = await response.json().catch(() => null);
+          setError(body?.error ?? "Could not create the account");
+          return;
+        }
+      }
+
+      const result = await signIn("credentials", { username, password, redirect: false });
+      if (result?.error) {
+        setError("Wrong username or password");
+        return;
+      }
+      window.location.assign(callbackUrl);
+    } finally {
+      setPending(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <form
+        className="space-y-3 text-sm"
+        onSubmit={(event) => {
+          event.preventDefault();
+          submit(new FormData(event.currentTarget));
+        }}
+      >
+        <input name="username" placeholder="Username" autoComplete="username" required className={inputClass} />
+        <input
+          name="password"
+          type="password"
+          placeholder="Password"
+          autoComplete={mode === "register" ? "new-password" : "current-password"}
+          required
+          className={inputClass}
+        />
+        {error && <p className="text-destructive">{error}</p>}
+        <Button type="submit" className="w-full" disabled={pending}>
+          {mode === "register" ? "Create account" : "Sign in"}
+        </Button>
+      </form>
+
+      {registrationEnabled && (
+        <button
+          type="button"
+          className="w-full text-center text-sm text-muted-foreground hover:text-primary"
+          onClick={() => setMode(mode === "register" ? "signin" : "register")}
+        >
+          {mode === "register" ? "Already have an account? Sign in" : "New here? Create an account"}
+        </button>
+      )}
+
+      {redditEnabled && (
+        <>
+          <div className="text-center text-xs uppercase text-muted-foreground">or</div>
+          <Button variant="outline" className="w-full" onClick={() => signIn("reddit", { callbackUrl })}>
+            Sign in with Reddit
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
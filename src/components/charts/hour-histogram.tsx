@@ -0,0 +1,34 @@
+import { cn } from "@/lib/utils";
+
+interface HourHistogramProps {
+  // One count per hour of the day, starting at midnight
+  counts: number[];
+  height?: number;
+  className?: string;
+}
+
+export function HourHistogram({ counts, height = 96, className }: HourHistogramProps) {
+  const max = Math.max(...counts, 1);
+
+  return (
+    <div className={cn("space-y-1", className)}>
+      <div className="flex items-end gap-0.5" style={{ height }}>
+        {counts.map((count, hour) => (
+          <div
+            key={hour}
+            className="flex-1 rounded-t bg-primary/80"
+            style={{ height: `${(count / max) * 100}%`, minHeight: count > 0 ? 2 : 0 }}
+            title={`${hour.toString().padStart(2, "0")}:00 – ${count}`}
+          />
+        ))}
+      </div>
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>00</span>
+        <span>06</span>
+        <span>12</span>
+        <span>18</span>
+        <span>23</span>
+      </div>
+    </div>
+  );
+}
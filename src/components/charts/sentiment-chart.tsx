@@ -0,0 +1,76 @@
+import type { SentimentBucket } from "@/lib/sentiment";
+import { cn } from "@/lib/utils";
+
+interface SentimentChartProps {
+  buckets: SentimentBucket[];
+  width?: number;
+  height?: number;
+  className?: string;
+}
+
+const LABEL_HEIGHT = 16;
+
+// Stacked positive/neutral/negative shares per bucket, with the mean score drawn over them
+export function SentimentChart({ buckets, width = 640, height = 180, className }: SentimentChartProps) {
+  if (buckets.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">No scored posts or comments in this range yet.</p>
+    );
+  }
+
+  const plotHeight = height - LABEL_HEIGHT;
+  const slot = width / buckets.length;
+  const barWidth = Math.max(slot * 0.7, 2);
+  const toY = (score: number) => ((1 - score) / 2) * plotHeight;
+  const line = buckets
+    .map((bucket, index) => `${(index * slot + slot / 2).toFixed(1)},${toY(bucket.meanScore).toFixed(1)}`)
+    .join(" ");
+  const labelEvery = Math.ceil(buckets.length / 8);
+
+  return (
+    <svg
+      width="100%"
+      viewBox={`0 0 ${width} ${height}`}
+      className={cn("overflow-visible", className)}
+      role="img"
+      aria-label="Sentiment over time"
+    >
+      {buckets.map((bucket, index) => {
+        const x = index * slot + (slot - barWidth) / 2;
+        const positive = (bucket.positive / bucket.count) * plotHeight;
+        const neutral = (bucket.neutral / bucket.count) * plotHeight;
+        const negative = plotHeight - positive - neutral;
+        const date = new Date(bucket.start).toISOString().slice(5, 10);
+
+        return (
+          <g key={bucket.start}>
+            <title>
+              {`${date}: ${bucket.count} items, ${bucket.positive} positive, ${bucket.neutral} neutral, ${bucket.negative} negative, mean ${bucket.meanScore.toFixed(2)}`}
+            </title>
+            <rect x={x} y={0} width={barWidth} height={positive} className="fill-green-500/40" />
+            <rect x={x} y={positive} width={barWidth} height={neutral} className="fill-muted" />
+            <rect x={x} y={positive + neutral} width={barWidth} height={negative} className="fill-red-500/40" />
+            {index % labelEvery === 0 && (
+              <text
+                x={index * slot + slot / 2}
+                y={height - 4}
+                textAnchor="middle"
+                className="fill-muted-foreground text-[10px]"
+              >
+                {date}
+              </text>
+            )}
+          </g>
+        );
+      })}
+      <line x1={0} x2={width} y1={toY(0)} y2={toY(0)} className="stroke-border" strokeDasharray="4 4" />
+      <polyline
+        points={line}
+        fill="none"
+        className="stroke-primary"
+        strokeWidth={2}
+        strokeLinejoin="round"
+      />
+    </svg>
+  );
+}
@@ -0,0 +1,35 @@
+import { cn } from "@/lib/utils";
+
+interface SparklineProps {
+  values: number[];
+  width?: number;
+  height?: number;
+  className?: string;
+}
+
+export function Sparkline({ values, width = 120, height = 32, className }: SparklineProps) {
+  if (values.length < 2) {
+    return (
+      <span className="text-xs text-muted-foreground">Not enough history</span>
+    );
+  }
+
+  const min = Math.min(...values);
+  const range = Math.max(...values) - min || 1;
+  const step = width / (values.length - 1);
+  const points = values
+    .map((value, index) => `${(index * step).toFixed(1)},${(height - ((value - min) / range) * height).toFixed(1)}`)
+    .join(" ");
+
+  return (
+    <svg
+      width={width}
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+      className={cn("overflow-visible text-primary", className)}
+      aria-hidden
+    >
+      <polyline points={points} fill="none" stroke="currentColor" strokeWidth={1.5} strokeLinejoin="round" />
+    </svg>
+  );
+}
@@ -0,0 +1,37 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+
+async function generateDigest(subreddit: string) {
+  const response = await fetch(`/api/digests/${subreddit}`, { method: "POST" });
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error ?? `Request failed with status ${response.status}`);
+  }
+}
+
+interface GenerateDigestButtonProps {
+  subreddit: string;
+  label?: string;
+}
+
+export function GenerateDigestButton({ subreddit, label = "Generate today's digest" }: GenerateDigestButtonProps) {
+  const router = useRouter();
+  const mutation = useMutation({
+    mutationFn: () => generateDigest(subreddit),
+    onSuccess: () => router.refresh(),
+  });
+
+  return (
+    <div className="flex items-center gap-3">
+      <Button onClick={() => mutation.mutate()} disabled={mutation.isPending}>
+        {mutation.isPending ? "Generating..." : label}
+      </Button>
+      {mutation.error && (
+        <span className="text-sm text-destructive">{mutation.error.message}</span>
+      )}
+    </div>
+  );
+}
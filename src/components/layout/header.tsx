@@ -1,6 +1,6 @@
 "use client";
 
-import { Bell, Moon, Sun, User } from "lucide-react";
+import { Moon, Search, Sun } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
   DropdownMenu,
@@ -9,6 +9,8 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { useTheme } from "next-themes";
+import { NotificationBell } from "@/components/layout/notification-bell";
+import { UserMenu } from "@/components/layout/user-menu";
 
 export function Header() {
   const { setTheme, theme } = useTheme();
@@ -16,17 +18,20 @@ export function Header() {
   return (
     <header className="sticky top-0 z-50 w-full border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
       <div className="container flex h-14 items-center">
-        <div className="flex flex-1" />
+        <div className="flex flex-1">
+          <form action="/dashboard/search" className="relative w-full max-w-sm">
+            <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+            <input
+              name="q"
+              type="search"
+              placeholder="Search Reddit..."
+              aria-label="Search Reddit"
+              className="h-9 w-full rounded-md border border-input bg-background pl-8 pr-3 text-sm"
+            />
+          </form>
+        </div>
         <div className="flex items-center gap-2">
-          <Button
-            variant="ghost"
-            size="icon"
-            className="relative"
-            aria-label="Notifications"
-          >
-            <Bell className="h-4 w-4" />
-            <span className="absolute right-1 top-1 h-2 w-2 rounded-full bg-red-600" />
-          </Button>
+          <NotificationBell />
 
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
@@ -48,9 +53,7 @@ export function Header() {
             </DropdownMenuContent>
           </DropdownMenu>
 
-          <Button variant="ghost" size="icon" className="rounded-full">
-            <User className="h-5 w-5" />
-          </Button>
+          <UserMenu />
         </div>
       </div>
     </header>
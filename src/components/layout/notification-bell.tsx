@@ -0,0 +1,120 @@
+"use client";
+
+import Link from "next/link";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Bell } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import type { Notification } from "@/lib/storage";
+
+// Dates arrive as ISO strings once they have been through JSON
+type NotificationData = Omit<Notification, "createdAt"> & { createdAt: string };
+
+interface NotificationsResponse {
+  notifications: NotificationData[];
+  unread: number;
+  // Polling interval from the Settings page
+  pollSeconds: number;
+}
+
+async function fetchNotifications(): Promise<NotificationsResponse> {
+  const response = await fetch("/api/notifications?unread=1");
+  if (!response.ok) {
+    throw new Error(`Request failed with status ${response.status}`);
+  }
+  return response.json();
+}
+
+async function markRead(ids?: string[]) {
+  const response = await fetch("/api/notifications/read", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ ids }),
+  });
+  if (!response.ok) {
+    throw new Error(`Request failed with status ${response.status}`);
+  }
+}
+
+export function NotificationBell() {
+  const queryClient = useQueryClient();
+  const { data } = useQuery({
+    queryKey: ["notifications"],
+    queryFn: fetchNotifications,
+    refetchInterval: (query) => (query.state.data?.pollSeconds ?? 60) * 1000,
+  });
+  const mutation = useMutation({
+    mutationFn: markRead,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["notifications"] }),
+  });
+
+  const unread = data?.unread ?? 0;
+  const notifications = data?.notifications ?? [];
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="relative"
+          aria-label={unread > 0 ? `Notifications (${unread} unread)` : "Notifications"}
+        >
+          <Bell className="h-4 w-4" />
+          {unread > 0 && (
+            <span className="absolute right-1 top-1 h-2 w-2 rounded-full bg-red-600" />
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <DropdownMenuLabel className="flex items-center justify-between">
+          <span>Notifications{unread > 0 && ` (${unread})`}</span>
+          {unread > 0 && (
+            <button
+              type="button"
+              className="text-xs font-normal text-muted-foreground hover:text-primary"
+              onClick={() => mutation.mutate(undefined)}
+            >
+              Mark all as read
+            </button>
+          )}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {notifications.length === 0 ? (
+          <p className="px-2 py-4 text-center text-sm text-muted-foreground">No unread matches</p>
+        ) : (
+          notifications.map((notification) => (
+            <DropdownMenuItem key={notification.id} asChild>
+              <a
+                href={notification.permalink}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex flex-col items-start gap-1"
+                onClick={() => mutation.mutate([notification.id])}
+              >
+                <span className="line-clamp-1 font-medium">{notification.title}</span>
+                <span className="line-clamp-2 text-xs text-muted-foreground">{notification.excerpt}</span>
+                <span className="text-xs text-muted-foreground">
+                  {notification.watchlistName} • {notification.matches.join(", ")} • r/{notification.subreddit} •{" "}
+                  {formatDistanceToNow(new Date(notification.createdAt))} ago
+                </span>
+              </a>
+            </DropdownMenuItem>
+          ))
+        )}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem asChild>
+          <Link href="/dashboard/watchlists">Manage watchlists</Link>
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
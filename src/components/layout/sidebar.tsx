@@ -4,8 +4,14 @@ import Link from "next/link";
 import { usePathname } from "next/navigation";
 import { cn } from "@/lib/utils";
 import {
+  BellRing,
+  Columns3,
+  Eye,
   LayoutDashboard,
   MessageSquare,
+  Newspaper,
+  Search,
+  Smile,
   Settings,
   TrendingUp,
   Users,
@@ -17,24 +23,54 @@ const sidebarNavItems = [
     href: "/dashboard",
     icon: LayoutDashboard,
   },
+  {
+    title: "Search",
+    href: "/dashboard/search",
+    icon: Search,
+  },
   {
     title: "Communities",
-    href: "/communities",
+    href: "/dashboard/communities",
     icon: Users,
   },
+  {
+    title: "Compare",
+    href: "/dashboard/compare",
+    icon: Columns3,
+  },
   {
     title: "Trends",
-    href: "/trends",
+    href: "/dashboard/trends",
     icon: TrendingUp,
   },
+  {
+    title: "Sentiment",
+    href: "/dashboard/sentiment",
+    icon: Smile,
+  },
+  {
+    title: "Digests",
+    href: "/dashboard/digests",
+    icon: Newspaper,
+  },
+  {
+    title: "Watchlists",
+    href: "/dashboard/watchlists",
+    icon: Eye,
+  },
+  {
+    title: "Alerts",
+    href: "/dashboard/alerts",
+    icon: BellRing,
+  },
   {
     title: "Discussions",
-    href: "/discussions",
+    href: "/dashboard/discussions",
     icon: MessageSquare,
   },
   {
     title: "Settings",
-    href: "/settings",
+    href: "/dashboard/settings",
     icon: Settings,
   },
 ];
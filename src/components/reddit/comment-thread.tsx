@@ -0,0 +1,63 @@
+import { formatDistanceToNow } from "date-fns";
+import type { CommentNode } from "@/lib/comment-tree";
+import { cn } from "@/lib/utils";
+
+function HiddenReplies({ count }: { count: number }) {
+  if (count === 0) {
+    return null;
+  }
+  return (
+    <p className="pl-4 text-xs text-muted-foreground">
+      {count} more {count === 1 ? "reply" : "replies"} not loaded
+    </p>
+  );
+}
+
+function Comment({ comment }: { comment: CommentNode }) {
+  return (
+    <details open className="group">
+      <summary className="flex cursor-pointer list-none flex-wrap items-center gap-2 text-xs text-muted-foreground">
+        <span className="font-mono group-open:hidden">[+]</span>
+        <span className="hidden font-mono group-open:inline">[–]</span>
+        <span className={cn("font-medium text-foreground", comment.isSubmitter && "text-primary")}>
+          u/{comment.author}
+        </span>
+        {comment.authorFlair && (
+          <span className="rounded bg-secondary px-1.5 py-0.5 text-secondary-foreground">
+            {comment.authorFlair}
+          </span>
+        )}
+        <span>↑ {comment.score}</span>
+        <span>{formatDistanceToNow(comment.createdUtc * 1000)} ago</span>
+        {comment.stickied && <span className="text-green-600">pinned</span>}
+      </summary>
+      <div className="mt-1 space-y-3 border-l pl-4">
+        <p className="whitespace-pre-wrap text-sm">{comment.body}</p>
+        {comment.replies.map((reply) => (
+          <Comment key={reply.id} comment={reply} />
+        ))}
+        <HiddenReplies count={comment.moreCount} />
+      </div>
+    </details>
+  );
+}
+
+interface CommentThreadProps {
+  comments: CommentNode[];
+  moreCount?: number;
+}
+
+export function CommentThread({ comments, moreCount = 0 }: CommentThreadProps) {
+  if (comments.length === 0) {
+    return <p className="text-sm text-muted-foreground">No comments yet.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {comments.map((comment) => (
+        <Comment key={comment.id} comment={comment} />
+      ))}
+      <HiddenReplies count={moreCount} />
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+"use client";
+
+import { useState } from "react";
+import { DEFAULT_EXPORT_COLUMNS, EXPORT_COLUMNS, type ExportColumn } from "@/lib/export";
+
+interface ExportButtonProps {
+  // Query for /api/export that selects the posts, e.g. { subreddit, sort, time } or { q, ... }
+  query: Record<string, string>;
+}
+
+// Downloads every page of the current listing or search, with the chosen columns
+export function ExportButton({ query }: ExportButtonProps) {
+  const [columns, setColumns] = useState<ExportColumn[]>(DEFAULT_EXPORT_COLUMNS);
+
+  const hrefFor = (format: string) => {
+    const params = new URLSearchParams({ ...query, format, columns: columns.join(",") });
+    return `/api/export?${params.toString()}`;
+  };
+  const toggle = (column: ExportColumn) => setColumns((current) =>
+    current.includes(column)
+      ? current.filter((selected) => selected !== column)
+      // Keep the columns in their usual order
+      : EXPORT_COLUMNS.filter((candidate) => candidate === column || current.includes(candidate))
+  );
+
+  return (
+    <details className="relative text-sm">
+      <summary className="inline-flex h-9 cursor-pointer list-none items-center rounded-md border border-input bg-background px-3 font-medium hover:bg-accent hover:text-accent-foreground">
+        Download
+      </summary>
+      <div className="absolute right-0 z-10 mt-2 w-72 space-y-3 rounded-md border bg-popover p-3 text-popover-foreground shadow-md">
+        <div className="grid grid-cols-2 gap-x-2 gap-y-1">
+          {EXPORT_COLUMNS.map((column) => (
+            <label key={column} title={column} className="flex items-center gap-1.5 truncate text-xs">
+              <input type="checkbox" checked={columns.includes(column)} onChange={() => toggle(column)} />
+              {column}
+            </label>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground">Follows every page, so large listings take a while.</p>
+        <div className="flex gap-2">
+          {columns.length === 0 ? (
+            <span className="text-xs text-muted-foreground">Pick at least one column.</span>
+          ) : (
+            <>
+              <a href={hrefFor("csv")} download className="rounded-md bg-primary px-3 py-1.5 text-primary-foreground hover:bg-primary/90">
+                CSV
+              </a>
+              <a href={hrefFor("jsonl")} download className="rounded-md border border-input px-3 py-1.5 hover:bg-accent">
+                JSON Lines
+              </a>
+            </>
+          )}
+        </div>
+      </div>
+    </details>
+  );
+}
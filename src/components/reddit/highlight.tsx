@@ -0,0 +1,22 @@
+import { highlightSegments } from "@/lib/search-query";
+
+interface HighlightProps {
+  text: string;
+  terms?: string[];
+}
+
+export function Highlight({ text, terms = [] }: HighlightProps) {
+  return (
+    <>
+      {highlightSegments(text, terms).map((segment, index) =>
+        segment.match ? (
+          <mark key={index} className="rounded-sm bg-yellow-200 px-0.5 text-inherit dark:bg-yellow-500/40">
+            {segment.text}
+          </mark>
+        ) : (
+          segment.text
+        )
+      )}
+    </>
+  );
+}
@@ -0,0 +1,63 @@
+import Link from "next/link";
+import { formatDistanceToNow } from "date-fns";
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
+import { Highlight } from "@/components/reddit/highlight";
+import { LANGUAGE_NAMES, detectLanguage, truncateGraphemes } from "@/lib/language";
+import type { RedditPost } from "@/lib/reddit-schemas";
+
+interface PostCardProps {
+  post: RedditPost;
+  showSubreddit?: boolean;
+  // Search terms to mark in the title and text
+  highlight?: string[];
+}
+
+export function PostCard({ post, showSubreddit = false, highlight }: PostCardProps) {
+  const language = detectLanguage(`${post.title}\n${post.selftext}`);
+
+  return (
+    <Card className="hover:shadow-lg transition-shadow">
+      <CardHeader>
+        <CardTitle className="text-xl">
+          <a
+            href={`https://reddit.com${post.permalink}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="hover:text-primary transition-colors"
+          >
+            <Highlight text={post.title} terms={highlight} />
+          </a>
+        </CardTitle>
+        <CardDescription>
+          {showSubreddit && `${post.subreddit_name_prefixed} • `}
+          Posted by{" "}
+          {post.author === "[deleted]" ? (
+            "u/[deleted]"
+          ) : (
+            <Link href={`/dashboard/user/${post.author}`} className="hover:text-primary transition-colors">
+              u/{post.author}
+            </Link>
+          )}{" "}
+          • {formatDistanceToNow(post.created_utc * 1000)} ago
+          {(language === "bn" || language === "banglish") && ` • ${LANGUAGE_NAMES[language]}`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {post.selftext && (
+          <p className="text-sm text-muted-foreground mb-4">
+            <Highlight text={truncateGraphemes(post.selftext, 300, "...")} terms={highlight} />
+          </p>
+        )}
+        <div className="flex items-center gap-6 text-sm text-muted-foreground">
+          <span>↑ {post.score} points</span>
+          <Link
+            href={`/dashboard/subreddit/${post.subreddit}/comments/${post.id}`}
+            className="hover:text-primary transition-colors"
+          >
+            💬 {post.num_comments} comments
+          </Link>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,90 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { PostCard } from "@/components/reddit/post-card";
+import type { RedditPost } from "@/lib/reddit-schemas";
+
+interface PostPage {
+  posts: RedditPost[];
+  after: string | null;
+}
+
+interface PostFeedProps {
+  subreddit: string;
+  // Listing query (sort, time, limit) the first page was fetched with
+  query: Record<string, string>;
+  initialPage: PostPage;
+}
+
+async function fetchPage(subreddit: string, query: Record<string, string>, after: string | null): Promise<PostPage> {
+  const params = new URLSearchParams(query);
+  if (after) {
+    params.set("after", after);
+  }
+
+  const response = await fetch(`/api/subreddit/${subreddit}/posts?${params.toString()}`);
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error ?? `Request failed with status ${response.status}`);
+  }
+  return response.json();
+}
+
+export function PostFeed({ subreddit, query, initialPage }: PostFeedProps) {
+  const sentinel = useRef<HTMLDivElement>(null);
+
+  const { data, error, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: ["subreddit-posts", subreddit, query],
+    queryFn: ({ pageParam }) => fetchPage(subreddit, query, pageParam),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.after,
+    initialData: { pages: [initialPage], pageParams: [null] },
+  });
+
+  // Load the next page as soon as the end of the list scrolls into view
+  useEffect(() => {
+    const element = sentinel.current;
+    if (!element || !hasNextPage) {
+      return;
+    }
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0]?.isIntersecting && !isFetchingNextPage) {
+        fetchNextPage();
+      }
+    }, { rootMargin: "400px" });
+
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [fetchNextPage, hasNextPage, isFetchingNextPage]);
+
+  // Listings shift while paging, so the same post can show up on two pages
+  const seen = new Set<string>();
+  const posts = data.pages
+    .flatMap((page) => page.posts)
+    .filter((post) => !seen.has(post.name) && seen.add(post.name));
+
+  return (
+    <div className="space-y-6">
+      {posts.length === 0 && (
+        <p className="text-muted-foreground">No posts found.</p>
+      )}
+      {posts.map((post) => (
+        <PostCard key={post.id} post={post} />
+      ))}
+
+      <div ref={sentinel} className="flex flex-col items-center gap-2">
+        {error && (
+          <p className="text-sm text-destructive">{error.message}</p>
+        )}
+        {hasNextPage && (
+          <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+            {isFetchingNextPage ? "Loading..." : "Load more"}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
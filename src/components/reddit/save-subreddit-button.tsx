@@ -0,0 +1,48 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import type { UserPreferences } from "@/lib/storage";
+
+type PreferencesInput = Pick<UserPreferences, "subreddits" | "defaultSort" | "defaultTime">;
+
+interface SaveSubredditButtonProps {
+  subreddit: string;
+  preferences: PreferencesInput;
+}
+
+// Adds the subreddit to, or removes it from, the signed-in user's own list
+export function SaveSubredditButton({ subreddit, preferences }: SaveSubredditButtonProps) {
+  const router = useRouter();
+  const saved = preferences.subreddits.some((name) => name.toLowerCase() === subreddit.toLowerCase());
+  const mutation = useMutation({
+    mutationFn: async () => {
+      const subreddits = saved
+        ? preferences.subreddits.filter((name) => name.toLowerCase() !== subreddit.toLowerCase())
+        : [...preferences.subreddits, subreddit];
+      const response = await fetch("/api/me/preferences", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...preferences, subreddits }),
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error ?? `Request failed with status ${response.status}`);
+      }
+    },
+    onSuccess: () => router.refresh(),
+  });
+
+  return (
+    <Button
+      variant="outline"
+      size="sm"
+      onClick={() => mutation.mutate()}
+      disabled={mutation.isPending}
+      title={mutation.error?.message}
+    >
+      {saved ? "Remove from my list" : "Add to my list"}
+    </Button>
+  );
+}
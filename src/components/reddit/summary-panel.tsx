@@ -0,0 +1,79 @@
+"use client";
+
+import { useMutation } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
+import type { PostSummary } from "@/lib/summarize";
+import { cn } from "@/lib/utils";
+
+const SENTIMENT_STYLES: Record<PostSummary["sentiment"], string> = {
+  positive: "bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300",
+  negative: "bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300",
+  neutral: "bg-secondary text-secondary-foreground",
+  mixed: "bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300",
+};
+
+async function requestSummary(postId: string, refresh: boolean): Promise<PostSummary> {
+  const response = await fetch(`/api/posts/${postId}/summary${refresh ? "?refresh=1" : ""}`, { method: "POST" });
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(body?.error ?? `Request failed with status ${response.status}`);
+  }
+  return body;
+}
+
+interface SummaryPanelProps {
+  postId: string;
+  initialSummary: PostSummary | null;
+}
+
+export function SummaryPanel({ postId, initialSummary }: SummaryPanelProps) {
+  const mutation = useMutation({
+    mutationFn: (refresh: boolean) => requestSummary(postId, refresh),
+  });
+  const summary = mutation.data ?? initialSummary;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="text-lg">AI summary</CardTitle>
+          {summary && (
+            <CardDescription>
+              {summary.model} • {summary.commentsConsidered} comments • {formatDistanceToNow(new Date(summary.createdAt))} ago
+            </CardDescription>
+          )}
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => mutation.mutate(Boolean(summary))}
+          disabled={mutation.isPending}
+        >
+          {mutation.isPending ? "Summarizing..." : summary ? "Regenerate" : "Summarize"}
+        </Button>
+      </CardHeader>
+      {(summary || mutation.error) && (
+        <CardContent className="space-y-3 text-sm">
+          {mutation.error && <p className="text-destructive">{mutation.error.message}</p>}
+          {summary && (
+            <>
+              <p>{summary.summary}</p>
+              {summary.viewpoints.length > 0 && (
+                <ul className="list-disc space-y-1 pl-5 text-muted-foreground">
+                  {summary.viewpoints.map((viewpoint) => (
+                    <li key={viewpoint}>{viewpoint}</li>
+                  ))}
+                </ul>
+              )}
+              <span className={cn("inline-block rounded-full px-2 py-0.5 text-xs capitalize", SENTIMENT_STYLES[summary.sentiment])}>
+                {summary.sentiment}
+              </span>
+            </>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,73 @@
+"use client";
+
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
+import { LANGUAGE_NAMES, type Language } from "@/lib/language";
+import type { PostTranslation } from "@/lib/translate";
+
+async function requestTranslation(postId: string, refresh: boolean): Promise<PostTranslation> {
+  const response = await fetch(`/api/posts/${postId}/translation${refresh ? "?refresh=1" : ""}`, { method: "POST" });
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(body?.error ?? `Request failed with status ${response.status}`);
+  }
+  return body;
+}
+
+interface TranslationPanelProps {
+  postId: string;
+  language: Language;
+  title: string;
+  body: string;
+  initialTranslation: PostTranslation | null;
+}
+
+// The original and the English translation side by side
+export function TranslationPanel({ postId, language, title, body, initialTranslation }: TranslationPanelProps) {
+  const mutation = useMutation({
+    mutationFn: (refresh: boolean) => requestTranslation(postId, refresh),
+  });
+  const translation = mutation.data ?? initialTranslation;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="text-lg">Translation</CardTitle>
+          <CardDescription>
+            Detected {LANGUAGE_NAMES[language]}
+            {translation && ` • translated by ${translation.model}`}
+          </CardDescription>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => mutation.mutate(Boolean(translation))}
+          disabled={mutation.isPending}
+        >
+          {mutation.isPending ? "Translating..." : translation ? "Retranslate" : "Translate to English"}
+        </Button>
+      </CardHeader>
+      {(translation || mutation.error) && (
+        <CardContent className="text-sm">
+          {mutation.error && <p className="text-destructive">{mutation.error.message}</p>}
+          {translation && (
+            <div className="grid gap-6 md:grid-cols-2">
+              <div className="space-y-2">
+                <p className="text-xs uppercase text-muted-foreground">Original</p>
+                <p className="font-medium">{title}</p>
+                {body && <p className="whitespace-pre-wrap text-muted-foreground">{body}</p>}
+              </div>
+              <div className="space-y-2">
+                <p className="text-xs uppercase text-muted-foreground">English</p>
+                <p className="font-medium">{translation.title}</p>
+                {translation.body && <p className="whitespace-pre-wrap">{translation.body}</p>}
+              </div>
+            </div>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
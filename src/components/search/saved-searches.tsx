@@ -0,0 +1,104 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import type { SavedSearchInput } from "@/lib/search";
+
+interface SavedSearchLink {
+  id: string;
+  name: string;
+  query: string;
+  subreddit: string | null;
+  // Search page URL that re-runs it
+  href: string;
+}
+
+interface SavedSearchesProps {
+  searches: SavedSearchLink[];
+  // The search on screen, offered for saving; null when there is none
+  current: SavedSearchInput | null;
+}
+
+async function request(url: string, init?: RequestInit) {
+  const response = await fetch(url, {
+    ...init,
+    headers: { "Content-Type": "application/json" },
+  });
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error ?? `Request failed with status ${response.status}`);
+  }
+}
+
+export function SavedSearches({ searches, current }: SavedSearchesProps) {
+  const router = useRouter();
+  const [name, setName] = useState("");
+
+  const save = useMutation({
+    mutationFn: (input: SavedSearchInput) => request("/api/searches", { method: "POST", body: JSON.stringify(input) }),
+    onSuccess: () => {
+      setName("");
+      router.refresh();
+    },
+  });
+  const remove = useMutation({
+    mutationFn: (id: string) => request(`/api/searches/${id}`, { method: "DELETE" }),
+    onSuccess: () => router.refresh(),
+  });
+
+  return (
+    <div className="space-y-4 text-sm">
+      {current && (
+        <form
+          className="flex gap-2"
+          onSubmit={(event) => {
+            event.preventDefault();
+            save.mutate({ ...current, name });
+          }}
+        >
+          <input
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            placeholder="Name this search"
+            required
+            className="h-9 min-w-0 flex-1 rounded-md border border-input bg-background px-3"
+          />
+          <Button type="submit" size="sm" disabled={save.isPending}>
+            Save
+          </Button>
+        </form>
+      )}
+      {save.error && <p className="text-destructive">{save.error.message}</p>}
+
+      {searches.length === 0 ? (
+        <p className="text-muted-foreground">No saved searches yet.</p>
+      ) : (
+        <ul className="space-y-2">
+          {searches.map((search) => (
+            <li key={search.id} className="flex items-start justify-between gap-2">
+              <Link href={search.href} className="min-w-0 hover:text-primary transition-colors">
+                <div className="font-medium">{search.name}</div>
+                <div className="truncate font-mono text-xs text-muted-foreground">
+                  {search.subreddit && `r/${search.subreddit} `}{search.query}
+                </div>
+              </Link>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => remove.mutate(search.id)}
+                disabled={remove.isPending}
+                aria-label={`Delete ${search.name}`}
+              >
+                ×
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {remove.error && <p className="text-destructive">{remove.error.message}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import Link from "next/link";
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Highlight } from "@/components/reddit/highlight";
+import { PostCard } from "@/components/reddit/post-card";
+import type { SearchPage } from "@/lib/search";
+
+interface SearchResultsProps {
+  // Search params the first page was fetched with, without `after`
+  query: Record<string, string>;
+  // Free-text terms to highlight
+  terms: string[];
+  initialPage: SearchPage;
+}
+
+async function fetchPage(query: Record<string, string>, after: string | null): Promise<SearchPage> {
+  const params = new URLSearchParams(query);
+  if (after) {
+    params.set("after", after);
+  }
+
+  const response = await fetch(`/api/search?${params.toString()}`);
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error ?? `Request failed with status ${response.status}`);
+  }
+  return response.json();
+}
+
+export function SearchResults({ query, terms, initialPage }: SearchResultsProps) {
+  const sentinel = useRef<HTMLDivElement>(null);
+
+  const { data, error, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: ["search", query],
+    queryFn: ({ pageParam }) => fetchPage(query, pageParam),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.after,
+    initialData: { pages: [initialPage], pageParams: [null] },
+  });
+
+  // Load the next page as soon as the end of the list scrolls into view
+  useEffect(() => {
+    const element = sentinel.current;
+    if (!element || !hasNextPage) {
+      return;
+    }
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0]?.isIntersecting && !isFetchingNextPage) {
+        fetchNextPage();
+      }
+    }, { rootMargin: "400px" });
+
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [fetchNextPage, hasNextPage, isFetchingNextPage]);
+
+  const seen = new Set<string>();
+  const posts = data.pages
+    .flatMap((page) => (page.type === "link" ? page.posts : []))
+    .filter((post) => !seen.has(post.name) && seen.add(post.name));
+  const communities = data.pages
+    .flatMap((page) => (page.type === "sr" ? page.communities : []))
+    .filter((community) => !seen.has(community.name) && seen.add(community.name));
+
+  return (
+    <div className="space-y-6">
+      {posts.length === 0 && communities.length === 0 && !hasNextPage && (
+        <p className="text-muted-foreground">No results found.</p>
+      )}
+      {posts.map((post) => (
+        <PostCard key={post.id} post={post} showSubreddit highlight={terms} />
+      ))}
+      {communities.map((community) => (
+        <Card key={community.id}>
+          <CardHeader>
+            <CardTitle className="text-xl">
+              <Link href={`/dashboard/subreddit/${community.display_name}`} className="hover:text-primary transition-colors">
+                <Highlight text={community.display_name_prefixed} terms={terms} />
+              </Link>
+              {community.over18 && (
+                <span className="ml-2 rounded bg-destructive/10 px-1.5 text-xs text-destructive">NSFW</span>
+              )}
+            </CardTitle>
+            <CardDescription>
+              {community.subscribers !== null && `${community.subscribers.toLocaleString()} members • `}
+              <Highlight text={community.public_description || community.title} terms={terms} />
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      ))}
+
+      <div ref={sentinel} className="flex flex-col items-center gap-2">
+        {error && (
+          <p className="text-sm text-destructive">{error.message}</p>
+        )}
+        {hasNextPage && (
+          <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+            {isFetchingNextPage ? "Loading..." : "Load more"}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
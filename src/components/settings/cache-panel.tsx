@@ -0,0 +1,109 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import type { CacheStats } from "@/lib/reddit-cache";
+
+type CacheState = ({ enabled: true } & CacheStats) | { enabled: false };
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, init);
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(body?.error ?? `Request failed with status ${response.status}`);
+  }
+  return body;
+}
+
+function hitRate({ hits, staleHits, misses, coalesced }: CacheStats["endpoints"][number]) {
+  const total = hits + staleHits + misses + coalesced;
+  return total ? `${Math.round(((hits + staleHits + coalesced) / total) * 100)}%` : "—";
+}
+
+export function CachePanel() {
+  const queryClient = useQueryClient();
+  const [subreddit, setSubreddit] = useState("");
+  const { data, error } = useQuery({
+    queryKey: ["reddit-cache"],
+    queryFn: () => request<CacheState>("/api/reddit/cache"),
+    refetchInterval: 10_000,
+  });
+
+  const purge = useMutation({
+    mutationFn: (name: string) => {
+      const query = name ? `?${new URLSearchParams({ subreddit: name }).toString()}` : "";
+      return request<{ purged: number }>(`/api/reddit/cache${query}`, { method: "DELETE" });
+    },
+    onSuccess: () => {
+      setSubreddit("");
+      return queryClient.invalidateQueries({ queryKey: ["reddit-cache"] });
+    },
+  });
+
+  if (error) {
+    return <p className="text-sm text-destructive">{error.message}</p>;
+  }
+  if (!data) {
+    return <p className="text-sm text-muted-foreground">Loading...</p>;
+  }
+  if (!data.enabled) {
+    return <p className="text-sm text-muted-foreground">Caching is turned off with REDDIT_CACHE=off.</p>;
+  }
+
+  return (
+    <div className="space-y-4 text-sm">
+      {data.endpoints.length === 0 ? (
+        <p className="text-muted-foreground">No Reddit requests since the server started.</p>
+      ) : (
+        <table className="w-full">
+          <thead>
+            <tr className="border-b text-left text-muted-foreground">
+              <th className="py-1 pr-4 font-medium">Endpoint</th>
+              <th className="py-1 pr-4 font-medium">Hits</th>
+              <th className="py-1 pr-4 font-medium">Stale</th>
+              <th className="py-1 pr-4 font-medium">Shared</th>
+              <th className="py-1 pr-4 font-medium">Misses</th>
+              <th className="py-1 pr-4 font-medium">Errors</th>
+              <th className="py-1 font-medium">Hit rate</th>
+            </tr>
+          </thead>
+          <tbody className="tabular-nums">
+            {data.endpoints.map((endpoint) => (
+              <tr key={endpoint.name} className="border-b last:border-0">
+                <td className="py-1 pr-4">{endpoint.name}</td>
+                <td className="py-1 pr-4">{endpoint.hits}</td>
+                <td className="py-1 pr-4">{endpoint.staleHits}</td>
+                <td className="py-1 pr-4">{endpoint.coalesced}</td>
+                <td className="py-1 pr-4">{endpoint.misses}</td>
+                <td className="py-1 pr-4">{endpoint.errors}</td>
+                <td className="py-1">{hitRate(endpoint)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <form
+        className="flex flex-wrap items-center gap-2"
+        onSubmit={(event) => {
+          event.preventDefault();
+          purge.mutate(subreddit.trim());
+        }}
+      >
+        <input
+          value={subreddit}
+          onChange={(event) => setSubreddit(event.target.value)}
+          placeholder="Subreddit (empty for everything)"
+          className="h-9 w-64 rounded-md border border-input bg-background px-3"
+        />
+        <Button type="submit" variant="outline" size="sm" disabled={purge.isPending}>
+          Purge
+        </Button>
+        <span className="text-muted-foreground">{data.keys} cached responses</span>
+        {purge.data && <span>Purged {purge.data.purged}.</span>}
+        {purge.error && <span className="text-destructive">{purge.error.message}</span>}
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+"use client";
+
+import { useMutation } from "@tanstack/react-query";
+import { CheckCircle2, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { ConnectionTestResult } from "@/lib/settings";
+
+type Service = "reddit" | "gemini";
+
+const SERVICE_NAMES: Record<Service, string> = {
+  reddit: "Reddit API",
+  gemini: "Gemini",
+};
+
+function ConnectionTest({ service }: { service: Service }) {
+  const mutation = useMutation({
+    mutationFn: async (): Promise<ConnectionTestResult> => {
+      const response = await fetch("/api/settings/test", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ service }),
+      });
+      const body = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(body?.error ?? `Request failed with status ${response.status}`);
+      }
+      return body;
+    },
+  });
+
+  const result = mutation.data;
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 text-sm">
+      <Button
+        variant="outline"
+        size="sm"
+        className="w-40"
+        disabled={mutation.isPending}
+        onClick={() => mutation.mutate()}
+      >
+        {mutation.isPending ? "Testing..." : `Test ${SERVICE_NAMES[service]}`}
+      </Button>
+      {result && (
+        <span className={result.ok ? "flex items-center gap-1 text-green-600" : "flex items-center gap-1 text-destructive"}>
+          {result.ok ? <CheckCircle2 className="h-4 w-4" /> : <XCircle className="h-4 w-4" />}
+          {result.ok ? "Pass" : "Fail"}: {result.message} ({result.latencyMs} ms)
+        </span>
+      )}
+      {mutation.error && <span className="text-destructive">{mutation.error.message}</span>}
+    </div>
+  );
+}
+
+export function ConnectionTests() {
+  return (
+    <div className="space-y-3">
+      <ConnectionTest service="reddit" />
+      <ConnectionTest service="gemini" />
+    </div>
+  );
+}
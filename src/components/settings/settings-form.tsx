@@ -0,0 +1,190 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { AppSettings } from "@/lib/storage";
+import type { GeminiModelOption } from "@/lib/settings";
+import { LISTING_SORTS, LISTING_TIMES } from "@/lib/subreddits";
+
+type SettingsInput = Omit<AppSettings, "updatedAt">;
+
+const inputClass = "h-9 w-full rounded-md border border-input bg-background px-3";
+
+async function fetchModels(): Promise<GeminiModelOption[]> {
+  const response = await fetch("/api/settings/models");
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(body?.error ?? `Request failed with status ${response.status}`);
+  }
+  return body.models;
+}
+
+interface SettingsFormProps {
+  initial: SettingsInput;
+  // Shown to users who are not admins; the model listing is not fetched
+  readOnly?: boolean;
+}
+
+export function SettingsForm({ initial, readOnly = false }: SettingsFormProps) {
+  const router = useRouter();
+  const [subreddits, setSubreddits] = useState(initial.trackedSubreddits);
+  const [newName, setNewName] = useState("");
+  const models = useQuery({ queryKey: ["gemini-models"], queryFn: fetchModels, staleTime: 60 * 60 * 1000, enabled: !readOnly });
+  const mutation = useMutation({
+    mutationFn: async (settings: SettingsInput) => {
+      const response = await fetch("/api/settings", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(settings),
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error ?? `Request failed with status ${response.status}`);
+      }
+    },
+    onSuccess: () => router.refresh(),
+  });
+
+  const addSubreddit = () => {
+    const name = newName.trim().replace(/^r\//i, "");
+    if (name && !subreddits.some((subreddit) => subreddit.name.toLowerCase() === name.toLowerCase())) {
+      setSubreddits([...subreddits, { name, description: "" }]);
+    }
+    setNewName("");
+  };
+
+  // Keep the saved model selectable even when the listing fails or no longer includes it
+  const modelOptions = models.data ?? [];
+  const knownModel = modelOptions.some((model) => model.id === initial.geminiModel);
+
+  return (
+    <form
+      className="space-y-6 text-sm"
+      onSubmit={(event) => {
+        event.preventDefault();
+        const form = new FormData(event.currentTarget);
+        mutation.mutate({
+          trackedSubreddits: subreddits,
+          collectorIntervalMinutes: Number(form.get("collectorIntervalMinutes")),
+          notificationPollSeconds: Number(form.get("notificationPollSeconds")),
+          defaultSort: form.get("defaultSort") as SettingsInput["defaultSort"],
+          defaultTime: form.get("defaultTime") as SettingsInput["defaultTime"],
+          geminiModel: String(form.get("geminiModel") ?? ""),
+        });
+      }}
+    >
+      <fieldset disabled={readOnly} className="space-y-6">
+        <fieldset className="space-y-2">
+          <legend className="mb-1 font-medium">Tracked subreddits</legend>
+          <ul className="flex flex-wrap gap-2">
+            {subreddits.map((subreddit) => (
+              <li key={subreddit.name} className="flex items-center gap-1 rounded-full border px-3 py-1">
+                r/{subreddit.name}
+                <button
+                  type="button"
+                  aria-label={`Remove r/${subreddit.name}`}
+                  className="text-muted-foreground hover:text-destructive"
+                  onClick={() => setSubreddits(subreddits.filter((other) => other.name !== subreddit.name))}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </li>
+            ))}
+          </ul>
+          <div className="flex gap-2">
+            <input
+              value={newName}
+              onChange={(event) => setNewName(event.target.value)}
+              onKeyDown={(event) => {
+                if (event.key === "Enter") {
+                  event.preventDefault();
+                  addSubreddit();
+                }
+              }}
+              placeholder="Add a subreddit"
+              className={inputClass}
+            />
+            <Button type="button" variant="outline" size="sm" onClick={addSubreddit}>Add</Button>
+          </div>
+          <p className="text-muted-foreground">New subreddits are checked with Reddit when you save.</p>
+        </fieldset>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <label className="block space-y-1">
+            <span className="font-medium">Collector interval (minutes)</span>
+            <input
+              name="collectorIntervalMinutes"
+              type="number"
+              min={1}
+              max={1440}
+              defaultValue={initial.collectorIntervalMinutes}
+              className={inputClass}
+            />
+          </label>
+          <label className="block space-y-1">
+            <span className="font-medium">Notification check (seconds)</span>
+            <input
+              name="notificationPollSeconds"
+              type="number"
+              min={10}
+              max={3600}
+              defaultValue={initial.notificationPollSeconds}
+              className={inputClass}
+            />
+          </label>
+          <label className="block space-y-1">
+            <span className="font-medium">Default sort</span>
+            <select name="defaultSort" defaultValue={initial.defaultSort} className={inputClass}>
+              {LISTING_SORTS.map((sort) => (
+                <option key={sort} value={sort}>{sort}</option>
+              ))}
+            </select>
+          </label>
+          <label className="block space-y-1">
+            <span className="font-medium">Default time range for top</span>
+            <select name="defaultTime" defaultValue={initial.defaultTime} className={inputClass}>
+              {LISTING_TIMES.map((time) => (
+                <option key={time} value={time}>{time}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <label className="block space-y-1">
+          <span className="font-medium">Gemini model</span>
+          <select
+            // Remount once the listing arrives so the saved model stays selected
+            key={models.data ? "loaded" : "loading"}
+            name="geminiModel"
+            defaultValue={initial.geminiModel}
+            className={inputClass}
+          >
+            {!knownModel && <option value={initial.geminiModel}>{initial.geminiModel}</option>}
+            {modelOptions.map((model) => (
+              <option key={model.id} value={model.id}>
+                {model.displayName} ({model.id}, {model.inputTokenLimit.toLocaleString()} input tokens)
+              </option>
+            ))}
+          </select>
+          {models.isLoading && <span className="text-muted-foreground">Loading models...</span>}
+          {models.error && <span className="text-destructive">{models.error.message}</span>}
+          {models.data?.length === 0 && (
+            <span className="text-muted-foreground">Set GEMINI_API_KEY to choose from the available models.</span>
+          )}
+        </label>
+
+      </fieldset>
+
+      {mutation.error && <p className="text-destructive">{mutation.error.message}</p>}
+      {mutation.isSuccess && <p className="text-muted-foreground">Saved.</p>}
+      {!readOnly && (
+        <Button type="submit" size="sm" disabled={mutation.isPending}>
+          {mutation.isPending ? "Checking and saving..." : "Save settings"}
+        </Button>
+      )}
+    </form>
+  );
+}
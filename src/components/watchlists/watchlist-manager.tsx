@@ -0,0 +1,202 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
+import type { Watchlist, WatchRule, WatchRuleType } from "@/lib/storage";
+
+type WatchlistData = Omit<Watchlist, "createdAt" | "updatedAt"> & { createdAt: string; updatedAt: string };
+type WatchlistInput = Pick<Watchlist, "name" | "rules" | "subreddits" | "enabled">;
+
+const RULE_TYPES: WatchRuleType[] = ["keyword", "regex", "author", "flair"];
+
+// One rule per line as "type: value"; lines without a known type are keywords
+function parseRules(text: string): WatchRule[] {
+  return text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const match = line.match(/^(\w+):\s*(.+)$/);
+      const type = RULE_TYPES.find((ruleType) => ruleType === match?.[1]?.toLowerCase());
+      return type && match ? { type, value: match[2] } : { type: "keyword", value: line };
+    });
+}
+
+function formatRules(rules: WatchRule[]) {
+  return rules.map((rule) => `${rule.type}: ${rule.value}`).join("\n");
+}
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { "Content-Type": "application/json" },
+  });
+  const body = response.status === 204 ? null : await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(body?.error ?? `Request failed with status ${response.status}`);
+  }
+  return body;
+}
+
+interface WatchlistFormProps {
+  initial?: WatchlistData;
+  pending: boolean;
+  onSubmit: (input: WatchlistInput) => void;
+  onCancel?: () => void;
+}
+
+function WatchlistForm({ initial, pending, onSubmit, onCancel }: WatchlistFormProps) {
+  const [name, setName] = useState(initial?.name ?? "");
+  const [rules, setRules] = useState(initial ? formatRules(initial.rules) : "");
+  const [subreddits, setSubreddits] = useState(initial?.subreddits.join(", ") ?? "");
+
+  return (
+    <form
+      className="space-y-3 text-sm"
+      onSubmit={(event) => {
+        event.preventDefault();
+        onSubmit({
+          name,
+          rules: parseRules(rules),
+          subreddits: subreddits.split(",").map((subreddit) => subreddit.trim().replace(/^r\//i, "")).filter(Boolean),
+          enabled: initial?.enabled ?? true,
+        });
+      }}
+    >
+      <input
+        value={name}
+        onChange={(event) => setName(event.target.value)}
+        placeholder="Name"
+        required
+        className="h-9 w-full rounded-md border border-input bg-background px-3"
+      />
+      <textarea
+        value={rules}
+        onChange={(event) => setRules(event.target.value)}
+        placeholder={"One rule per line, e.g.\nload shedding\nregex: hartal|strike\nauthor: someone\nflair: Politics"}
+        rows={5}
+        required
+        className="w-full rounded-md border border-input bg-background px-3 py-2 font-mono"
+      />
+      <input
+        value={subreddits}
+        onChange={(event) => setSubreddits(event.target.value)}
+        placeholder="Subreddits, comma separated (empty for all)"
+        className="h-9 w-full rounded-md border border-input bg-background px-3"
+      />
+      <div className="flex gap-2">
+        <Button type="submit" size="sm" disabled={pending}>
+          {initial ? "Save" : "Add watchlist"}
+        </Button>
+        {onCancel && (
+          <Button type="button" size="sm" variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+      </div>
+    </form>
+  );
+}
+
+export function WatchlistManager() {
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<string | null>(null);
+  // Bumped after a successful create to reset the new-watchlist form
+  const [formKey, setFormKey] = useState(0);
+  const { data, isLoading } = useQuery({
+    queryKey: ["watchlists"],
+    queryFn: () => request<{ watchlists: WatchlistData[] }>("/api/watchlists"),
+  });
+  const onSuccess = () => {
+    setEditing(null);
+    return queryClient.invalidateQueries({ queryKey: ["watchlists"] });
+  };
+
+  const create = useMutation({
+    mutationFn: (input: WatchlistInput) => request("/api/watchlists", { method: "POST", body: JSON.stringify(input) }),
+    onSuccess: () => {
+      setFormKey((key) => key + 1);
+      return onSuccess();
+    },
+  });
+  const update = useMutation({
+    mutationFn: ({ id, input }: { id: string; input: WatchlistInput }) =>
+      request(`/api/watchlists/${id}`, { method: "PUT", body: JSON.stringify(input) }),
+    onSuccess,
+  });
+  const remove = useMutation({
+    mutationFn: (id: string) => request(`/api/watchlists/${id}`, { method: "DELETE" }),
+    onSuccess,
+  });
+  const error = create.error ?? update.error ?? remove.error;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">New watchlist</CardTitle>
+          <CardDescription>
+            Matches in newly fetched posts and comments show up under the bell.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <WatchlistForm key={formKey} pending={create.isPending} onSubmit={(input) => create.mutate(input)} />
+        </CardContent>
+      </Card>
+
+      {error && <p className="text-sm text-destructive">{error.message}</p>}
+      {isLoading && <p className="text-sm text-muted-foreground">Loading watchlists...</p>}
+
+      {data?.watchlists.map((watchlist) => (
+        <Card key={watchlist.id}>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle className="text-lg">{watchlist.name}</CardTitle>
+              <CardDescription>
+                {watchlist.subreddits.length > 0
+                  ? watchlist.subreddits.map((subreddit) => `r/${subreddit}`).join(", ")
+                  : "All subreddits"}
+                {!watchlist.enabled && " • paused"}
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => update.mutate({ id: watchlist.id, input: { ...watchlist, enabled: !watchlist.enabled } })}
+              >
+                {watchlist.enabled ? "Pause" : "Resume"}
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => setEditing(watchlist.id)}>
+                Edit
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => remove.mutate(watchlist.id)}>
+                Delete
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {editing === watchlist.id ? (
+              <WatchlistForm
+                initial={watchlist}
+                pending={update.isPending}
+                onSubmit={(input) => update.mutate({ id: watchlist.id, input })}
+                onCancel={() => setEditing(null)}
+              />
+            ) : (
+              <ul className="flex flex-wrap gap-2 text-xs">
+                {watchlist.rules.map((rule) => (
+                  <li key={`${rule.type}:${rule.value}`} className="rounded-full bg-secondary px-3 py-1 text-secondary-foreground">
+                    {rule.type}: {rule.value}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
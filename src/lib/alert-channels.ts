@@ -0,0 +1,173 @@
+import http from 'http';
+import https from 'https';
+import fetch, { type Response } from 'node-fetch';
+import nodemailer, { type Transporter } from 'nodemailer';
+import { PrivateAddressError, assertPublicUrl, publicOnlyLookup } from './public-url';
+import { sleep } from './rate-limiter';
+import type { AlertChannel, AlertChannelType } from './storage/types';
+
+// What a template can refer to as {{name}}
+export interface AlertMessage {
+    rule: string;
+    title: string;
+    permalink: string;
+    score: number;
+    numComments: number;
+    subreddit: string;
+    author: string;
+}
+
+export const DEFAULT_TEMPLATES: Record<AlertChannelType, string> = {
+    webhook: '{{title}} ({{score}} points) {{permalink}}',
+    slack: '*{{rule}}*: <{{permalink}}|{{title}}> in r/{{subreddit}} ({{score}} points, {{numComments}} comments)',
+    discord: '**{{rule}}**: [{{title}}]({{permalink}}) in r/{{subreddit}} ({{score}} points, {{numComments}} comments)',
+    email: 'A post in r/{{subreddit}} matched "{{rule}}":\n\n{{title}}\nby u/{{author}}, {{score}} points, {{numComments}} comments\n\n{{permalink}}'
+};
+
+// Replaces {{name}} placeholders; unknown names are left as they are
+export function renderTemplate(template: string, message: AlertMessage) {
+    return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) =>
+        name in message ? String(message[name as keyof AlertMessage]) : placeholder
+    );
+}
+
+export class AlertDeliveryError extends Error {
+    constructor(message: string, public readonly status: number | null = null, public readonly retryable: boolean = true) {
+        super(message);
+        this.name = 'AlertDeliveryError';
+    }
+}
+
+// Body of the POST for each webhook flavour
+export function webhookPayload(type: Exclude<AlertChannelType, 'email'>, text: string, message: AlertMessage) {
+    switch (type) {
+        case 'slack':
+            return { text, unfurl_links: false };
+        case 'discord':
+            return {
+                content: text,
+                embeds: [{
+                    title: message.title.slice(0, 256),
+                    url: message.permalink,
+                    fields: [
+                        { name: 'Subreddit', value: `r/${message.subreddit}`, inline: true },
+                        { name: 'Score', value: String(message.score), inline: true },
+                        { name: 'Comments', value: String(message.numComments), inline: true }
+                    ]
+                }]
+            };
+        case 'webhook':
+            return { text, ...message };
+    }
+}
+
+// Webhook targets are user-supplied, so connections to private addresses are refused
+const webhookAgents = {
+    http: new http.Agent({ lookup: publicOnlyLookup }),
+    https: new https.Agent({ lookup: publicOnlyLookup })
+};
+
+async function postWebhook(url: string, payload: unknown) {
+    let response: Response;
+    try {
+        await assertPublicUrl(url);
+        response = await fetch(url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(payload),
+            agent: target => target.protocol === 'http:' ? webhookAgents.http : webhookAgents.https,
+            // A redirect could lead to an internal address; it is reported as a failed delivery instead
+            redirect: 'manual',
+            timeout: 10_000
+        });
+    } catch (error) {
+        // node-fetch wraps errors from the agent's lookup but keeps their code
+        if (error instanceof PrivateAddressError || (error as { code?: string }).code === PrivateAddressError.code) {
+            throw new AlertDeliveryError((error as Error).message, null, false);
+        }
+        throw new AlertDeliveryError(error instanceof Error ? error.message : 'Network error');
+    }
+
+    if (!response.ok) {
+        // A bad URL or payload will not fix itself; rate limits and server errors might
+        const retryable = response.status === 429 || response.status >= 500;
+        throw new AlertDeliveryError(`Webhook answered HTTP ${response.status}: ${(await response.text()).slice(0, 200)}`, response.status, retryable);
+    }
+}
+
+let mailer: Transporter | null = null;
+
+// SMTP transport configured from SMTP_* env vars
+function getMailer() {
+    if (!process.env.SMTP_HOST) {
+        throw new AlertDeliveryError('Email alerts need SMTP_HOST to be configured', null, false);
+    }
+
+    if (!mailer) {
+        mailer = nodemailer.createTransport({
+            host: process.env.SMTP_HOST,
+            port: Number(process.env.SMTP_PORT) || 587,
+            secure: process.env.SMTP_SECURE === 'true',
+            auth: process.env.SMTP_USER
+                ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+                : undefined
+        });
+    }
+    return mailer;
+}
+
+async function sendEmail(to: string, text: string, message: AlertMessage) {
+    try {
+        await getMailer().sendMail({
+            from: process.env.SMTP_FROM || 'trend-ai@localhost',
+            to,
+            subject: `[${message.rule}] ${message.title}`,
+            text
+        });
+    } catch (error) {
+        if (error instanceof AlertDeliveryError) {
+            throw error;
+        }
+        throw new AlertDeliveryError(error instanceof Error ? error.message : 'SMTP error');
+    }
+}
+
+export async function sendToChannel(channel: AlertChannel, message: AlertMessage) {
+    const text = renderTemplate(channel.template ?? DEFAULT_TEMPLATES[channel.type], message);
+    if (channel.type === 'email') {
+        await sendEmail(channel.target, text, message);
+    } else {
+        await postWebhook(channel.target, webhookPayload(channel.type, text, message));
+    }
+}
+
+export interface DeliveryResult {
+    attempts: number;
+    error: string | null;
+}
+
+/**
+ * Sends with exponential backoff between attempts. Errors that retrying
+ * cannot fix end the loop early. Never throws; the outcome is for the
+ * delivery log.
+ */
+export async function deliverWithRetry(
+    channel: AlertChannel,
+    message: AlertMessage,
+    options: { maxAttempts?: number; baseDelayMs?: number } = {}
+): Promise<DeliveryResult> {
+    const { maxAttempts = 3, baseDelayMs = 1000 } = options;
+
+    for (let attempt = 1; ; attempt++) {
+        try {
+            await sendToChannel(channel, message);
+            return { attempts: attempt, error: null };
+        } catch (error) {
+            const retryable = !(error instanceof AlertDeliveryError) || error.retryable;
+            if (!retryable || attempt >= maxAttempts) {
+                return { attempts: attempt, error: error instanceof Error ? error.message : 'Unknown error' };
+            }
+            await sleep(baseDelayMs * 2 ** (attempt - 1));
+        }
+    }
+}
@@ -0,0 +1,150 @@
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import { deliverWithRetry, type AlertMessage } from './alert-channels';
+import { PrivateAddressError, assertPublicUrl } from './public-url';
+import type { RedditPost } from './reddit-schemas';
+import type { AlertChannel, AlertDelivery, AlertRule, Storage } from './storage/types';
+import { isValidSubredditName } from './subreddits';
+import { keywordPattern } from './watchlists';
+
+export const AlertChannelInputSchema = z.object({
+    name: z.string().trim().min(1).max(100),
+    type: z.enum(['webhook', 'slack', 'discord', 'email']),
+    target: z.string().trim().min(1).max(500),
+    template: z.string().trim().max(2000).nullable().default(null).transform(template => template || null),
+    enabled: z.boolean().default(true)
+}).refine(channel => channel.type === 'email'
+    ? z.string().email().safeParse(channel.target).success
+    : /^https?:\/\//.test(channel.target) && z.string().url().safeParse(channel.target).success, {
+    message: 'Target must be an http(s) URL, or an email address for email channels',
+    path: ['target']
+});
+
+export const AlertRuleInputSchema = z.object({
+    name: z.string().trim().min(1).max(100),
+    subreddits: z.array(z.string().trim().refine(isValidSubredditName, 'Invalid subreddit name')).max(50).default([]),
+    keywords: z.array(z.string().trim().min(1).max(100)).max(50).default([]),
+    minScore: z.number().int().nullable().default(null),
+    channelIds: z.array(z.string()).min(1, 'Pick at least one channel'),
+    enabled: z.boolean().default(true)
+});
+
+export type AlertChannelInput = z.infer<typeof AlertChannelInputSchema>;
+export type AlertRuleInput = z.infer<typeof AlertRuleInputSchema>;
+
+// Why a webhook target cannot be used, or null; its host has to resolve to public addresses
+export async function webhookTargetProblem(input: AlertChannelInput): Promise<string | null> {
+    if (input.type === 'email') {
+        return null;
+    }
+    try {
+        await assertPublicUrl(input.target);
+        return null;
+    } catch (error) {
+        return error instanceof PrivateAddressError ? error.message : `Could not resolve ${new URL(input.target).hostname}`;
+    }
+}
+
+export function createAlertChannel(userId: string, input: AlertChannelInput, now: Date = new Date()): AlertChannel {
+    return { id: randomUUID(), userId, ...input, createdAt: now };
+}
+
+export function createAlertRule(userId: string, input: AlertRuleInput, now: Date = new Date()): AlertRule {
+    return { id: randomUUID(), userId, ...input, createdAt: now };
+}
+
+export function toAlertMessage(rule: string, post: RedditPost): AlertMessage {
+    return {
+        rule,
+        title: post.title,
+        permalink: `https://reddit.com${post.permalink}`,
+        score: post.score,
+        numComments: post.num_comments,
+        subreddit: post.subreddit,
+        author: post.author
+    };
+}
+
+// A rule returning posts it matches, compiled once per dispatch
+function compileAlertRule(rule: AlertRule) {
+    const subreddits = new Set(rule.subreddits.map(subreddit => subreddit.toLowerCase()));
+    const keywords = rule.keywords.map(keywordPattern);
+
+    return (post: RedditPost) => {
+        if (subreddits.size > 0 && !subreddits.has(post.subreddit.toLowerCase())) {
+            return false;
+        }
+        if (rule.minScore !== null && post.score < rule.minScore) {
+            return false;
+        }
+        const text = `${post.title}\n${post.selftext}`.normalize('NFC');
+        return keywords.length === 0 || keywords.some(pattern => pattern.test(text));
+    };
+}
+
+export function matchAlertRule(rule: AlertRule, post: RedditPost) {
+    return compileAlertRule(rule)(post);
+}
+
+async function deliver(storage: Storage, channel: AlertChannel, message: AlertMessage, ruleId: string | null, postId: string | null) {
+    const result = await deliverWithRetry(channel, message);
+    const delivery: AlertDelivery = {
+        id: randomUUID(),
+        userId: channel.userId,
+        ruleId,
+        channelId: channel.id,
+        postId,
+        status: result.error ? 'failed' : 'sent',
+        attempts: result.attempts,
+        error: result.error,
+        createdAt: new Date()
+    };
+    await storage.alertDeliveries.record(delivery);
+    return delivery;
+}
+
+/**
+ * Sends an alert for every post matching an enabled rule, once per rule,
+ * channel and post. Failed deliveries are logged and retried the next time
+ * the post is fetched. Returns the deliveries attempted.
+ */
+export async function dispatchAlerts(storage: Storage, posts: RedditPost[]) {
+    const deliveries: AlertDelivery[] = [];
+    if (posts.length === 0) {
+        return deliveries;
+    }
+
+    for (const rule of await storage.alerts.listEnabledRules()) {
+        const matches = posts.filter(compileAlertRule(rule));
+        if (matches.length === 0) {
+            continue;
+        }
+
+        const channels = (await storage.alerts.listChannels(rule.userId))
+            .filter(channel => channel.enabled && rule.channelIds.includes(channel.id));
+
+        for (const post of matches) {
+            for (const channel of channels) {
+                if (await storage.alertDeliveries.wasDelivered(rule.id, channel.id, post.name)) {
+                    continue;
+                }
+                deliveries.push(await deliver(storage, channel, toAlertMessage(rule.name, post), rule.id, post.name));
+            }
+        }
+    }
+
+    return deliveries;
+}
+
+// Sends a sample message so a channel can be checked before a rule uses it
+export async function sendTestAlert(storage: Storage, channel: AlertChannel) {
+    return deliver(storage, channel, {
+        rule: 'Test alert',
+        title: 'Test alert from trend-ai',
+        permalink: 'https://reddit.com/r/Bangladesh',
+        score: 42,
+        numComments: 7,
+        subreddit: 'Bangladesh',
+        author: 'trend-ai'
+    }, null, null);
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import {
+    RedditAPIError,
+    RedditForbiddenError,
+    RedditNotFoundError,
+    RedditRateLimitError,
+    RedditValidationError
+} from './reddit-errors';
+
+export function jsonError(message: string, status: number) {
+    return NextResponse.json({ error: message }, { status });
+}
+
+// Maps errors thrown while talking to Reddit onto the status our own API answers with
+export function errorResponse(error: unknown) {
+    if (error instanceof RedditNotFoundError) {
+        return jsonError('Not found', 404);
+    }
+    if (error instanceof RedditForbiddenError) {
+        return jsonError('Forbidden', 403);
+    }
+    if (error instanceof RedditRateLimitError) {
+        return jsonError('Rate limited by Reddit, try again shortly', 429);
+    }
+    if (error instanceof RedditValidationError) {
+        return jsonError('Reddit returned data in an unexpected format', 502);
+    }
+    if (error instanceof RedditAPIError) {
+        return jsonError('Could not reach Reddit', 502);
+    }
+
+    console.error('Unexpected API error:', error);
+    return jsonError('Internal server error', 500);
+}
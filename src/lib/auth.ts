@@ -0,0 +1,73 @@
+import { getServerSession, type NextAuthOptions } from 'next-auth';
+import CredentialsProvider from 'next-auth/providers/credentials';
+import RedditProvider from 'next-auth/providers/reddit';
+import { getStorage } from './storage';
+import { authenticateUser, mayRedditUserSignIn, upsertRedditUser } from './users';
+
+function providers(): NextAuthOptions['providers'] {
+    const list: NextAuthOptions['providers'] = [
+        CredentialsProvider({
+            name: 'Username and password',
+            credentials: {
+                username: { label: 'Username', type: 'text' },
+                password: { label: 'Password', type: 'password' }
+            },
+            async authorize(credentials) {
+                if (!credentials?.username || !credentials.password) {
+                    return null;
+                }
+
+                const storage = await getStorage();
+                const user = await authenticateUser(storage, credentials.username, credentials.password);
+                return user ? { id: user.id, name: user.name, image: user.image } : null;
+            }
+        })
+    ];
+
+    // Sign-in needs a Reddit "web app"; the script app used for the API cannot do the OAuth redirect
+    if (process.env.REDDIT_OAUTH_CLIENT_ID && process.env.REDDIT_OAUTH_CLIENT_SECRET) {
+        list.push(RedditProvider({
+            clientId: process.env.REDDIT_OAUTH_CLIENT_ID,
+            clientSecret: process.env.REDDIT_OAUTH_CLIENT_SECRET
+        }));
+    }
+
+    return list;
+}
+
+export const authOptions: NextAuthOptions = {
+    providers: providers(),
+    session: { strategy: 'jwt' },
+    pages: { signIn: '/signin' },
+    callbacks: {
+        async signIn({ user, account }) {
+            if (account?.provider === 'reddit') {
+                return mayRedditUserSignIn(await getStorage(), user.id);
+            }
+            return true;
+        },
+        // `user` is only present right after sign-in; later calls just carry the token along
+        async jwt({ token, user, account }) {
+            if (user && account?.provider === 'reddit') {
+                const storage = await getStorage();
+                const stored = await upsertRedditUser(storage, { id: user.id, name: user.name ?? user.id, image: user.image });
+                token.userId = stored.id;
+            } else if (user) {
+                token.userId = user.id;
+            }
+            return token;
+        },
+        async session({ session, token }) {
+            if (session.user && typeof token.userId === 'string') {
+                session.user.id = token.userId;
+            }
+            return session;
+        }
+    }
+};
+
+// Id of the signed-in user in server components and route handlers, or null
+export async function getCurrentUserId() {
+    const session = await getServerSession(authOptions);
+    return session?.user?.id ?? null;
+}
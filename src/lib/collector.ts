@@ -0,0 +1,147 @@
+import { randomUUID } from 'crypto';
+import type { RedditAPI } from './reddit-api';
+import type { RedditPost } from './reddit-schemas';
+import type { CollectorRun, CollectorSourceStats, Storage } from './storage/types';
+import { toStoredPost } from './storage/mappers';
+
+export type CollectorSort = 'new' | 'hot';
+
+export interface CollectorConfig {
+    subreddits: string[];
+    sorts?: CollectorSort[];
+    // Delay between the end of one run and the start of the next
+    intervalMs?: number;
+    // Posts read from `hot` on each run
+    hotLimit?: number;
+    // Cap on posts read from `new` in one run, so a long outage cannot turn into an unbounded backfill
+    maxNewPosts?: number;
+    // How far back `new` reaches the first time a subreddit is collected (seconds)
+    initialLookback?: number;
+    // Called for every batch of posts after it has been stored
+    onPosts?: (posts: RedditPost[]) => Promise<void>;
+}
+
+/**
+ * Polls a set of subreddits and stores what it finds as post snapshots.
+ * Progress through `new` is checkpointed, so after a restart the next run
+ * picks up from the newest post it had already seen.
+ */
+export class Collector {
+    private readonly config: Required<Omit<CollectorConfig, 'onPosts'>> & Pick<CollectorConfig, 'onPosts'>;
+    private stopController: AbortController | null = null;
+
+    constructor(
+        private readonly api: RedditAPI,
+        private readonly storage: Storage,
+        config: CollectorConfig
+    ) {
+        this.config = {
+            sorts: ['new', 'hot'],
+            intervalMs: 15 * 60 * 1000,
+            hotLimit: 100,
+            maxNewPosts: 500,
+            initialLookback: 24 * 60 * 60,
+            ...config
+        };
+    }
+
+    // Takes effect from the next run, e.g. after the tracked subreddits were edited on the Settings page
+    public reconfigure(changes: Partial<Pick<CollectorConfig, 'subreddits' | 'intervalMs'>>) {
+        Object.assign(this.config, changes);
+    }
+
+    public async runOnce(): Promise<CollectorRun> {
+        const startedAt = new Date();
+        const sources: CollectorSourceStats[] = [];
+        let postsStored = 0;
+
+        for (const subreddit of this.config.subreddits) {
+            for (const sort of this.config.sorts) {
+                try {
+                    const posts = sort === 'new'
+                        ? await this.collectNew(subreddit)
+                        : await this.collectHot(subreddit);
+
+                    await this.storage.posts.upsertPosts(posts.map(toStoredPost));
+                    await this.config.onPosts?.(posts);
+                    postsStored += posts.length;
+                    sources.push({ subreddit, sort, postsFetched: posts.length, error: null });
+                } catch (error) {
+                    const message = error instanceof Error ? error.message : 'Unknown error';
+                    console.error(`Collector failed for r/${subreddit}/${sort}:`, message);
+                    sources.push({ subreddit, sort, postsFetched: 0, error: message });
+                }
+            }
+        }
+
+        const run: CollectorRun = {
+            id: randomUUID(),
+            startedAt,
+            finishedAt: new Date(),
+            postsStored,
+            sources,
+            rateLimitRemaining: this.api.getRateLimitState().remaining
+        };
+        await this.storage.collector.saveRun(run);
+        return run;
+    }
+
+    private async collectNew(subreddit: string): Promise<RedditPost[]> {
+        const checkpoint = await this.storage.collector.getCheckpoint(subreddit, 'new');
+        const since = checkpoint?.lastSeenCreatedUtc
+            ?? Math.floor(Date.now() / 1000) - this.config.initialLookback;
+
+        const posts: RedditPost[] = [];
+        for await (const post of this.api.paginate(subreddit, { sort: 'new', since, maxItems: this.config.maxNewPosts })) {
+            posts.push(post);
+        }
+
+        const newest = posts
+            .filter(post => !post.stickied)
+            .reduce<RedditPost | null>((latest, post) => !latest || post.created_utc > latest.created_utc ? post : latest, null);
+
+        if (newest) {
+            await this.storage.collector.saveCheckpoint({
+                subreddit,
+                sort: 'new',
+                lastSeenName: newest.name,
+                lastSeenCreatedUtc: newest.created_utc,
+                updatedAt: new Date()
+            });
+        }
+        return posts;
+    }
+
+    private async collectHot(subreddit: string): Promise<RedditPost[]> {
+        const listing = await this.api.getRecentPosts(subreddit, { sort: 'hot', limit: this.config.hotLimit });
+        await this.storage.collector.saveCheckpoint({
+            subreddit,
+            sort: 'hot',
+            lastSeenName: null,
+            lastSeenCreatedUtc: null,
+            updatedAt: new Date()
+        });
+        return listing.data.children.map(child => child.data);
+    }
+
+    // Runs until stop() is called, waiting `intervalMs` between runs
+    public async start(onRun?: (run: CollectorRun) => void | Promise<void>) {
+        this.stopController = new AbortController();
+        const { signal } = this.stopController;
+
+        while (!signal.aborted) {
+            await onRun?.(await this.runOnce());
+            await new Promise<void>(resolve => {
+                const timer = setTimeout(resolve, this.config.intervalMs);
+                signal.addEventListener('abort', () => {
+                    clearTimeout(timer);
+                    resolve();
+                }, { once: true });
+            });
+        }
+    }
+
+    public stop() {
+        this.stopController?.abort();
+    }
+}
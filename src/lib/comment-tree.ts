@@ -0,0 +1,94 @@
+import type { RedditCommentChild, RedditMore } from './reddit-schemas';
+
+export interface CommentNode {
+    id: string;
+    name: string;
+    author: string;
+    authorFlair: string | null;
+    body: string;
+    score: number;
+    createdUtc: number;
+    permalink: string;
+    depth: number;
+    isSubmitter: boolean;
+    stickied: boolean;
+    replies: CommentNode[];
+    // Replies Reddit knows about that were not loaded (deep threads or unexpanded stubs)
+    moreCount: number;
+}
+
+/**
+ * Assembles Reddit's nested comment listings and the flat `/api/morechildren`
+ * results into a single tree. Comments are attached to their parent by
+ * fullname, so batches can be added in any order as long as parents arrive
+ * before their children, which is how Reddit returns them.
+ */
+export class CommentTreeBuilder {
+    private readonly nodesByName = new Map<string, CommentNode>();
+    private readonly roots: CommentNode[] = [];
+    private readonly pending: RedditMore[] = [];
+    private rootMoreCount = 0;
+
+    public add(children: RedditCommentChild[]) {
+        for (const child of children) {
+            if (child.kind === 'more') {
+                this.pending.push(child.data);
+                continue;
+            }
+
+            const comment = child.data;
+            const node: CommentNode = {
+                id: comment.id,
+                name: comment.name,
+                author: comment.author,
+                authorFlair: comment.author_flair_text,
+                body: comment.body,
+                score: comment.score,
+                createdUtc: comment.created_utc,
+                permalink: comment.permalink,
+                depth: comment.depth,
+                isSubmitter: comment.is_submitter,
+                stickied: comment.stickied,
+                replies: [],
+                moreCount: 0
+            };
+
+            this.nodesByName.set(node.name, node);
+            const parent = this.nodesByName.get(comment.parent_id);
+            if (parent) {
+                parent.replies.push(node);
+            } else {
+                this.roots.push(node);
+            }
+
+            if (comment.replies) {
+                this.add(comment.replies.data.children);
+            }
+        }
+    }
+
+    // Stubs that still need an /api/morechildren call, oldest first
+    public takePending(): RedditMore[] {
+        return this.pending.splice(0, this.pending.length);
+    }
+
+    // Records a stub we will not expand so the UI can say how much is hidden
+    public markUnloaded(more: RedditMore) {
+        // "Continue this thread" stubs have no children and a zero count
+        const hidden = Math.max(more.count, more.children.length, 1);
+        const parent = this.nodesByName.get(more.parent_id);
+        if (parent) {
+            parent.moreCount += hidden;
+        } else {
+            this.rootMoreCount += hidden;
+        }
+    }
+
+    public build(): { comments: CommentNode[]; moreCount: number } {
+        return { comments: this.roots, moreCount: this.rootMoreCount };
+    }
+}
+
+export function countComments(nodes: CommentNode[]): number {
+    return nodes.reduce((total, node) => total + 1 + countComments(node.replies), 0);
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { subscriberGrowth } from './communities';
+import type { SubredditSnapshot } from './storage/types';
+
+function snapshot(capturedAt: string, subscribers: number | null): SubredditSnapshot {
+    return { subreddit: 'bangladesh', capturedAt: new Date(capturedAt), subscribers, activeUsers: null };
+}
+
+describe('subscriberGrowth', () => {
+    it('compares the first and last snapshot', () => {
+        const growth = subscriberGrowth([
+            snapshot('2026-01-01T00:00:00Z', 1000),
+            snapshot('2026-01-05T00:00:00Z', 1020),
+            snapshot('2026-01-11T00:00:00Z', 1100)
+        ]);
+
+        expect(growth).toEqual({ change: 100, percent: 10, perDay: 10, since: new Date('2026-01-01T00:00:00Z') });
+    });
+
+    it('skips snapshots without a subscriber count', () => {
+        const growth = subscriberGrowth([
+            snapshot('2026-01-01T00:00:00Z', null),
+            snapshot('2026-01-02T00:00:00Z', 500),
+            snapshot('2026-01-03T00:00:00Z', 450),
+            snapshot('2026-01-04T00:00:00Z', null)
+        ]);
+
+        expect(growth).toMatchObject({ change: -50, percent: -10, perDay: -50, since: new Date('2026-01-02T00:00:00Z') });
+    });
+
+    it('needs two counted snapshots', () => {
+        expect(subscriberGrowth([])).toBeNull();
+        expect(subscriberGrowth([snapshot('2026-01-01T00:00:00Z', 10), snapshot('2026-01-02T00:00:00Z', null)])).toBeNull();
+    });
+
+    it('has no percentage when the first count was zero', () => {
+        const growth = subscriberGrowth([snapshot('2026-01-01T00:00:00Z', 0), snapshot('2026-01-02T00:00:00Z', 5)]);
+
+        expect(growth?.percent).toBeNull();
+        expect(growth?.change).toBe(5);
+    });
+
+    it('counts snapshots taken minutes apart as an hour for the daily rate', () => {
+        const growth = subscriberGrowth([snapshot('2026-01-01T00:00:00Z', 100), snapshot('2026-01-01T00:05:00Z', 101)]);
+
+        expect(growth?.perDay).toBe(24);
+    });
+});
@@ -0,0 +1,102 @@
+import type { RedditAPI } from './reddit-api';
+import { RedditForbiddenError, RedditNotFoundError } from './reddit-errors';
+import type { SubredditAbout, SubredditRule } from './reddit-schemas';
+import type { Storage, SubredditSnapshot } from './storage/types';
+
+export interface SubscriberGrowth {
+    change: number;
+    // Relative to the first snapshot; null when it had no subscribers
+    percent: number | null;
+    perDay: number;
+    since: Date;
+}
+
+export interface CommunityOverview {
+    name: string;
+    about: SubredditAbout | null;
+    rules: SubredditRule[];
+    // Subscriber counts recorded on earlier visits, oldest first
+    history: SubredditSnapshot[];
+    growth: SubscriberGrowth | null;
+    error?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Reddit HTML-escapes icon URLs; community_icon is the newer, larger one
+export function communityIcon(about: SubredditAbout): string | null {
+    const icon = about.community_icon || about.icon_img;
+    return icon ? icon.replace(/&amp;/g, '&') : null;
+}
+
+// Change between the first and last snapshot that have a subscriber count
+export function subscriberGrowth(history: SubredditSnapshot[]): SubscriberGrowth | null {
+    const counted = history.filter(snapshot => snapshot.subscribers !== null);
+    const first = counted[0];
+    const last = counted[counted.length - 1];
+    if (!first || !last || first === last) {
+        return null;
+    }
+
+    const change = last.subscribers! - first.subscribers!;
+    const days = Math.max((last.capturedAt.getTime() - first.capturedAt.getTime()) / DAY_MS, 1 / 24);
+    return {
+        change,
+        percent: first.subscribers ? (change / first.subscribers) * 100 : null,
+        perDay: change / days,
+        since: first.capturedAt
+    };
+}
+
+export function unavailableReason(error: unknown): string {
+    if (error instanceof RedditForbiddenError) {
+        return error.reason === 'quarantined' ? 'This community is quarantined.' : 'This community is private.';
+    }
+    if (error instanceof RedditNotFoundError) {
+        return error.reason === 'banned' ? 'This community has been banned.' : 'This community does not exist.';
+    }
+    return 'Could not load this community from Reddit.';
+}
+
+/**
+ * Reads each subreddit's about page and rules and records a subscriber
+ * snapshot, so growth builds up across visits. A community that fails to load
+ * still gets an overview with its stored history and an error message.
+ */
+export async function getCommunityOverviews(
+    api: RedditAPI,
+    storage: Storage,
+    subreddits: string[],
+    options: { historyDays?: number; now?: Date } = {}
+): Promise<CommunityOverview[]> {
+    const now = options.now ?? new Date();
+    const from = new Date(now.getTime() - (options.historyDays ?? 30) * DAY_MS);
+
+    return Promise.all(subreddits.map(async (name): Promise<CommunityOverview> => {
+        let about: SubredditAbout | null = null;
+        let rules: SubredditRule[] = [];
+        let error: string | undefined;
+
+        try {
+            [about, rules] = await Promise.all([
+                api.getSubredditAbout(name),
+                // Rules are a nice-to-have; the card is still useful without them
+                api.getSubredditRules(name).catch(() => [])
+            ]);
+            await storage.communities.addSnapshot({
+                subreddit: about.display_name,
+                capturedAt: now,
+                subscribers: about.subscribers,
+                activeUsers: about.active_user_count
+            });
+        } catch (caught) {
+            if (!(caught instanceof RedditForbiddenError || caught instanceof RedditNotFoundError)) {
+                console.error(`Error loading r/${name}:`, caught);
+            }
+            error = unavailableReason(caught);
+        }
+
+        const history = await storage.communities.getHistory(name, { from });
+        return { name: about?.display_name ?? name, about, rules, history, growth: subscriberGrowth(history), error };
+    }));
+}
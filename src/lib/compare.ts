@@ -0,0 +1,161 @@
+import { unavailableReason } from './communities';
+import { extractKeywords } from './keywords';
+import type { RedditAPI } from './reddit-api';
+import { RedditForbiddenError, RedditNotFoundError } from './reddit-errors';
+import type { RedditPost } from './reddit-schemas';
+import { isValidSubredditName } from './subreddits';
+import { median } from './trends';
+
+export const MIN_COMPARED = 2;
+export const MAX_COMPARED = 6;
+
+export const COMPARE_WINDOWS = { day: 1, week: 7, month: 30 } as const;
+export type CompareWindow = keyof typeof COMPARE_WINDOWS;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface AuthorCount {
+    author: string;
+    posts: number;
+}
+
+export interface SubredditMetrics {
+    subreddit: string;
+    posts: number;
+    postsPerDay: number;
+    medianScore: number;
+    commentsPerPost: number;
+    topAuthors: AuthorCount[];
+    // Number of posts mentioning each keyword
+    keywords: Map<string, number>;
+    // The window held more posts than were read, so counts are a lower bound
+    truncated: boolean;
+}
+
+export interface SharedTopic {
+    keyword: string;
+    // Posts mentioning the keyword, per subreddit that has it
+    counts: Record<string, number>;
+}
+
+export type ComparisonEntry =
+    | { subreddit: string; metrics: SubredditMetrics; error?: undefined }
+    | { subreddit: string; metrics?: undefined; error: string };
+
+export interface Comparison {
+    window: CompareWindow;
+    entries: ComparisonEntry[];
+    sharedTopics: SharedTopic[];
+}
+
+// Names from the query string: comma separated or repeated, with or without r/, deduplicated case-insensitively
+export function parseComparedSubreddits(values: (string | string[] | undefined)[]): string[] {
+    const seen = new Set<string>();
+    return values
+        .flat()
+        .flatMap(value => value?.split(',') ?? [])
+        .map(name => name.trim().replace(/^\/?r\//i, ''))
+        .filter(name => {
+            const key = name.toLowerCase();
+            if (!isValidSubredditName(name) || seen.has(key)) {
+                return false;
+            }
+            seen.add(key);
+            return true;
+        });
+}
+
+export function computeMetrics(subreddit: string, posts: RedditPost[], days: number, truncated: boolean = false): SubredditMetrics {
+    const authors = new Map<string, number>();
+    const keywords = new Map<string, number>();
+    let comments = 0;
+
+    for (const post of posts) {
+        comments += post.num_comments;
+        if (post.author !== '[deleted]') {
+            authors.set(post.author, (authors.get(post.author) ?? 0) + 1);
+        }
+        extractKeywords(post.title).forEach(keyword => keywords.set(keyword, (keywords.get(keyword) ?? 0) + 1));
+    }
+
+    return {
+        subreddit,
+        posts: posts.length,
+        postsPerDay: posts.length / days,
+        medianScore: median(posts.map(post => post.score)),
+        commentsPerPost: posts.length ? comments / posts.length : 0,
+        topAuthors: [...authors.entries()]
+            .map(([author, count]) => ({ author, posts: count }))
+            .sort((a, b) => b.posts - a.posts || a.author.localeCompare(b.author))
+            .slice(0, 5),
+        keywords,
+        truncated
+    };
+}
+
+/**
+ * Keywords that at least two subreddits each mention in two or more posts,
+ * most widely shared first and then by how often they come up.
+ */
+export function findSharedTopics(metrics: SubredditMetrics[], limit: number = 20): SharedTopic[] {
+    const topics = new Map<string, Record<string, number>>();
+    for (const { subreddit, keywords } of metrics) {
+        keywords.forEach((count, keyword) => {
+            if (count >= 2) {
+                topics.set(keyword, { ...topics.get(keyword), [subreddit]: count });
+            }
+        });
+    }
+
+    const share = (topic: SharedTopic) => metrics.reduce(
+        (sum, { subreddit, posts }) => sum + (posts ? (topic.counts[subreddit] ?? 0) / posts : 0),
+        0
+    );
+
+    return [...topics.entries()]
+        .map(([keyword, counts]) => ({ keyword, counts }))
+        .filter(topic => Object.keys(topic.counts).length >= 2)
+        .sort((a, b) => Object.keys(b.counts).length - Object.keys(a.counts).length || share(b) - share(a))
+        .slice(0, limit);
+}
+
+/**
+ * Reads each subreddit's `new` listing back to the start of the window, all
+ * subreddits at once. One that cannot be read gets an error entry instead of
+ * failing the whole comparison.
+ */
+export async function compareSubreddits(
+    api: RedditAPI,
+    subreddits: string[],
+    window: CompareWindow,
+    options: { maxPostsPerSubreddit?: number; now?: Date } = {}
+): Promise<Comparison> {
+    const { maxPostsPerSubreddit = 1000, now = new Date() } = options;
+    const days = COMPARE_WINDOWS[window];
+    const since = (now.getTime() - days * DAY_MS) / 1000;
+
+    const results = await Promise.allSettled(subreddits.map(async subreddit => {
+        const posts: RedditPost[] = [];
+        for await (const post of api.paginate(subreddit, { sort: 'new', since, maxItems: maxPostsPerSubreddit })) {
+            posts.push(post);
+        }
+        return computeMetrics(subreddit, posts, days, posts.length >= maxPostsPerSubreddit);
+    }));
+
+    const entries = results.map((result, index): ComparisonEntry => {
+        const subreddit = subreddits[index];
+        if (result.status === 'fulfilled') {
+            return { subreddit, metrics: result.value };
+        }
+        if (!(result.reason instanceof RedditForbiddenError || result.reason instanceof RedditNotFoundError)) {
+            console.error(`Error comparing r/${subreddit}:`, result.reason);
+        }
+        return { subreddit, error: unavailableReason(result.reason) };
+    });
+
+    return {
+        window,
+        entries,
+        sharedTopics: findSharedTopics(entries.flatMap(entry => entry.metrics ?? []))
+    };
+}
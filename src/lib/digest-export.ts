@@ -0,0 +1,82 @@
+import type { Digest, DigestPostRef } from './storage/types';
+
+function escapeHtml(text: string) {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+// Brackets in titles would otherwise end the link text early
+function escapeMarkdown(text: string) {
+    return text.replace(/([\\[\]*_`])/g, '\\$1');
+}
+
+function markdownLink(post: DigestPostRef) {
+    return `[${escapeMarkdown(post.title)}](${post.permalink}) (${post.score} points, ${post.numComments} comments)`;
+}
+
+export function digestToMarkdown(digest: Digest): string {
+    const lines = [
+        `# r/${digest.subreddit} digest: ${digest.date}`,
+        '',
+        `**${escapeMarkdown(digest.headline)}**`,
+        '',
+        '## Topics',
+        ''
+    ];
+
+    digest.topics.forEach(topic => {
+        lines.push(`### ${escapeMarkdown(topic.title)}`, '', escapeMarkdown(topic.summary), '');
+        topic.posts.forEach(post => lines.push(`- ${markdownLink(post)}`));
+        lines.push('');
+    });
+
+    if (digest.notablePosts.length > 0) {
+        lines.push('## Notable posts', '');
+        digest.notablePosts.forEach(post => lines.push(`- ${markdownLink(post)}: ${escapeMarkdown(post.reason)}`));
+        lines.push('');
+    }
+
+    lines.push('## Community mood', '', escapeMarkdown(digest.mood), '');
+    lines.push(`_Generated from ${digest.postCount} posts by ${digest.model}._`, '');
+    return lines.join('\n');
+}
+
+function htmlLink(post: DigestPostRef) {
+    return `<a href="${escapeHtml(post.permalink)}">${escapeHtml(post.title)}</a> (${post.score} points, ${post.numComments} comments)`;
+}
+
+export function digestToHtml(digest: Digest): string {
+    const title = `r/${escapeHtml(digest.subreddit)} digest: ${digest.date}`;
+    const topics = digest.topics.map(topic => [
+        `<h3>${escapeHtml(topic.title)}</h3>`,
+        `<p>${escapeHtml(topic.summary)}</p>`,
+        topic.posts.length > 0
+            ? `<ul>${topic.posts.map(post => `<li>${htmlLink(post)}</li>`).join('')}</ul>`
+            : ''
+    ].join('\n')).join('\n');
+
+    const notable = digest.notablePosts.length > 0
+        ? `<h2>Notable posts</h2>\n<ul>${digest.notablePosts.map(post => `<li>${htmlLink(post)}: ${escapeHtml(post.reason)}</li>`).join('')}</ul>`
+        : '';
+
+    return [
+        '<!DOCTYPE html>',
+        '<html lang="en">',
+        `<head><meta charset="utf-8"><title>${title}</title></head>`,
+        '<body>',
+        `<h1>${title}</h1>`,
+        `<p><strong>${escapeHtml(digest.headline)}</strong></p>`,
+        '<h2>Topics</h2>',
+        topics,
+        notable,
+        '<h2>Community mood</h2>',
+        `<p>${escapeHtml(digest.mood)}</p>`,
+        `<p><em>Generated from ${digest.postCount} posts by ${escapeHtml(digest.model)}.</em></p>`,
+        '</body>',
+        '</html>'
+    ].join('\n');
+}
@@ -0,0 +1,158 @@
+import { z } from 'zod';
+import { extractKeywords } from './keywords';
+import { LLMClient, LLMResponseError, parseJsonResponse } from './llm';
+import type { RedditAPI } from './reddit-api';
+import type { RedditPost } from './reddit-schemas';
+import type { Digest, DigestPostRef } from './storage/types';
+
+export interface TopicCluster {
+    // Most common keywords across the cluster's posts
+    keywords: string[];
+    posts: RedditPost[];
+}
+
+// Posts sharing at least this share of keywords with a cluster join it
+const CLUSTER_SIMILARITY = 0.2;
+
+function postKeywords(post: RedditPost) {
+    return extractKeywords(`${post.title} ${post.selftext.slice(0, 300)}`);
+}
+
+/**
+ * Greedy keyword clustering: posts are visited by score and join the
+ * cluster whose keywords they overlap most, or start a new one. Crude, but
+ * enough to group a day's posts into topics before handing them to the LLM.
+ */
+export function clusterPosts(posts: RedditPost[]): TopicCluster[] {
+    const clusters: Array<{ counts: Map<string, number>; posts: RedditPost[] }> = [];
+
+    for (const post of [...posts].sort((a, b) => b.score - a.score)) {
+        const keywords = postKeywords(post);
+
+        let best: (typeof clusters)[number] | null = null;
+        let bestSimilarity = 0;
+        for (const cluster of clusters) {
+            const shared = keywords.filter(keyword => cluster.counts.has(keyword)).length;
+            const similarity = keywords.length ? shared / keywords.length : 0;
+            if (similarity > bestSimilarity) {
+                best = cluster;
+                bestSimilarity = similarity;
+            }
+        }
+
+        const target = best && bestSimilarity >= CLUSTER_SIMILARITY ? best : { counts: new Map<string, number>(), posts: [] };
+        if (target !== best) {
+            clusters.push(target);
+        }
+        target.posts.push(post);
+        keywords.forEach(keyword => target.counts.set(keyword, (target.counts.get(keyword) ?? 0) + 1));
+    }
+
+    return clusters
+        .map(cluster => ({
+            keywords: [...cluster.counts.entries()]
+                .sort((a, b) => b[1] - a[1])
+                .slice(0, 3)
+                .map(([keyword]) => keyword),
+            posts: cluster.posts
+        }))
+        .sort((a, b) => b.posts.length - a.posts.length);
+}
+
+const DigestResponseSchema = z.object({
+    headline: z.string(),
+    topics: z.array(z.object({
+        title: z.string(),
+        summary: z.string(),
+        postIds: z.array(z.string())
+    })),
+    notablePosts: z.array(z.object({
+        postId: z.string(),
+        reason: z.string()
+    })),
+    mood: z.string()
+});
+
+function toPostRef(post: RedditPost): DigestPostRef {
+    return {
+        id: post.id,
+        title: post.title,
+        permalink: `https://reddit.com${post.permalink}`,
+        score: post.score,
+        numComments: post.num_comments
+    };
+}
+
+export function buildDigestPrompt(subreddit: string, date: string, clusters: TopicCluster[]) {
+    const clusterText = clusters.map((cluster, index) => [
+        `Group ${index + 1} (keywords: ${cluster.keywords.join(', ') || 'none'}):`,
+        ...cluster.posts.map(post =>
+            `- [${post.id}] ${post.title} (${post.score} points, ${post.num_comments} comments)` +
+            (post.selftext ? `: ${post.selftext.replace(/\s+/g, ' ').slice(0, 200)}` : '')
+        )
+    ].join('\n')).join('\n\n');
+
+    return [
+        `Write a daily briefing about r/${subreddit} for ${date}. Respond with JSON only, using this shape:`,
+        '{"headline": string, "topics": [{"title": string, "summary": string, "postIds": string[]}], "notablePosts": [{"postId": string, "reason": string}], "mood": string}',
+        '- "headline": one sentence capturing the day.',
+        '- "topics": the main subjects discussed, most important first, each with a two-sentence summary and the ids of its posts. Merge or split the pre-grouped posts below where that reads better.',
+        '- "notablePosts": up to five posts worth reading in full and why.',
+        '- "mood": one or two sentences on the mood of the community.',
+        'Post ids are shown in square brackets. Write in English even when posts are not.',
+        '',
+        clusterText
+    ].join('\n');
+}
+
+export async function generateDigest(
+    llm: LLMClient,
+    subreddit: string,
+    date: string,
+    posts: RedditPost[]
+): Promise<Digest> {
+    const clusters = clusterPosts(posts);
+    const text = await llm.generate(buildDigestPrompt(subreddit, date, clusters), { json: true, temperature: 0.3 });
+
+    const parsed = DigestResponseSchema.safeParse(parseJsonResponse(text));
+    if (!parsed.success) {
+        throw new LLMResponseError('Model returned a digest in an unexpected shape', text);
+    }
+
+    // Links come from our own data, never from the model, so they cannot be hallucinated
+    const postsById = new Map(posts.map(post => [post.id, post]));
+    const refsFor = (ids: string[]) => ids
+        .map(id => postsById.get(id.replace(/^t3_/, '')))
+        .filter((post): post is RedditPost => post !== undefined)
+        .map(toPostRef);
+
+    return {
+        subreddit,
+        date,
+        headline: parsed.data.headline,
+        topics: parsed.data.topics.map(topic => ({
+            title: topic.title,
+            summary: topic.summary,
+            posts: refsFor(topic.postIds)
+        })),
+        notablePosts: parsed.data.notablePosts.flatMap(notable => {
+            const [ref] = refsFor([notable.postId]);
+            return ref ? [{ ...ref, reason: notable.reason }] : [];
+        }),
+        mood: parsed.data.mood,
+        postCount: posts.length,
+        model: llm.model,
+        createdAt: new Date()
+    };
+}
+
+export function utcDate(date: Date = new Date()) {
+    return date.toISOString().slice(0, 10);
+}
+
+// Builds today's digest from the day's top posts
+export async function generateDailyDigest(api: RedditAPI, llm: LLMClient, subreddit: string, limit: number = 50) {
+    const listing = await api.getRecentPosts(subreddit, { sort: 'top', time: 'day', limit });
+    const posts = listing.data.children.map(child => child.data);
+    return generateDigest(llm, subreddit, utcDate(), posts);
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it, vi } from 'vitest';
+import { csvField, DEFAULT_EXPORT_COLUMNS, exportPosts, parseExportColumns, postExportRow } from './export';
+import { RedditPostSchema, type RedditPost } from './reddit-schemas';
+
+function post(overrides: Record<string, unknown> = {}): RedditPost {
+    return RedditPostSchema.parse({
+        id: 'abc',
+        name: 't3_abc',
+        title: 'Title',
+        author: 'author',
+        score: 10,
+        created_utc: 1767225600,
+        url: 'https://example.com',
+        permalink: '/r/test/comments/abc/',
+        num_comments: 2,
+        subreddit: 'test',
+        subreddit_name_prefixed: 'r/test',
+        ...overrides
+    });
+}
+
+async function* fromArray(posts: RedditPost[]) {
+    yield* posts;
+}
+
+async function* failingAfterFirst(first: RedditPost): AsyncGenerator<RedditPost> {
+    yield first;
+    throw new Error('Reddit went away');
+}
+
+describe('csvField', () => {
+    it('quotes separators, quotes, line breaks and surrounding spaces', () => {
+        expect(csvField('plain')).toBe('plain');
+        expect(csvField('a, b')).toBe('"a, b"');
+        expect(csvField('say "hi"')).toBe('"say ""hi"""');
+        expect(csvField('line\nbreak')).toBe('"line\nbreak"');
+        expect(csvField(' padded')).toBe('" padded"');
+    });
+
+    it('keeps text that starts like a formula as text', () => {
+        expect(csvField('=HYPERLINK("http://evil")')).toBe('"\'=HYPERLINK(""http://evil"")"');
+        expect(csvField('+1')).toBe("'+1");
+        expect(csvField('-1')).toBe("'-1");
+        expect(csvField('@SUM(A1)')).toBe("'@SUM(A1)");
+        expect(csvField('\tTab')).toBe("'\tTab");
+    });
+
+    it('writes numbers, booleans and empty values as they are', () => {
+        expect(csvField(-5)).toBe('-5');
+        expect(csvField(false)).toBe('false');
+        expect(csvField(null)).toBe('');
+        expect(csvField(undefined)).toBe('');
+    });
+});
+
+describe('parseExportColumns', () => {
+    it('keeps known columns once, in the order given', () => {
+        expect(parseExportColumns('score, title,bogus,score')).toEqual(['score', 'title']);
+    });
+
+    it('falls back to the default columns', () => {
+        expect(parseExportColumns('')).toEqual(DEFAULT_EXPORT_COLUMNS);
+        expect(parseExportColumns(null)).toEqual(DEFAULT_EXPORT_COLUMNS);
+    });
+});
+
+describe('postExportRow', () => {
+    it('adds dates and an absolute permalink', () => {
+        const row = postExportRow(post({ edited: 1767229200 }));
+
+        expect(row).toMatchObject({
+            created_at: '2026-01-01T00:00:00.000Z',
+            edited_at: '2026-01-01T01:00:00.000Z',
+            permalink: 'https://www.reddit.com/r/test/comments/abc/'
+        });
+        expect(postExportRow(post()).edited_at).toBeNull();
+    });
+
+    it('flattens nested fields into dotted columns and keeps lists as JSON', () => {
+        const row = postExportRow(post({
+            media: { reddit_video: { fallback_url: 'https://v.redd.it/abc', duration: 12 } },
+            preview: { images: [{ source: { url: 'https://i.redd.it/abc.jpg', width: 640, height: 480 } }] }
+        }));
+
+        expect(row['media.reddit_video.fallback_url']).toBe('https://v.redd.it/abc');
+        expect(row['media.reddit_video.duration']).toBe(12);
+        expect(JSON.parse(String(row['preview.images']))).toEqual([{ source: { url: 'https://i.redd.it/abc.jpg', width: 640, height: 480 } }]);
+    });
+});
+
+describe('exportPosts', () => {
+    it('writes a CSV header and one escaped row per post', async () => {
+        const posts = [post({ title: 'Hello, world' }), post({ id: 'def', selftext: 'two\nlines' })];
+
+        const body = await exportPosts(fromArray(posts), 'csv', ['id', 'title', 'selftext']);
+
+        expect(await new Response(body).text()).toBe('id,title,selftext\r\nabc,"Hello, world",\r\ndef,Title,"two\nlines"\r\n');
+    });
+
+    it('writes JSON Lines with only the chosen columns', async () => {
+        const body = await exportPosts(fromArray([post()]), 'jsonl', ['id', 'media.reddit_video.fallback_url']);
+
+        expect(await new Response(body).text()).toBe('{"id":"abc","media.reddit_video.fallback_url":null}\n');
+    });
+
+    it('fails the stream when a later page cannot be read', async () => {
+        const logged = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+        const body = await exportPosts(failingAfterFirst(post()), 'jsonl', ['id']);
+
+        await expect(new Response(body).text()).rejects.toThrow('Reddit went away');
+        expect(logged).toHaveBeenCalled();
+        logged.mockRestore();
+    });
+});
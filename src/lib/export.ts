@@ -0,0 +1,155 @@
+import type { RedditPost } from './reddit-schemas';
+
+export type ExportFormat = 'csv' | 'jsonl';
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'jsonl'];
+
+export const EXPORT_COLUMNS = [
+    'id',
+    'name',
+    'subreddit',
+    'title',
+    'selftext',
+    'author',
+    'author_flair_text',
+    'link_flair_text',
+    'score',
+    'upvote_ratio',
+    'num_comments',
+    'created_utc',
+    'created_at',
+    'edited_at',
+    'url',
+    'permalink',
+    'is_self',
+    'over_18',
+    'stickied',
+    'media.reddit_video.fallback_url',
+    'media.reddit_video.duration',
+    'media.oembed.provider_name',
+    'media.oembed.title',
+    'preview.images'
+] as const;
+
+export type ExportColumn = typeof EXPORT_COLUMNS[number];
+
+export const DEFAULT_EXPORT_COLUMNS: ExportColumn[] = [
+    'id',
+    'subreddit',
+    'title',
+    'selftext',
+    'author',
+    'link_flair_text',
+    'score',
+    'num_comments',
+    'created_at',
+    'permalink'
+];
+
+type ExportValue = string | number | boolean | null;
+
+// Keeps the known columns from a comma-separated list, in the order given
+export function parseExportColumns(value: string | null | undefined): ExportColumn[] {
+    const columns = (value ?? '')
+        .split(',')
+        .map(column => column.trim())
+        .filter((column): column is ExportColumn => EXPORT_COLUMNS.includes(column as ExportColumn));
+    return columns.length > 0 ? [...new Set(columns)] : DEFAULT_EXPORT_COLUMNS;
+}
+
+/**
+ * Nested objects become dotted keys (`a.b`) and arrays are kept as JSON, so
+ * every value fits in a single CSV cell.
+ */
+export function flattenRecord(value: Record<string, unknown>, prefix: string = ''): Record<string, ExportValue> {
+    const flat: Record<string, ExportValue> = {};
+    for (const [key, field] of Object.entries(value)) {
+        const name = prefix ? `${prefix}.${key}` : key;
+        if (field === null || field === undefined) {
+            flat[name] = null;
+        } else if (Array.isArray(field)) {
+            flat[name] = JSON.stringify(field);
+        } else if (typeof field === 'object') {
+            Object.assign(flat, flattenRecord(field as Record<string, unknown>, name));
+        } else {
+            flat[name] = field as ExportValue;
+        }
+    }
+    return flat;
+}
+
+export function postExportRow(post: RedditPost): Record<string, ExportValue> {
+    const { edited, ...rest } = post;
+    return flattenRecord({
+        ...rest,
+        created_at: new Date(post.created_utc * 1000).toISOString(),
+        // Reddit reports unedited posts as `false`
+        edited_at: typeof edited === 'number' ? new Date(edited * 1000).toISOString() : null,
+        permalink: `https://www.reddit.com${post.permalink}`
+    });
+}
+
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * RFC 4180: fields with quotes, separators or line breaks are quoted, and
+ * quotes doubled. Text that a spreadsheet would read as a formula, such as a
+ * title starting with `=`, is prefixed with `'` so it stays text.
+ */
+export function csvField(value: ExportValue | undefined): string {
+    if (value === null || value === undefined) {
+        return '';
+    }
+    const text = typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : String(value);
+    return /[",\r\n]|^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function formatRow(row: Record<string, ExportValue>, format: ExportFormat, columns: ExportColumn[]): string {
+    if (format === 'csv') {
+        return columns.map(column => csvField(row[column])).join(',') + '\r\n';
+    }
+    return JSON.stringify(Object.fromEntries(columns.map(column => [column, row[column] ?? null]))) + '\n';
+}
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+    csv: 'text/csv; charset=utf-8',
+    jsonl: 'application/x-ndjson; charset=utf-8'
+};
+
+/**
+ * Streams posts as CSV or JSON Lines while they are paged in from Reddit.
+ * The first post is fetched before the stream is returned, so a subreddit
+ * that cannot be read fails the request instead of producing an empty file.
+ */
+export async function exportPosts(
+    posts: AsyncIterator<RedditPost>,
+    format: ExportFormat,
+    columns: ExportColumn[]
+): Promise<ReadableStream<Uint8Array>> {
+    const encoder = new TextEncoder();
+    let next = await posts.next();
+
+    return new ReadableStream<Uint8Array>({
+        start(controller) {
+            if (format === 'csv') {
+                controller.enqueue(encoder.encode(columns.map(csvField).join(',') + '\r\n'));
+            }
+        },
+        async pull(controller) {
+            if (next.done) {
+                controller.close();
+                return;
+            }
+            controller.enqueue(encoder.encode(formatRow(postExportRow(next.value), format, columns)));
+            try {
+                next = await posts.next();
+            } catch (error) {
+                console.error('Error exporting posts:', error);
+                controller.error(error);
+            }
+        },
+        async cancel() {
+            await posts.return?.();
+        }
+    });
+}
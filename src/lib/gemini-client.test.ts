@@ -0,0 +1,37 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { GeminiClient, GeminiError } from './gemini-client';
+
+const client = new GeminiClient({ apiKey: 'key', baseUrl: 'https://gemini.test' });
+
+describe('GeminiClient over REST', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('returns the text of the first candidate', async () => {
+        const fetch = vi.fn(async () => Response.json({ candidates: [{ content: { parts: [{ text: 'Hello' }, { text: '!' }] } }] }));
+        vi.stubGlobal('fetch', fetch);
+
+        await expect(client.generate('Hi')).resolves.toBe('Hello!');
+        expect(fetch).toHaveBeenCalledWith('https://gemini.test/models/gemini-1.5-flash:generateContent', expect.objectContaining({
+            method: 'POST',
+            headers: expect.objectContaining({ 'x-goog-api-key': 'key' })
+        }));
+    });
+
+    it('reports network failures as GeminiError', async () => {
+        vi.stubGlobal('fetch', vi.fn(async () => {
+            throw new TypeError('fetch failed');
+        }));
+
+        await expect(client.generate('Hi')).rejects.toBeInstanceOf(GeminiError);
+    });
+
+    it('reports HTTP errors and unreadable bodies as GeminiError', async () => {
+        vi.stubGlobal('fetch', vi.fn(async () => new Response('quota exceeded', { status: 429 })));
+        await expect(client.generate('Hi')).rejects.toMatchObject({ name: 'GeminiError', status: 429 });
+
+        vi.stubGlobal('fetch', vi.fn(async () => new Response('<html>', { status: 200 })));
+        await expect(client.listModels()).rejects.toBeInstanceOf(GeminiError);
+    });
+});
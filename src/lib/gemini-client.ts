@@ -0,0 +1,184 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import type { GenerateOptions, LLMClient } from './llm';
+
+export interface GeminiModel {
+    name: string;
+    displayName: string;
+    description: string;
+    inputTokenLimit: number;
+    outputTokenLimit: number;
+    temperature?: number;
+    maxTemperature?: number;
+    supportedGenerationMethods?: string[];
+}
+
+interface ModelsResponse {
+    models: GeminiModel[];
+    nextPageToken?: string;
+}
+
+interface GeminiResponse {
+    candidates?: Array<{
+        content?: {
+            parts?: Array<{
+                text?: string;
+            }>;
+        };
+        finishReason?: string;
+    }>;
+    promptFeedback?: {
+        blockReason?: string;
+    };
+}
+
+export interface GeminiConfig {
+    apiKey: string;
+    model?: string;
+    temperature?: number;
+    maxOutputTokens?: number;
+    // `sdk` goes through @google/generative-ai, `rest` calls the HTTP API directly
+    mode?: 'sdk' | 'rest';
+    baseUrl?: string;
+}
+
+export class GeminiError extends Error {
+    constructor(message: string, public readonly status: number | null = null) {
+        super(message);
+        this.name = 'GeminiError';
+    }
+}
+
+export class GeminiClient implements LLMClient {
+    public readonly model: string;
+    private readonly config: GeminiConfig;
+    private sdk: GoogleGenerativeAI | null = null;
+
+    public static readonly DEFAULT_MODEL = 'gemini-1.5-flash';
+    private static readonly DEFAULT_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta';
+
+    constructor(config: GeminiConfig) {
+        this.config = config;
+        this.model = config.model ?? GeminiClient.DEFAULT_MODEL;
+    }
+
+    private get baseUrl() {
+        return (this.config.baseUrl ?? GeminiClient.DEFAULT_BASE_URL).replace(/\/+$/, '');
+    }
+
+    // Network failures and unreadable bodies surface as GeminiError, like API errors
+    private async fetchJson<T>(path: string, init: RequestInit = {}): Promise<T> {
+        let response: Response;
+        try {
+            response = await fetch(`${this.baseUrl}${path}`, {
+                ...init,
+                headers: { ...init.headers, 'x-goog-api-key': this.config.apiKey }
+            });
+        } catch (error) {
+            throw new GeminiError(`Request failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+
+        if (!response.ok) {
+            throw new GeminiError(`API Error (HTTP ${response.status}): ${await response.text().catch(() => '')}`, response.status);
+        }
+        try {
+            return await response.json() as T;
+        } catch (error) {
+            throw new GeminiError(`Unreadable response: ${error instanceof Error ? error.message : String(error)}`, response.status);
+        }
+    }
+
+    private generationConfig(options: GenerateOptions) {
+        return {
+            temperature: options.temperature ?? this.config.temperature,
+            maxOutputTokens: options.maxOutputTokens ?? this.config.maxOutputTokens,
+            responseMimeType: options.json ? 'application/json' : undefined
+        };
+    }
+
+    public async generate(prompt: string, options: GenerateOptions = {}): Promise<string> {
+        return this.config.mode === 'sdk'
+            ? this.generateWithSDK(prompt, options)
+            : this.generateWithREST(prompt, options);
+    }
+
+    private async generateWithSDK(prompt: string, options: GenerateOptions) {
+        if (!this.sdk) {
+            this.sdk = new GoogleGenerativeAI(this.config.apiKey);
+        }
+
+        const model = this.sdk.getGenerativeModel({
+            model: this.model,
+            generationConfig: this.generationConfig(options)
+        });
+
+        try {
+            const result = await model.generateContent(prompt);
+            return result.response.text();
+        } catch (error) {
+            throw new GeminiError(error instanceof Error ? error.message : 'Unknown SDK error');
+        }
+    }
+
+    private async generateWithREST(prompt: string, options: GenerateOptions) {
+        const result = await this.fetchJson<GeminiResponse>(`/models/${this.model}:generateContent`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                contents: [{
+                    parts: [{ text: prompt }]
+                }],
+                generationConfig: this.generationConfig(options)
+            })
+        });
+        if (result.promptFeedback?.blockReason) {
+            throw new GeminiError(`Prompt was blocked: ${result.promptFeedback.blockReason}`);
+        }
+
+        const text = result.candidates?.[0]?.content?.parts?.map(part => part.text ?? '').join('');
+        if (!text) {
+            throw new GeminiError(`Unexpected response format: ${JSON.stringify(result)}`);
+        }
+        return text;
+    }
+
+    // The SDK has no model listing, so this always goes through REST
+    public async listModels(): Promise<GeminiModel[]> {
+        const models: GeminiModel[] = [];
+        let pageToken: string | undefined;
+
+        do {
+            const query = new URLSearchParams({ pageSize: '100' });
+            if (pageToken) {
+                query.set('pageToken', pageToken);
+            }
+
+            const data = await this.fetchJson<ModelsResponse>(`/models?${query.toString()}`);
+            models.push(...data.models);
+            pageToken = data.nextPageToken;
+        } while (pageToken);
+
+        return models;
+    }
+
+    public async getModelInfo(name: string = this.model): Promise<GeminiModel | null> {
+        const models = await this.listModels();
+        return models.find(model => model.name === `models/${name}` || model.name === name) ?? null;
+    }
+}
+
+// Gemini client configured from GEMINI_* env vars, or null when no API key is set
+export function createGeminiClient(overrides: Partial<GeminiConfig> = {}): GeminiClient | null {
+    const apiKey = overrides.apiKey ?? process.env.GEMINI_API_KEY;
+    if (!apiKey) {
+        return null;
+    }
+
+    return new GeminiClient({
+        apiKey,
+        model: process.env.GEMINI_MODEL || undefined,
+        temperature: process.env.GEMINI_TEMPERATURE ? Number(process.env.GEMINI_TEMPERATURE) : undefined,
+        maxOutputTokens: process.env.GEMINI_MAX_OUTPUT_TOKENS ? Number(process.env.GEMINI_MAX_OUTPUT_TOKENS) : undefined,
+        mode: process.env.GEMINI_MODE === 'sdk' ? 'sdk' : 'rest',
+        ...overrides
+    });
+}
@@ -0,0 +1,44 @@
+import { segmentWords } from './language';
+
+const graphemes = new Intl.Segmenter(undefined, { granularity: 'grapheme' });
+
+const STOPWORDS = new Set([
+    'a', 'about', 'after', 'all', 'also', 'am', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'been',
+    'before', 'being', 'but', 'by', 'can', 'could', 'did', 'do', 'does', 'doing', 'dont', 'for', 'from',
+    'get', 'got', 'had', 'has', 'have', 'he', 'her', 'here', 'him', 'his', 'how', 'i', 'if', 'im', 'in',
+    'into', 'is', 'it', 'its', 'just', 'like', 'me', 'more', 'most', 'my', 'new', 'no', 'not', 'now',
+    'of', 'on', 'one', 'only', 'or', 'other', 'our', 'out', 'over', 'people', 'so', 'some', 'such',
+    'than', 'that', 'the', 'their', 'them', 'then', 'there', 'these', 'they', 'this', 'those', 'to',
+    'too', 'up', 'us', 'very', 'was', 'we', 'were', 'what', 'when', 'where', 'which', 'who', 'why',
+    'will', 'with', 'would', 'you', 'your', 'anyone', 'any', 'should', 'still', 'really', 'today',
+    // Bangla
+    'এবং', 'ও', 'কি', 'কী', 'না', 'এই', 'ওই', 'সেই', 'যে', 'আমি', 'আমার', 'আমরা', 'আমাদের', 'তুমি',
+    'তোমার', 'আপনি', 'আপনার', 'সে', 'তার', 'তারা', 'তাদের', 'এটা', 'ওটা', 'এটি', 'করে', 'করা',
+    'হয়', 'হয়ে', 'হবে', 'ছিল', 'আছে', 'নেই', 'থেকে', 'জন্য', 'দিয়ে', 'নিয়ে', 'কিন্তু', 'আর',
+    'একটা', 'একটি', 'কোন', 'কোনো', 'কেন', 'তো', 'যদি', 'তবে', 'সব', 'শুধু', 'আরও', 'এখন', 'কেউ',
+    // Banglish
+    'ami', 'amar', 'amra', 'amader', 'tumi', 'tomar', 'apni', 'apnar', 'ache', 'achi', 'nai', 'nei',
+    'hobe', 'hoy', 'kore', 'kora', 'theke', 'jonno', 'diye', 'niye', 'kintu', 'keno', 'ekta', 'kono',
+    'eta', 'ota', 'shob', 'tara', 'tader', 'ekhon', 'onek', 'bhai', 'vai', 'kichu', 'jodi', 'tahole'
+// segmentWords hands back NFC text, so the Bangla entries must be NFC too
+].map(word => word.normalize('NFC')));
+
+const BENGALI_WORD = /[ঀ-৿]/;
+
+/**
+ * Lower-cased words without stopwords or numbers. Words are split by
+ * Intl.Segmenter rather than an ASCII pattern, so Bangla script survives;
+ * Bangla words need two graphemes, Latin ones three letters.
+ */
+export function tokenize(text: string): string[] {
+    return segmentWords(text.toLowerCase().replace(/['’]/g, ''))
+        .filter(token => !STOPWORDS.has(token) && !/^[\d০-৯]+$/.test(token))
+        .filter(token => BENGALI_WORD.test(token)
+            ? [...graphemes.segment(token)].length >= 2
+            : token.length >= 3);
+}
+
+// Distinct keywords of a text, in order of first appearance
+export function extractKeywords(text: string): string[] {
+    return [...new Set(tokenize(text))];
+}
@@ -0,0 +1,76 @@
+// `banglish` is Bangla written in Latin script, common on r/Bangladesh
+export type Language = 'en' | 'bn' | 'banglish' | 'other';
+
+export const LANGUAGE_NAMES: Record<Language, string> = {
+    en: 'English',
+    bn: 'Bangla',
+    banglish: 'Banglish',
+    other: 'Other'
+};
+
+// Frequent romanized Bangla words that are not also common English words
+const BANGLISH_MARKERS = new Set([
+    'ami', 'amar', 'amake', 'amra', 'amader', 'tumi', 'tomar', 'tomake', 'apni', 'apnar', 'apnara',
+    'kemon', 'acho', 'achen', 'achi', 'ache', 'nai', 'nei', 'hobe', 'hoy', 'hoye', 'hoise', 'hoyeche',
+    'korbo', 'kori', 'kore', 'korte', 'korechi', 'kintu', 'keno', 'ekhon', 'onek', 'bhalo', 'valo',
+    'kharap', 'bhai', 'vai', 'apu', 'eta', 'ota', 'shob', 'sob', 'kichu', 'kisu', 'theke', 'jonno',
+    'diye', 'niye', 'ekta', 'kono', 'jodi', 'tahole', 'bolo', 'bolen', 'jani', 'janina', 'lagbe',
+    'dekhi', 'dekhen', 'khub', 'aro', 'abar', 'tader', 'tara', 'oder', 'ke', 'ki', 'na'
+]);
+
+const graphemeSegmenter = new Intl.Segmenter(undefined, { granularity: 'grapheme' });
+const wordSegmenter = new Intl.Segmenter('bn', { granularity: 'word' });
+
+const BENGALI_LETTER = /[ঀ-৿]/;
+const LATIN_LETTER = /[a-z]/i;
+
+// Words as the segmenter sees them, so Bangla vowel signs and conjuncts stay attached
+export function segmentWords(text: string): string[] {
+    return [...wordSegmenter.segment(text.normalize('NFC'))]
+        .filter(segment => segment.isWordLike)
+        .map(segment => segment.segment);
+}
+
+/**
+ * Guesses the language of a text from its script, then tells Banglish from
+ * English by how many words are common romanized Bangla. Short or mixed
+ * texts are a guess at best, which is fine for labelling and for deciding
+ * whether a translation is worth offering.
+ */
+export function detectLanguage(text: string): Language {
+    let bengali = 0;
+    let latin = 0;
+    let letters = 0;
+    for (const char of text) {
+        if (BENGALI_LETTER.test(char)) {
+            bengali++;
+        } else if (LATIN_LETTER.test(char)) {
+            latin++;
+        }
+        if (char.toLowerCase() !== char.toUpperCase() || BENGALI_LETTER.test(char)) {
+            letters++;
+        }
+    }
+
+    if (letters === 0) {
+        return 'other';
+    }
+    if (bengali / letters >= 0.3) {
+        return 'bn';
+    }
+    if (latin / letters < 0.5) {
+        return 'other';
+    }
+
+    const words = text.toLowerCase().split(/[^a-z]+/).filter(Boolean);
+    const markers = words.filter(word => BANGLISH_MARKERS.has(word)).length;
+    return markers >= 2 && markers / words.length >= 0.15 ? 'banglish' : 'en';
+}
+
+// Cuts on grapheme boundaries, so conjuncts and emoji are never split in half
+export function truncateGraphemes(text: string, maxGraphemes: number, ellipsis: string = '…') {
+    const graphemes = [...graphemeSegmenter.segment(text)].map(segment => segment.segment);
+    return graphemes.length > maxGraphemes
+        ? `${graphemes.slice(0, maxGraphemes).join('').trimEnd()}${ellipsis}`
+        : text;
+}
@@ -0,0 +1,48 @@
+export interface GenerateOptions {
+    temperature?: number;
+    maxOutputTokens?: number;
+    // Ask the model to answer with a JSON document
+    json?: boolean;
+}
+
+// The small surface the analysis features need from a language model
+export interface LLMClient {
+    readonly model: string;
+    generate(prompt: string, options?: GenerateOptions): Promise<string>;
+}
+
+export class LLMResponseError extends Error {
+    constructor(message: string, public readonly response: string) {
+        super(message);
+        this.name = 'LLMResponseError';
+    }
+}
+
+/**
+ * Parses a JSON answer, tolerating the ```json fences models like to add
+ * even when asked for bare JSON.
+ */
+export function parseJsonResponse(text: string): unknown {
+    const unfenced = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+    try {
+        return JSON.parse(unfenced);
+    } catch {
+        throw new LLMResponseError('Model did not return valid JSON', text);
+    }
+}
+
+/**
+ * Canned-response stand-in for tests and local development. Responses are
+ * produced by the given function and every prompt is recorded.
+ */
+export class FakeLLMClient implements LLMClient {
+    public readonly model = 'fake-llm';
+    public readonly prompts: string[] = [];
+
+    constructor(private readonly respond: (prompt: string) => string) {}
+
+    public async generate(prompt: string) {
+        this.prompts.push(prompt);
+        return this.respond(prompt);
+    }
+}
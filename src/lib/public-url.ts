@@ -0,0 +1,99 @@
+import dns from 'dns';
+import net, { BlockList, type LookupFunction } from 'net';
+
+// Loopback, private, link-local (cloud metadata), carrier-grade NAT, multicast and reserved ranges.
+// Separate lists, because a BlockList also matches IPv4 addresses against IPv6 rules such as ::/96
+const PRIVATE_IPV4 = new BlockList();
+const PRIVATE_IPV6 = new BlockList();
+for (const [network, prefix] of [
+    ['0.0.0.0', 8],
+    ['10.0.0.0', 8],
+    ['100.64.0.0', 10],
+    ['127.0.0.0', 8],
+    ['169.254.0.0', 16],
+    ['172.16.0.0', 12],
+    ['192.0.0.0', 24],
+    ['192.168.0.0', 16],
+    ['198.18.0.0', 15],
+    ['224.0.0.0', 4],
+    ['240.0.0.0', 4]
+] as const) {
+    PRIVATE_IPV4.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+    // Unspecified, loopback and IPv4-compatible
+    ['::', 96],
+    // IPv4-mapped and NAT64, which reach IPv4 hosts
+    ['::ffff:0:0', 96],
+    ['64:ff9b::', 96],
+    ['fc00::', 7],
+    ['fe80::', 10],
+    ['ff00::', 8]
+] as const) {
+    PRIVATE_IPV6.addSubnet(network, prefix, 'ipv6');
+}
+
+export class PrivateAddressError extends Error {
+    static readonly code = 'EPRIVATEADDRESS';
+    public readonly code = PrivateAddressError.code;
+
+    constructor(host: string) {
+        super(`${host} points to a private or local network address`);
+        this.name = 'PrivateAddressError';
+    }
+}
+
+// For local testing against `npm run mock-alerts`
+function privateAddressesAllowed() {
+    return process.env.ALLOW_PRIVATE_WEBHOOKS === 'true';
+}
+
+export function isPrivateAddress(address: string): boolean {
+    switch (net.isIP(address)) {
+        case 4:
+            return PRIVATE_IPV4.check(address, 'ipv4');
+        case 6:
+            return PRIVATE_IPV6.check(address, 'ipv6');
+        default:
+            return false;
+    }
+}
+
+/**
+ * Resolves the URL's host and throws a PrivateAddressError when any of its
+ * addresses is private, so the server cannot be made to call internal services.
+ */
+export async function assertPublicUrl(url: string | URL) {
+    if (privateAddressesAllowed()) {
+        return;
+    }
+
+    // URL keeps IPv6 literals in brackets
+    const host = new URL(url).hostname.replace(/^\[|\]$/g, '');
+    const addresses = net.isIP(host)
+        ? [host]
+        : (await dns.promises.lookup(host, { all: true })).map(entry => entry.address);
+    if (addresses.some(isPrivateAddress)) {
+        throw new PrivateAddressError(host);
+    }
+}
+
+/**
+ * A `lookup` for http(s) agents that refuses private addresses when the
+ * connection is made, so a host cannot pass `assertPublicUrl` and then
+ * resolve somewhere else.
+ */
+export const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+    dns.lookup(hostname, options, (error, address, family) => {
+        if (error || privateAddressesAllowed()) {
+            callback(error, address, family);
+            return;
+        }
+        const addresses = typeof address === 'string' ? [address] : address.map(entry => entry.address);
+        if (addresses.some(isPrivateAddress)) {
+            callback(new PrivateAddressError(hostname), address, family);
+            return;
+        }
+        callback(null, address, family);
+    });
+};
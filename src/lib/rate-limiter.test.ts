@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RedditRateLimiter } from './rate-limiter';
+
+describe('RedditRateLimiter', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    it('reads the budget from the X-Ratelimit headers', () => {
+        const limiter = new RedditRateLimiter();
+        limiter.update({ 'x-ratelimit-remaining': '42.0', 'x-ratelimit-used': '58', 'x-ratelimit-reset': '120' });
+
+        expect(limiter.getState()).toEqual({ remaining: 42, used: 58, resetAt: Date.now() + 120_000 });
+    });
+
+    it('ignores missing or malformed headers', () => {
+        const limiter = new RedditRateLimiter();
+        limiter.update({ 'x-ratelimit-remaining': '10' });
+        limiter.update({ 'x-ratelimit-remaining': 'n/a' });
+
+        expect(limiter.getState()).toEqual({ remaining: 10, used: null, resetAt: null });
+    });
+
+    it('counts each acquired request against the remaining budget', async () => {
+        const limiter = new RedditRateLimiter(0);
+        limiter.update({ 'x-ratelimit-remaining': '10', 'x-ratelimit-reset': '60' });
+
+        await limiter.acquire();
+        await limiter.acquire();
+
+        expect(limiter.getState().remaining).toBe(8);
+    });
+
+    it('waits for the window to reset once only the reserve is left', async () => {
+        const limiter = new RedditRateLimiter(5);
+        limiter.update({ 'x-ratelimit-remaining': '5', 'x-ratelimit-reset': '30' });
+
+        let released = false;
+        const turn = limiter.acquire().then(() => {
+            released = true;
+        });
+
+        await vi.advanceTimersByTimeAsync(29_000);
+        expect(released).toBe(false);
+
+        await vi.advanceTimersByTimeAsync(1_000);
+        await turn;
+        expect(released).toBe(true);
+        expect(limiter.getState()).toEqual({ remaining: null, used: null, resetAt: null });
+    });
+
+    it('holds every queued request while paused', async () => {
+        const limiter = new RedditRateLimiter();
+        limiter.pause(10_000);
+
+        const released: number[] = [];
+        const turns = [1, 2].map(id => limiter.acquire().then(() => released.push(id)));
+
+        await vi.advanceTimersByTimeAsync(9_999);
+        expect(released).toEqual([]);
+
+        await vi.advanceTimersByTimeAsync(1);
+        await Promise.all(turns);
+        expect(released).toEqual([1, 2]);
+    });
+});
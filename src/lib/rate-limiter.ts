@@ -0,0 +1,73 @@
+export interface RateLimitState {
+    remaining: number | null;
+    used: number | null;
+    resetAt: number | null; // Unix timestamp in milliseconds
+}
+
+export function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Tracks the budget Reddit reports through the X-Ratelimit-* headers and
+ * holds requests back once it is nearly spent. Requests are released one at
+ * a time so a burst of callers cannot overrun the remaining budget.
+ */
+export class RedditRateLimiter {
+    private state: RateLimitState = { remaining: null, used: null, resetAt: null };
+    private queue: Promise<void> = Promise.resolve();
+    private pausedUntil = 0;
+
+    // Number of requests kept in reserve before we start waiting for the window to reset
+    constructor(private readonly reserve: number = 5) {}
+
+    public getState(): RateLimitState {
+        return { ...this.state };
+    }
+
+    public update(headers: Record<string, string>) {
+        const remaining = Number.parseFloat(headers['x-ratelimit-remaining']);
+        const used = Number.parseFloat(headers['x-ratelimit-used']);
+        const reset = Number.parseFloat(headers['x-ratelimit-reset']);
+
+        if (Number.isFinite(remaining)) {
+            this.state.remaining = remaining;
+        }
+        if (Number.isFinite(used)) {
+            this.state.used = used;
+        }
+        if (Number.isFinite(reset)) {
+            this.state.resetAt = Date.now() + reset * 1000;
+        }
+    }
+
+    // Blocks every queued request for at least `ms`, e.g. after a 429
+    public pause(ms: number) {
+        this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+    }
+
+    public acquire(): Promise<void> {
+        const turn = this.queue.then(() => this.waitForBudget());
+        // Keep the queue alive even if a waiter is rejected
+        this.queue = turn.catch(() => undefined);
+        return turn;
+    }
+
+    private async waitForBudget() {
+        const now = Date.now();
+        if (this.pausedUntil > now) {
+            await sleep(this.pausedUntil - now);
+        }
+
+        const { remaining, resetAt } = this.state;
+        if (remaining !== null && remaining <= this.reserve && resetAt !== null && resetAt > Date.now()) {
+            console.warn(`Reddit rate limit nearly exhausted (${remaining} left), waiting ${Math.ceil((resetAt - Date.now()) / 1000)}s`);
+            await sleep(resetAt - Date.now());
+            this.state = { remaining: null, used: null, resetAt: null };
+        }
+
+        if (this.state.remaining !== null) {
+            this.state.remaining -= 1;
+        }
+    }
+}
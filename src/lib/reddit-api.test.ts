@@ -0,0 +1,195 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RedditAPI, type RedditAPIConfig } from './reddit-api';
+import { RedditRateLimitError, RedditServerError } from './reddit-errors';
+import type { HttpRequest, HttpResponse, HttpTransport } from './reddit-transport';
+
+// Answers token grants itself and hands every other request to `respond`
+class FakeTransport implements HttpTransport {
+    public readonly requests: HttpRequest[] = [];
+
+    constructor(private readonly respond: (request: HttpRequest) => HttpResponse) {}
+
+    public async send(request: HttpRequest): Promise<HttpResponse> {
+        if (request.url.endsWith('/api/v1/access_token')) {
+            return json({ access_token: 'token', expires_in: 3600, scope: '*' });
+        }
+        this.requests.push(request);
+        return this.respond(request);
+    }
+}
+
+function json(body: unknown, status: number = 200, headers: Record<string, string> = {}): HttpResponse {
+    return { status, headers, body: JSON.stringify(body) };
+}
+
+function createClient(transport: HttpTransport, config: Partial<RedditAPIConfig> = {}) {
+    return new RedditAPI({
+        clientId: 'id',
+        clientSecret: 'secret',
+        grant: { type: 'client_credentials' },
+        transport,
+        authBaseUrl: 'https://auth.test',
+        apiBaseUrl: 'https://api.test',
+        ...config
+    });
+}
+
+// Token grants and retries log as they go
+beforeEach(() => {
+    vi.spyOn(console, 'debug').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+    vi.restoreAllMocks();
+});
+
+describe('RedditAPI', () => {
+    it('sends requests through the configured transport with the access token', async () => {
+        const transport = new FakeTransport(() => json({ name: 'tester' }));
+        const api = createClient(transport);
+
+        await api.makeRequest('/api/v1/me');
+
+        expect(transport.requests).toHaveLength(1);
+        expect(transport.requests[0].url).toBe('https://api.test/api/v1/me');
+        expect(transport.requests[0].headers.Authorization).toBe('bearer token');
+    });
+});
+
+describe('RedditAPI retries', () => {
+    // Fails with the given responses first, then succeeds
+    function failingThenOk(failures: HttpResponse[]) {
+        let calls = 0;
+        return new FakeTransport(() => failures[calls++] ?? json({ ok: true }));
+    }
+
+    it('waits out a short Retry-After and tries again', async () => {
+        const transport = failingThenOk([json({}, 429, { 'retry-after': '0' })]);
+        const api = createClient(transport);
+
+        await expect(api.makeRequest('/r/test/new.json')).resolves.toEqual({ ok: true });
+        expect(transport.requests).toHaveLength(2);
+    });
+
+    it('fails at once with RedditRateLimitError when Retry-After is over the cap', async () => {
+        const transport = failingThenOk([json({}, 429, { 'retry-after': '600' })]);
+        const api = createClient(transport);
+
+        const error = await api.makeRequest('/r/test/new.json').catch((caught: unknown) => caught);
+        expect(error).toBeInstanceOf(RedditRateLimitError);
+        expect((error as RedditRateLimitError).retryAfterMs).toBe(600_000);
+        expect(transport.requests).toHaveLength(1);
+    });
+
+    it('takes the cap from maxRetryAfterMs', async () => {
+        const transport = failingThenOk([json({}, 429, { 'retry-after': '2' })]);
+        const api = createClient(transport, { maxRetryAfterMs: 1_000 });
+
+        await expect(api.makeRequest('/r/test/new.json')).rejects.toBeInstanceOf(RedditRateLimitError);
+        expect(transport.requests).toHaveLength(1);
+    });
+
+    it('gives up on server errors after maxRetries', async () => {
+        const transport = new FakeTransport(() => json({}, 503));
+        const api = createClient(transport, { maxRetries: 2, retryBaseDelayMs: 0 });
+
+        await expect(api.makeRequest('/r/test/new.json')).rejects.toBeInstanceOf(RedditServerError);
+        expect(transport.requests).toHaveLength(3);
+    });
+});
+
+function post(id: string, createdUtc: number, extra: Record<string, unknown> = {}) {
+    return {
+        kind: 't3',
+        data: {
+            id,
+            name: `t3_${id}`,
+            title: `Post ${id}`,
+            author: 'author',
+            score: 1,
+            created_utc: createdUtc,
+            url: `https://reddit.com/r/test/${id}`,
+            permalink: `/r/test/comments/${id}/`,
+            num_comments: 0,
+            subreddit: 'test',
+            subreddit_name_prefixed: 'r/test',
+            ...extra
+        }
+    };
+}
+
+// Serves `pages` in order, keyed by the `after` cursor of the previous page
+function listingTransport(pages: Array<ReturnType<typeof post>[]>) {
+    return new FakeTransport(request => {
+        const after = new URL(request.url).searchParams.get('after');
+        const index = after ? Number(after.replace('page', '')) : 0;
+        const children = pages[index] ?? [];
+        return json({
+            kind: 'Listing',
+            data: { children, after: index + 1 < pages.length ? `page${index + 1}` : null, before: null }
+        });
+    });
+}
+
+async function collect<T>(items: AsyncIterable<T>) {
+    const collected: T[] = [];
+    for await (const item of items) {
+        collected.push(item);
+    }
+    return collected;
+}
+
+describe('RedditAPI.paginate', () => {
+    it('follows after cursors and yields posts that shift between pages once', async () => {
+        const transport = listingTransport([
+            [post('a', 300), post('b', 200)],
+            [post('b', 200), post('c', 100)]
+        ]);
+        const api = createClient(transport);
+
+        const posts = await collect(api.paginate('test', { sort: 'hot' }));
+
+        expect(posts.map(item => item.id)).toEqual(['a', 'b', 'c']);
+        expect(transport.requests).toHaveLength(2);
+        expect(new URL(transport.requests[1].url).searchParams.get('after')).toBe('page1');
+    });
+
+    it('stops after maxItems without reading further pages', async () => {
+        const transport = listingTransport([
+            [post('a', 300), post('b', 200)],
+            [post('c', 100)]
+        ]);
+        const api = createClient(transport);
+
+        const posts = await collect(api.paginate('test', { maxItems: 2 }));
+
+        expect(posts.map(item => item.id)).toEqual(['a', 'b']);
+        expect(transport.requests).toHaveLength(1);
+    });
+
+    it('ends a new listing at the first post older than since, past pinned posts', async () => {
+        const transport = listingTransport([
+            [post('pinned', 10, { stickied: true }), post('a', 300), post('b', 200)],
+            [post('old', 50), post('older', 40)]
+        ]);
+        const api = createClient(transport);
+
+        const posts = await collect(api.paginate('test', { sort: 'new', since: 100 }));
+
+        expect(posts.map(item => item.id)).toEqual(['a', 'b']);
+        expect(transport.requests).toHaveLength(2);
+    });
+
+    it('only skips old posts on other sorts, where they are not in date order', async () => {
+        const transport = listingTransport([
+            [post('old', 50), post('a', 300)],
+            [post('b', 200)]
+        ]);
+        const api = createClient(transport);
+
+        const posts = await collect(api.paginate('test', { sort: 'hot', since: 100 }));
+
+        expect(posts.map(item => item.id)).toEqual(['a', 'b']);
+    });
+});
@@ -1,197 +1,541 @@
-import puppeteer, { Browser, Page } from 'puppeteer';
+import { z } from 'zod';
+import { FetchTransport, HttpRequest, HttpResponse, HttpTransport } from './reddit-transport';
+import {
+    RedditAuthError,
+    RedditForbiddenError,
+    RedditNetworkError,
+    RedditNotFoundError,
+    RedditRateLimitError,
+    RedditValidationError,
+    errorFromResponse,
+    isRetryableError
+} from './reddit-errors';
+import { RedditRateLimiter, sleep } from './rate-limiter';
+import type { RedditResponseCache } from './reddit-cache';
+import {
+    RedditCommentChildSchema,
+    RedditPost,
+    RedditPostListingSchema,
+    RedditUser,
+    RedditUserCommentListingSchema,
+    RedditUserSchema,
+    RedditUserThingSchema,
+    SubredditAbout,
+    SubredditAboutThingSchema,
+    SubredditRule,
+    SubredditRulesSchema,
+    redditListing
+} from './reddit-schemas';
+import { CommentNode, CommentTreeBuilder } from './comment-tree';
 
-interface TokenInfo {
+export interface TokenInfo {
     accessToken: string;
     expiresAt: number; // Unix timestamp in milliseconds
+    scopes: string[];
 }
 
-interface RedditAPIConfig {
+// Where a client keeps its access token, so a restarted process can reuse it until it expires
+export interface AccessTokenStore {
+    load(): Promise<TokenInfo | null>;
+    save(token: TokenInfo): Promise<void>;
+}
+
+// How the client obtains access tokens from /api/v1/access_token
+export type RedditGrant =
+    // Script apps acting as the account that owns them; Reddit discourages this for anything else
+    | { type: 'password'; username: string; password: string }
+    // App-only access to public, read-only data
+    | { type: 'client_credentials' }
+    // Code from the authorize redirect; it is exchanged once and the client then uses the refresh token it gets back
+    | { type: 'authorization_code'; code: string; redirectUri: string }
+    // A refresh token stored from an earlier authorization-code exchange
+    | { type: 'refresh_token'; refreshToken: string };
+
+export interface RedditAPIConfig {
     clientId: string;
     clientSecret: string;
-    username: string;
-    password: string;
+    grant: RedditGrant;
+    // Called whenever Reddit hands out a new refresh token, so it can be stored
+    onRefreshToken?: (refreshToken: string) => void | Promise<void>;
+    tokenStore?: AccessTokenStore;
+    // Defaults to FetchTransport; pass a PuppeteerTransport where plain requests get blocked
+    transport?: HttpTransport;
+    // Base URLs can be pointed at a local mock server
+    authBaseUrl?: string;
+    apiBaseUrl?: string;
+    userAgent?: string;
+    // Retries for 429, 5xx and network failures (default 3)
+    maxRetries?: number;
+    // First backoff delay; doubles on each attempt, with jitter (default 1000)
+    retryBaseDelayMs?: number;
+    // Longest Retry-After a request waits out; when Reddit asks for more it fails with RedditRateLimitError (default 30000)
+    maxRetryAfterMs?: number;
+    // Requests kept in reserve before waiting for the rate-limit window to reset (default 5)
+    rateLimitReserve?: number;
+    // GET responses are served from here when given
+    cache?: RedditResponseCache | null;
+    // Keeps cached responses of clients acting as different accounts apart (default 'app')
+    cacheNamespace?: string;
+}
+
+export type ListingSort = 'hot' | 'new' | 'top' | 'rising';
+export type ListingTime = 'hour' | 'day' | 'week' | 'month' | 'year' | 'all';
+
+export interface RecentPostsOptions {
+    limit?: number;
+    after?: string;
+    sort?: ListingSort;
+    time?: ListingTime;
+}
+
+export interface PaginateOptions {
+    sort?: ListingSort;
+    time?: ListingTime;
+    // Cursor to resume from, as returned in a listing's `after`
+    after?: string;
+    // Posts requested per page, capped at 100 by Reddit
+    pageSize?: number;
+    // Stop after yielding this many posts
+    maxItems?: number;
+    // Skip posts created before this Unix timestamp (seconds); on `new` this also ends the walk
+    since?: number;
+}
+
+type PostListing = z.infer<typeof RedditPostListingSchema>;
+
+export type SearchSort = 'relevance' | 'hot' | 'top' | 'new' | 'comments';
+// `link` finds posts, `sr` finds subreddits
+export type SearchType = 'link' | 'sr';
+
+export interface SearchOptions {
+    // Search within this subreddit via /r/{sub}/search
+    subreddit?: string;
+    sort?: SearchSort;
+    time?: ListingTime;
+    type?: SearchType;
+    // Only applies with `subreddit`; without it Reddit also returns posts from elsewhere (default true)
+    restrictSr?: boolean;
+    limit?: number;
+    after?: string;
+}
+
+export type UserListingSort = 'new' | 'hot' | 'top' | 'controversial';
+
+export interface UserListingOptions {
+    sort?: UserListingSort;
+    // Only applies to `top` and `controversial`
+    time?: ListingTime;
+    limit?: number;
+    after?: string;
+}
+
+type UserCommentListing = z.infer<typeof RedditUserCommentListingSchema>;
+
+const SubredditSearchListingSchema = redditListing(SubredditAboutThingSchema);
+type SubredditSearchListing = z.infer<typeof SubredditSearchListingSchema>;
+
+export type CommentSort = 'confidence' | 'top' | 'new' | 'controversial' | 'old' | 'qa';
+
+export interface CommentsOptions {
+    sort?: CommentSort;
+    // Maximum nesting depth Reddit should return
+    depth?: number;
+    // Maximum number of comments Reddit should return in the first response
+    limit?: number;
+    // Upper bound on /api/morechildren calls used to expand "load more" stubs
+    maxMoreRequests?: number;
+}
+
+export interface CommentThread {
+    post: RedditPost;
+    comments: CommentNode[];
+    // Top-level comments that were not loaded
+    moreCount: number;
+}
+
+// Availability of a subreddit as reported by /r/{name}/about
+export type SubredditStatus = 'ok' | 'not_found' | 'banned' | 'private' | 'quarantined';
+
+export interface RequestOptions<T> {
+    method?: string;
+    body?: unknown;
+    headers?: Record<string, string>;
+    // When given, the response is parsed with it and a RedditValidationError is thrown on mismatch
+    schema?: z.ZodType<T, z.ZodTypeDef, unknown>;
 }
 
+const CommentsResponseSchema = z.tuple([
+    RedditPostListingSchema,
+    redditListing(RedditCommentChildSchema)
+]);
+
+const MoreChildrenResponseSchema = z.object({
+    json: z.object({
+        errors: z.array(z.unknown()).default([]),
+        data: z.object({
+            things: z.array(RedditCommentChildSchema)
+        }).optional()
+    })
+});
+
 interface RedditTokenResponse {
     access_token: string;
     expires_in: number;
     token_type: string;
     scope: string;
+    refresh_token?: string;
+    // Some grant failures come back as HTTP 200 with only this field
+    error?: string;
 }
 
 export class RedditAPI {
-    private browser: Browser | null = null;
-    private page: Page | null = null;
+    private readonly transport: HttpTransport;
     private tokenInfo: TokenInfo | null = null;
+    private tokenRequest: Promise<TokenInfo> | null = null;
+    private storedTokenChecked = false;
+    private refreshToken: string | null;
     private readonly config: RedditAPIConfig;
+    private readonly rateLimiter: RedditRateLimiter;
     
-    // Time buffer before token expiry (1 hour) to refresh the token
-    private static readonly TOKEN_REFRESH_BUFFER = 60 * 60 * 1000; // 1 hour in milliseconds
+    // Tokens are renewed this long before they expire; Reddit issues them for an hour
+    private static readonly TOKEN_REFRESH_BUFFER = 5 * 60 * 1000;
+
+    private static readonly DEFAULT_AUTH_BASE_URL = 'https://ssl.reddit.com';
+    private static readonly DEFAULT_API_BASE_URL = 'https://oauth.reddit.com';
+    private static readonly DEFAULT_USER_AGENT = 'PostmanRuntime/7.32.3';
+    private static readonly MAX_BACKOFF_DELAY = 30 * 1000;
     
     constructor(config: RedditAPIConfig) {
         this.config = config;
+        this.refreshToken = config.grant.type === 'refresh_token' ? config.grant.refreshToken : null;
+        this.transport = config.transport ?? new FetchTransport();
+        this.rateLimiter = new RedditRateLimiter(config.rateLimitReserve);
+    }
+
+    // Scopes of the current access token, empty before the first request
+    public getGrantedScopes(): string[] {
+        return this.tokenInfo?.scopes ?? [];
+    }
+
+    public getRateLimitState() {
+        return this.rateLimiter.getState();
+    }
+
+    private get authBaseUrl() {
+        return (this.config.authBaseUrl ?? RedditAPI.DEFAULT_AUTH_BASE_URL).replace(/\/+$/, '');
+    }
+
+    private get apiBaseUrl() {
+        return (this.config.apiBaseUrl ?? RedditAPI.DEFAULT_API_BASE_URL).replace(/\/+$/, '');
+    }
+
+    private get defaultHeaders(): Record<string, string> {
+        return {
+            'User-Agent': this.config.userAgent ?? RedditAPI.DEFAULT_USER_AGENT,
+            'Accept': '*/*',
+            'Cache-Control': 'no-cache'
+        };
     }
     
-    private async initBrowser() {
-        if (!this.browser) {
-            this.browser = await puppeteer.launch({
-                headless: true,
-                args: [
-                    '--no-sandbox',
-                    '--disable-setuid-sandbox',
-                    '--disable-web-security',
-                    '--disable-features=IsolateOrigins,site-per-process',
-                    '--ignore-certificate-errors',
-                    '--ignore-certificate-errors-spki-list',
-                    '--allow-insecure-localhost'
-                ]
-            });
+    private grantForm(): URLSearchParams {
+        // Once an authorization code has been exchanged, only its refresh token is usable
+        if (this.refreshToken) {
+            return new URLSearchParams({ grant_type: 'refresh_token', refresh_token: this.refreshToken });
         }
-        
-        if (!this.page) {
-            this.page = await this.browser.newPage();
-            await this.setupPage(this.page);
+
+        const { grant } = this.config;
+        switch (grant.type) {
+            case 'password':
+                return new URLSearchParams({ grant_type: 'password', username: grant.username, password: grant.password });
+            case 'client_credentials':
+                return new URLSearchParams({ grant_type: 'client_credentials' });
+            case 'authorization_code':
+                return new URLSearchParams({ grant_type: 'authorization_code', code: grant.code, redirect_uri: grant.redirectUri });
+            case 'refresh_token':
+                return new URLSearchParams({ grant_type: 'refresh_token', refresh_token: grant.refreshToken });
         }
-        
-        return { browser: this.browser, page: this.page };
     }
-    
-    private async setupPage(page: Page) {
-        await page.setViewport({ width: 1280, height: 800 });
-        await page.setUserAgent('PostmanRuntime/7.32.3');
-        await page.setRequestInterception(true);
-        
-        page.on('request', request => {
-            console.debug('Making request:', request.url());
-            request.continue();
-        });
-        
-        page.on('response', async response => {
-            const status = response.status();
-            if (status !== 200) {
-                try {
-                    const text = await response.text();
-                    console.warn('Non-200 response:', response.url(), status, text);
-                } catch (e) {
-                    console.warn('Could not read error response body');
-                }
-            }
+
+    private async postToAuth(endpoint: string, form: URLSearchParams): Promise<HttpResponse> {
+        const credentials = Buffer.from(`${this.config.clientId}:${this.config.clientSecret}`).toString('base64');
+
+        return this.send({
+            method: 'POST',
+            url: `${this.authBaseUrl}${endpoint}`,
+            headers: {
+                ...this.defaultHeaders,
+                'Authorization': `Basic ${credentials}`,
+                'Content-Type': 'application/x-www-form-urlencoded'
+            },
+            body: form.toString()
         });
     }
-    
+
     private async getNewAccessToken(): Promise<TokenInfo> {
-        const { page } = await this.initBrowser();
-        
-        await page.goto('about:blank');
-        
-        const response = await page.evaluate(async (config) => {
-            return new Promise<RedditTokenResponse>((resolve, reject) => {
-                const xhr = new XMLHttpRequest();
-                xhr.open('POST', 'https://ssl.reddit.com/api/v1/access_token', true);
-                
-                xhr.setRequestHeader('Authorization', `Basic ${btoa(`${config.clientId}:${config.clientSecret}`)}`);
-                xhr.setRequestHeader('Content-Type', 'application/x-www-form-urlencoded');
-                xhr.setRequestHeader('User-Agent', 'PostmanRuntime/7.32.3');
-                xhr.setRequestHeader('Accept', '*/*');
-                xhr.setRequestHeader('Accept-Encoding', 'gzip, deflate, br');
-                xhr.setRequestHeader('Connection', 'keep-alive');
-                xhr.setRequestHeader('Cache-Control', 'no-cache');
-                
-                xhr.onload = function() {
-                    if (this.status >= 200 && this.status < 300) {
-                        resolve(JSON.parse(this.responseText));
-                    } else {
-                        reject(new Error(`HTTP ${this.status}: ${this.responseText}`));
-                    }
-                };
-                
-                xhr.onerror = () => reject(new Error('Network request failed'));
-                
-                const formData = new URLSearchParams();
-                formData.append('grant_type', 'password');
-                formData.append('username', config.username);
-                formData.append('password', config.password);
-                
-                xhr.send(formData.toString());
-            });
-        }, this.config);
-        
-        const expiresAt = Date.now() + (response.expires_in * 1000);
+        const response = await this.postToAuth('/api/v1/access_token', this.grantForm());
+
+        if (response.status < 200 || response.status >= 300) {
+            const error = errorFromResponse(response, '/api/v1/access_token');
+            // Bad client credentials come back as 401, bad user credentials or revoked tokens as 400 or 403
+            throw isRetryableError(error)
+                ? error
+                : new RedditAuthError(`Could not obtain access token (HTTP ${response.status})`, response.status, response.body);
+        }
+
+        const token: RedditTokenResponse = JSON.parse(response.body);
+        if (token.error || !token.access_token) {
+            throw new RedditAuthError(`Could not obtain access token (${token.error ?? 'no token in response'})`, response.status, response.body);
+        }
+
+        if (token.refresh_token && token.refresh_token !== this.refreshToken) {
+            this.refreshToken = token.refresh_token;
+            await this.config.onRefreshToken?.(token.refresh_token);
+        }
+
+        const expiresAt = Date.now() + (token.expires_in * 1000);
         return {
-            accessToken: response.access_token,
-            expiresAt
+            accessToken: token.access_token,
+            expiresAt,
+            // App-only and password tokens report `*`
+            scopes: (token.scope ?? '').split(/[\s,]+/).filter(Boolean)
         };
     }
+
+    // Invalidates the refresh token (and the access tokens issued from it), e.g. when a user disconnects
+    public async revokeRefreshToken() {
+        if (!this.refreshToken) {
+            return;
+        }
+
+        const form = new URLSearchParams({ token: this.refreshToken, token_type_hint: 'refresh_token' });
+        const response = await this.postToAuth('/api/v1/revoke_token', form);
+        if (response.status < 200 || response.status >= 300) {
+            throw errorFromResponse(response, '/api/v1/revoke_token');
+        }
+        this.refreshToken = null;
+        this.tokenInfo = null;
+    }
     
+    private static isUsable(token: TokenInfo | null): token is TokenInfo {
+        return token !== null && Date.now() + RedditAPI.TOKEN_REFRESH_BUFFER < token.expiresAt;
+    }
+
     private async ensureValidToken(): Promise<string> {
-        const now = Date.now();
-        
-        // If we have no token or the token is expired/about to expire, get a new one
-        if (!this.tokenInfo || now + RedditAPI.TOKEN_REFRESH_BUFFER >= this.tokenInfo.expiresAt) {
-            console.debug('Getting new access token...');
-            this.tokenInfo = await this.getNewAccessToken();
-        }
-        
+        if (!RedditAPI.isUsable(this.tokenInfo)) {
+            // Concurrent requests wait on the same grant instead of each starting one
+            this.tokenRequest ??= this.acquireToken().finally(() => {
+                this.tokenRequest = null;
+            });
+            this.tokenInfo = await this.tokenRequest;
+        }
         return this.tokenInfo.accessToken;
     }
+
+    // The stored token is only tried once; after that, e.g. on a 401, a new grant is needed
+    private async acquireToken(): Promise<TokenInfo> {
+        const { tokenStore } = this.config;
+        if (tokenStore && !this.storedTokenChecked) {
+            this.storedTokenChecked = true;
+            const stored = await tokenStore.load().catch(error => {
+                console.warn('Could not load the stored Reddit access token:', error);
+                return null;
+            });
+            if (RedditAPI.isUsable(stored)) {
+                return stored;
+            }
+        }
+
+        console.debug('Getting new access token...');
+        const token = await this.getNewAccessToken();
+        await tokenStore?.save(token).catch(error => {
+            console.warn('Could not store the Reddit access token:', error);
+        });
+        return token;
+    }
     
-    public async makeRequest<T>(endpoint: string, options: {
-        method?: string;
-        body?: any;
-        headers?: Record<string, string>;
-    } = {}): Promise<T> {
-        const accessToken = await this.ensureValidToken();
-        const { page } = await this.initBrowser();
-        
-        await page.goto('about:blank');
-        
-        const response = await page.evaluate(async ({ endpoint, accessToken, options }) => {
-            return new Promise((resolve, reject) => {
-                const xhr = new XMLHttpRequest();
-                xhr.open(options.method || 'GET', `https://oauth.reddit.com${endpoint}`, true);
-                
-                // Set default headers
-                xhr.setRequestHeader('Authorization', `bearer ${accessToken}`);
-                xhr.setRequestHeader('User-Agent', 'PostmanRuntime/7.32.3');
-                xhr.setRequestHeader('Accept', '*/*');
-                xhr.setRequestHeader('Accept-Encoding', 'gzip, deflate, br');
-                xhr.setRequestHeader('Connection', 'keep-alive');
-                xhr.setRequestHeader('Cache-Control', 'no-cache');
-                
-                // Add custom headers
-                if (options.headers) {
-                    Object.entries(options.headers).forEach(([key, value]) => {
-                        xhr.setRequestHeader(key, value);
-                    });
+    private async send(request: HttpRequest): Promise<HttpResponse> {
+        try {
+            return await this.transport.send(request);
+        } catch (error) {
+            throw new RedditNetworkError(`Network request to ${request.url} failed`, error);
+        }
+    }
+
+    private get maxRetryAfterMs() {
+        return this.config.maxRetryAfterMs ?? RedditAPI.MAX_BACKOFF_DELAY;
+    }
+
+    private backoffDelay(attempt: number, error: unknown): number {
+        if (error instanceof RedditRateLimitError && error.retryAfterMs !== null) {
+            return error.retryAfterMs;
+        }
+        // Exponential backoff with full jitter
+        const baseDelay = this.config.retryBaseDelayMs ?? 1000;
+        const ceiling = Math.min(baseDelay * 2 ** attempt, RedditAPI.MAX_BACKOFF_DELAY);
+        return Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+    }
+    
+    public async makeRequest<T>(endpoint: string, options: RequestOptions<T> = {}): Promise<T> {
+        const { cache, cacheNamespace = 'app' } = this.config;
+        if (cache && (options.method ?? 'GET') === 'GET' && options.body === undefined) {
+            return cache.fetch(cacheNamespace, endpoint, () => this.requestWithRetries(endpoint, options));
+        }
+        return this.requestWithRetries(endpoint, options);
+    }
+
+    private async requestWithRetries<T>(endpoint: string, options: RequestOptions<T>): Promise<T> {
+        const maxRetries = this.config.maxRetries ?? 3;
+        let refreshedToken = false;
+
+        for (let attempt = 0; ; attempt++) {
+            try {
+                return await this.sendAuthorized<T>(endpoint, options);
+            } catch (error) {
+                // An expired or revoked token gets one fresh grant before giving up
+                if (error instanceof RedditAuthError && error.status === 401 && !refreshedToken) {
+                    refreshedToken = true;
+                    this.tokenInfo = null;
+                    continue;
                 }
-                
-                xhr.onload = function() {
-                    if (this.status >= 200 && this.status < 300) {
-                        resolve(JSON.parse(this.responseText));
-                    } else {
-                        reject(new Error(`HTTP ${this.status}: ${this.responseText}`));
-                    }
-                };
-                
-                xhr.onerror = () => reject(new Error('Network request failed'));
-                
-                xhr.send(options.body ? JSON.stringify(options.body) : null);
-            });
-        }, { endpoint, accessToken, options });
-        
-        return response as T;
+
+                if (!isRetryableError(error) || attempt >= maxRetries) {
+                    throw error;
+                }
+                // Rather than hold the caller for minutes, let it fail and try again later
+                if (error instanceof RedditRateLimitError && (error.retryAfterMs ?? 0) > this.maxRetryAfterMs) {
+                    throw error;
+                }
+
+                const delay = this.backoffDelay(attempt, error);
+                if (error instanceof RedditRateLimitError) {
+                    this.rateLimiter.pause(delay);
+                }
+                console.warn(`Request to ${endpoint} failed (${(error as Error).message}), retrying in ${delay}ms`);
+                await sleep(delay);
+            }
+        }
+    }
+
+    private async sendAuthorized<T>(endpoint: string, options: RequestOptions<T>): Promise<T> {
+        const accessToken = await this.ensureValidToken();
+        await this.rateLimiter.acquire();
+
+        const response = await this.send({
+            method: options.method || 'GET',
+            url: `${this.apiBaseUrl}${endpoint}`,
+            headers: {
+                ...this.defaultHeaders,
+                'Authorization': `bearer ${accessToken}`,
+                ...options.headers
+            },
+            body: options.body !== undefined ? JSON.stringify(options.body) : undefined
+        });
+
+        this.rateLimiter.update(response.headers);
+
+        if (response.status < 200 || response.status >= 300) {
+            throw errorFromResponse(response, endpoint);
+        }
+
+        let json: unknown;
+        try {
+            json = JSON.parse(response.body);
+        } catch {
+            throw new RedditValidationError(endpoint, [{ code: 'custom', path: [], message: 'Response is not valid JSON' }], response.body);
+        }
+
+        if (!options.schema) {
+            return json as T;
+        }
+
+        const parsed = options.schema.safeParse(json);
+        if (!parsed.success) {
+            throw new RedditValidationError(endpoint, parsed.error.issues, response.body);
+        }
+        return parsed.data;
     }
     
     public async getUserInfo() {
-        return this.makeRequest<any>('/api/v1/me');
+        return this.makeRequest('/api/v1/me', { schema: RedditUserSchema });
+    }
+
+    public async getUserAbout(username: string): Promise<RedditUser> {
+        const endpoint = `/user/${username}/about.json`;
+        const about = await this.makeRequest<{ kind?: string; data?: { is_suspended?: boolean } }>(endpoint);
+        // Suspended accounts only come with their name
+        if (about.kind === 't2' && about.data?.is_suspended) {
+            throw new RedditForbiddenError(`u/${username} is suspended`, 403, JSON.stringify({ reason: 'suspended' }));
+        }
+        if (about.kind !== 't2') {
+            throw new RedditNotFoundError(`No user named ${username}`, 404, '');
+        }
+
+        const parsed = RedditUserThingSchema.safeParse(about);
+        if (!parsed.success) {
+            throw new RedditValidationError(endpoint, parsed.error.issues, JSON.stringify(about));
+        }
+        return parsed.data.data;
+    }
+
+    // Posts the user submitted, newest first by default
+    public async getUserPosts(username: string, options: UserListingOptions = {}): Promise<PostListing> {
+        return this.makeRequest(this.userListingUrl(username, 'submitted', options), { schema: RedditPostListingSchema });
     }
 
-    public async getRecentPosts(subreddit: string = '', options: {
-        limit?: number;
-        after?: string;
-        sort?: 'hot' | 'new' | 'top' | 'rising';
-        time?: 'hour' | 'day' | 'week' | 'month' | 'year' | 'all';
-    } = {}) {
+    public async getUserComments(username: string, options: UserListingOptions = {}): Promise<UserCommentListing> {
+        return this.makeRequest(this.userListingUrl(username, 'comments', options), { schema: RedditUserCommentListingSchema });
+    }
+
+    private userListingUrl(username: string, listing: 'submitted' | 'comments', options: UserListingOptions) {
+        const { sort = 'new', time = 'all', limit = 25, after } = options;
+        const queryParams = new URLSearchParams({
+            sort,
+            t: time,
+            limit: limit.toString()
+        });
+        if (after) {
+            queryParams.set('after', after);
+        }
+        return `/user/${username}/${listing}.json?${queryParams.toString()}`;
+    }
+
+    public async getSubredditAbout(subreddit: string): Promise<SubredditAbout> {
+        const endpoint = `/r/${subreddit}/about.json`;
+        const about = await this.makeRequest<{ kind?: string }>(endpoint);
+        // Unknown names are sometimes redirected to a search listing instead of a 404
+        if (about.kind !== 't5') {
+            throw new RedditNotFoundError(`No subreddit named ${subreddit}`, 404, '');
+        }
+
+        const parsed = SubredditAboutThingSchema.safeParse(about);
+        if (!parsed.success) {
+            throw new RedditValidationError(endpoint, parsed.error.issues, JSON.stringify(about));
+        }
+        return parsed.data.data;
+    }
+
+    // Ordered as the moderators listed them
+    public async getSubredditRules(subreddit: string): Promise<SubredditRule[]> {
+        const { rules } = await this.makeRequest(`/r/${subreddit}/about/rules.json`, { schema: SubredditRulesSchema });
+        return [...rules].sort((a, b) => a.priority - b.priority);
+    }
+
+    public async getSubredditStatus(subreddit: string): Promise<SubredditStatus> {
+        try {
+            await this.getSubredditAbout(subreddit);
+            return 'ok';
+        } catch (error) {
+            if (error instanceof RedditForbiddenError) {
+                return error.reason === 'quarantined' ? 'quarantined' : 'private';
+            }
+            if (error instanceof RedditNotFoundError) {
+                return error.reason === 'banned' ? 'banned' : 'not_found';
+            }
+            throw error;
+        }
+    }
+
+    public async getRecentPosts(subreddit: string = '', options: RecentPostsOptions = {}) {
         const {
             limit = 25,
             sort = 'hot',
@@ -212,34 +556,173 @@ export class RedditAPI {
             queryParams.append('after', after);
         }
 
-        return this.makeRequest<{
-            data: {
-                children: Array<{
-                    data: {
-                        title: string;
-                        selftext: string;
-                        author: string;
-                        score: number;
-                        created_utc: number;
-                        url: string;
-                        permalink: string;
-                        num_comments: number;
-                        subreddit: string;
-                        subreddit_name_prefixed: string;
+        return this.makeRequest(`${endpoint}?${queryParams.toString()}`, {
+            schema: RedditPostListingSchema
+        });
+    }
+    
+    /**
+     * Walks a subreddit listing page by page following `after` cursors,
+     * yielding each post once even if it shifts between pages.
+     */
+    public paginate(subreddit: string, options: PaginateOptions = {}): AsyncGenerator<RedditPost> {
+        const { sort = 'hot', time = 'day', pageSize = 100 } = options;
+        return this.paginateListing(
+            after => this.getRecentPosts(subreddit, { sort, time, limit: pageSize, after }),
+            { ...options, stopAtCutoff: sort === 'new' }
+        );
+    }
+
+    // Query syntax such as `author:name` or `flair:"News"` is passed through to Reddit unchanged
+    public async search(query: string, options?: SearchOptions & { type?: 'link' }): Promise<PostListing>;
+    public async search(query: string, options: SearchOptions & { type: 'sr' }): Promise<SubredditSearchListing>;
+    public async search(query: string, options: SearchOptions = {}): Promise<PostListing | SubredditSearchListing> {
+        const {
+            subreddit,
+            sort = 'relevance',
+            time = 'all',
+            type = 'link',
+            restrictSr = true,
+            limit = 25,
+            after
+        } = options;
+
+        const endpoint = subreddit && type === 'link' ? `/r/${subreddit}/search.json` : '/search.json';
+        const queryParams = new URLSearchParams({
+            q: query,
+            sort,
+            t: time,
+            type,
+            limit: limit.toString()
+        });
+        if (subreddit && type === 'link') {
+            queryParams.set('restrict_sr', String(restrictSr));
+        }
+        if (after) {
+            queryParams.set('after', after);
+        }
+
+        const url = `${endpoint}?${queryParams.toString()}`;
+        return type === 'sr'
+            ? this.makeRequest(url, { schema: SubredditSearchListingSchema })
+            : this.makeRequest(url, { schema: RedditPostListingSchema });
+    }
+
+    // Post search results across pages, with the same de-duplication as `paginate`
+    public searchAll(
+        query: string,
+        options: Omit<SearchOptions, 'type' | 'limit' | 'after'> & Omit<PaginateOptions, 'sort' | 'time'> = {}
+    ): AsyncGenerator<RedditPost> {
+        const { pageSize = 100, maxItems, since, after: start, ...searchOptions } = options;
+        return this.paginateListing(
+            after => this.search(query, { ...searchOptions, type: 'link', limit: pageSize, after }),
+            { maxItems, since, after: start }
+        );
+    }
+
+    private async *paginateListing(
+        fetchPage: (after: string | undefined) => Promise<PostListing>,
+        options: PaginateOptions & { stopAtCutoff?: boolean }
+    ): AsyncGenerator<RedditPost> {
+        const { maxItems = Infinity, since, stopAtCutoff = false } = options;
+        const seen = new Set<string>();
+        let after = options.after;
+        let yielded = 0;
+
+        while (yielded < maxItems) {
+            const page = await fetchPage(after);
+            const posts = page.data.children.map(child => child.data);
+
+            for (const post of posts) {
+                if (seen.has(post.name)) {
+                    continue;
+                }
+                seen.add(post.name);
+
+                if (since !== undefined && post.created_utc < since) {
+                    // Pinned posts sit at the top of /new regardless of age
+                    if (stopAtCutoff && !post.stickied) {
+                        return;
                     }
-                }>;
-                after: string | null;
-                before: string | null;
+                    continue;
+                }
+
+                yield post;
+                if (++yielded >= maxItems) {
+                    return;
+                }
             }
-        }>(`${endpoint}?${queryParams.toString()}`);
+
+            if (!page.data.after || posts.length === 0) {
+                return;
+            }
+            after = page.data.after;
+        }
+    }
+
+    public async getComments(postId: string, options: CommentsOptions = {}): Promise<CommentThread> {
+        const {
+            sort = 'confidence',
+            depth,
+            limit,
+            maxMoreRequests = 5
+        } = options;
+
+        const id = postId.replace(/^t3_/, '');
+        const queryParams = new URLSearchParams({ sort, raw_json: '1' });
+        if (depth !== undefined) {
+            queryParams.append('depth', depth.toString());
+        }
+        if (limit !== undefined) {
+            queryParams.append('limit', limit.toString());
+        }
+
+        const [postListing, commentListing] = await this.makeRequest(`/comments/${id}?${queryParams.toString()}`, {
+            schema: CommentsResponseSchema
+        });
+
+        const post = postListing.data.children[0]?.data;
+        if (!post) {
+            throw new RedditNotFoundError(`Post ${id} not found`, 404, '');
+        }
+
+        const tree = new CommentTreeBuilder();
+        tree.add(commentListing.data.children);
+
+        let requests = 0;
+        let pending = tree.takePending();
+        while (pending.length > 0) {
+            for (const more of pending) {
+                // Stubs without children are "continue this thread" links, which need a separate /comments call
+                if (more.children.length === 0 || requests >= maxMoreRequests) {
+                    tree.markUnloaded(more);
+                    continue;
+                }
+
+                // /api/morechildren accepts at most 100 ids per call
+                const children = more.children.slice(0, 100);
+                requests++;
+                const response = await this.makeRequest(`/api/morechildren?${new URLSearchParams({
+                    api_type: 'json',
+                    link_id: post.name,
+                    children: children.join(','),
+                    sort,
+                    raw_json: '1'
+                }).toString()}`, { schema: MoreChildrenResponseSchema });
+
+                tree.add(response.json.data?.things ?? []);
+                if (more.children.length > children.length) {
+                    tree.markUnloaded({ ...more, children: more.children.slice(children.length), count: more.children.length - children.length });
+                }
+            }
+            pending = tree.takePending();
+        }
+
+        return { post, ...tree.build() };
     }
     
     public async cleanup() {
-        if (this.browser) {
-            await this.browser.close();
-            this.browser = null;
-            this.page = null;
-        }
+        await this.transport.close?.();
     }
 }
 
@@ -247,8 +730,7 @@ export class RedditAPI {
 // const api = new RedditAPI({
 //     clientId: process.env.REDDIT_CLIENT_ID!,
 //     clientSecret: process.env.REDDIT_SECRET!,
-//     username: process.env.REDDIT_USERNAME!,
-//     password: process.env.REDDIT_PASSWORD!
+//     grant: { type: 'client_credentials' }
 // });
 // 
 // try {
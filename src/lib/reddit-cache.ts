@@ -0,0 +1,165 @@
+import NodeCache from 'node-cache';
+
+/**
+ * How long responses from matching endpoints are served. For `ttlSeconds`
+ * an entry is fresh; for `staleSeconds` after that it is still returned
+ * while a background request replaces it.
+ */
+export interface CacheRule {
+    name: string;
+    pattern: RegExp;
+    ttlSeconds: number;
+    staleSeconds: number;
+}
+
+// First match wins; endpoints without a rule (e.g. /api/v1/me) are never cached
+export const DEFAULT_CACHE_RULES: CacheRule[] = [
+    { name: 'rules', pattern: /^\/r\/[^/]+\/about\/rules\.json/, ttlSeconds: 60 * 60, staleSeconds: 6 * 60 * 60 },
+    { name: 'about', pattern: /^\/r\/[^/]+\/about\.json/, ttlSeconds: 10 * 60, staleSeconds: 60 * 60 },
+    { name: 'new', pattern: /^(\/r\/[^/]+)?\/(new|rising)\.json/, ttlSeconds: 30, staleSeconds: 2 * 60 },
+    { name: 'hot', pattern: /^(\/r\/[^/]+)?\/hot\.json/, ttlSeconds: 60, staleSeconds: 5 * 60 },
+    { name: 'top', pattern: /^(\/r\/[^/]+)?\/top\.json/, ttlSeconds: 5 * 60, staleSeconds: 15 * 60 },
+    { name: 'search', pattern: /^(\/r\/[^/]+)?\/search\.json/, ttlSeconds: 2 * 60, staleSeconds: 10 * 60 },
+    { name: 'user', pattern: /^\/user\/[^/]+\/(about|submitted|comments)\.json/, ttlSeconds: 5 * 60, staleSeconds: 15 * 60 },
+    { name: 'comments', pattern: /^\/(comments\/|api\/morechildren)/, ttlSeconds: 60, staleSeconds: 5 * 60 }
+];
+
+export interface CacheMetrics {
+    hits: number;
+    // Served past their TTL while being refreshed
+    staleHits: number;
+    misses: number;
+    // Requests that waited on an identical one already in flight
+    coalesced: number;
+    errors: number;
+}
+
+export interface CacheStats {
+    keys: number;
+    // One entry per rule that has seen traffic
+    endpoints: (CacheMetrics & { name: string })[];
+}
+
+interface CacheEntry {
+    value: unknown;
+    freshUntil: number; // Unix timestamp in milliseconds
+}
+
+// Subreddits a cached endpoint belongs to, including each part of a multireddit
+function endpointSubreddits(endpoint: string): string[] {
+    const match = endpoint.match(/^\/r\/([^/?]+)/);
+    return match ? match[1].replace(/\.json$/, '').toLowerCase().split('+') : [];
+}
+
+/**
+ * Process-wide cache of Reddit GET responses, keyed by client namespace and
+ * endpoint including its query string. Identical requests made while one is
+ * in flight share its result instead of going to Reddit again.
+ */
+export class RedditResponseCache {
+    private readonly store = new NodeCache({ checkperiod: 120 });
+    private readonly inFlight = new Map<string, Promise<unknown>>();
+    private readonly metrics = new Map<string, CacheMetrics>();
+
+    constructor(private readonly rules: CacheRule[] = DEFAULT_CACHE_RULES) {}
+
+    public async fetch<T>(namespace: string, endpoint: string, load: () => Promise<T>): Promise<T> {
+        const rule = this.rules.find(candidate => candidate.pattern.test(endpoint));
+        if (!rule) {
+            return load();
+        }
+
+        const key = `${namespace} ${endpoint}`;
+        const metrics = this.metricsFor(rule.name);
+        const entry = this.store.get<CacheEntry>(key);
+
+        if (entry) {
+            if (Date.now() < entry.freshUntil) {
+                metrics.hits++;
+            } else {
+                metrics.staleHits++;
+                this.load(key, rule, load).catch(error => {
+                    console.warn(`Could not refresh cached ${endpoint}:`, error);
+                });
+            }
+            return entry.value as T;
+        }
+
+        const pending = this.inFlight.get(key);
+        if (pending) {
+            metrics.coalesced++;
+            return pending as Promise<T>;
+        }
+
+        metrics.misses++;
+        return this.load(key, rule, load);
+    }
+
+    private load<T>(key: string, rule: CacheRule, load: () => Promise<T>): Promise<T> {
+        const pending = this.inFlight.get(key);
+        if (pending) {
+            return pending as Promise<T>;
+        }
+
+        // Failures are not cached, so the next request tries Reddit again
+        const promise = load()
+            .then(value => {
+                this.store.set<CacheEntry>(
+                    key,
+                    { value, freshUntil: Date.now() + rule.ttlSeconds * 1000 },
+                    rule.ttlSeconds + rule.staleSeconds
+                );
+                return value;
+            }, error => {
+                this.metricsFor(rule.name).errors++;
+                throw error;
+            })
+            .finally(() => this.inFlight.delete(key));
+
+        this.inFlight.set(key, promise);
+        return promise;
+    }
+
+    private metricsFor(name: string): CacheMetrics {
+        let metrics = this.metrics.get(name);
+        if (!metrics) {
+            metrics = { hits: 0, staleHits: 0, misses: 0, coalesced: 0, errors: 0 };
+            this.metrics.set(name, metrics);
+        }
+        return metrics;
+    }
+
+    public getStats(): CacheStats {
+        return {
+            keys: this.store.keys().length,
+            endpoints: this.rules
+                .filter(rule => this.metrics.has(rule.name))
+                .map(rule => ({ name: rule.name, ...this.metricsFor(rule.name) }))
+        };
+    }
+
+    // Drops every cached listing, about page and search of the subreddit; returns how many entries went
+    public purgeSubreddit(subreddit: string): number {
+        const name = subreddit.toLowerCase();
+        const keys = this.store.keys().filter(key => endpointSubreddits(key.slice(key.indexOf(' ') + 1)).includes(name));
+        return this.store.del(keys);
+    }
+
+    public flush() {
+        this.store.flushAll();
+    }
+}
+
+// Cached on globalThis so dev-server hot reloads keep the cached responses
+const globalForCache = globalThis as typeof globalThis & {
+    trendAiRedditCache?: RedditResponseCache;
+};
+
+// The shared response cache, or null when REDDIT_CACHE=off
+export function getRedditCache(): RedditResponseCache | null {
+    if (process.env.REDDIT_CACHE === 'off') {
+        return null;
+    }
+    globalForCache.trendAiRedditCache ??= new RedditResponseCache();
+    return globalForCache.trendAiRedditCache;
+}
@@ -0,0 +1,221 @@
+import { AccessTokenStore, RedditAPI, RedditAPIConfig, RedditGrant } from './reddit-api';
+import { getRedditCache } from './reddit-cache';
+import { decryptToken, encryptToken, getRedditOAuthApp, RedditOAuthApp } from './reddit-oauth';
+import { PuppeteerTransport } from './reddit-transport';
+import { getStorage } from './storage';
+import type { RedditConnection, Storage } from './storage';
+
+// REDDIT_GRANT picks the grant; without it the password grant is used when an account is configured
+function grantFromEnv(): RedditGrant {
+    const grant = process.env.REDDIT_GRANT || (process.env.REDDIT_USERNAME ? 'password' : 'client_credentials');
+    if (grant === 'client_credentials') {
+        return { type: 'client_credentials' };
+    }
+    if (grant !== 'password') {
+        throw new Error(`Unsupported REDDIT_GRANT "${grant}", expected password or client_credentials`);
+    }
+    return {
+        type: 'password',
+        username: process.env.REDDIT_USERNAME!,
+        password: process.env.REDDIT_PASSWORD!
+    };
+}
+
+function sharedOptions(): Pick<RedditAPIConfig, 'transport' | 'authBaseUrl' | 'apiBaseUrl' | 'cache'> {
+    return {
+        // REDDIT_TRANSPORT=puppeteer falls back to the headless browser transport
+        transport: process.env.REDDIT_TRANSPORT === 'puppeteer' ? new PuppeteerTransport() : undefined,
+        authBaseUrl: process.env.REDDIT_AUTH_BASE_URL || undefined,
+        apiBaseUrl: process.env.REDDIT_API_BASE_URL || undefined,
+        cache: getRedditCache()
+    };
+}
+
+function appClientConfig(): RedditAPIConfig {
+    return {
+        clientId: process.env.REDDIT_CLIENT_ID!,
+        clientSecret: process.env.REDDIT_SECRET!,
+        grant: grantFromEnv(),
+        ...sharedOptions()
+    };
+}
+
+function userClientConfig(
+    storage: Storage,
+    app: RedditOAuthApp,
+    connection: RedditConnection,
+    onRotated?: (encryptedRefreshToken: string) => void
+): RedditAPIConfig {
+    return {
+        clientId: app.clientId,
+        clientSecret: app.clientSecret,
+        grant: { type: 'refresh_token', refreshToken: decryptToken(connection.encryptedRefreshToken) },
+        // Reddit may rotate the refresh token; keep the stored copy current
+        onRefreshToken: async refreshToken => {
+            const encryptedRefreshToken = encryptToken(refreshToken);
+            onRotated?.(encryptedRefreshToken);
+            await storage.redditConnections.save({ ...connection, encryptedRefreshToken, updatedAt: new Date() });
+        },
+        ...sharedOptions(),
+        cacheNamespace: `user:${connection.userId}`
+    };
+}
+
+/**
+ * A new client owned by the caller, who has to `cleanup()` it. Scripts and
+ * one-off checks use these; pages and routes share clients through
+ * `getRedditClient` instead. Pass `cached: false` where every call has to
+ * reach Reddit, e.g. when recording snapshots.
+ */
+export function createRedditClient(options: { cached?: boolean } = {}): RedditAPI {
+    const { cached = true } = options;
+    return new RedditAPI({ ...appClientConfig(), ...(cached ? {} : { cache: null }) });
+}
+
+// Client acting as the user's connected Reddit account, or null when they have not connected one
+export async function createUserRedditClient(storage: Storage, userId: string): Promise<RedditAPI | null> {
+    const app = getRedditOAuthApp();
+    const connection = await storage.redditConnections.get(userId);
+    if (!app || !connection) {
+        return null;
+    }
+    return new RedditAPI(userClientConfig(storage, app, connection));
+}
+
+interface RegisteredClient {
+    client: RedditAPI;
+    // For user clients, the stored refresh token they were built from, to notice a reconnect
+    encryptedRefreshToken?: string;
+}
+
+// Cached on globalThis so dev-server hot reloads keep the authenticated clients
+const globalForClients = globalThis as typeof globalThis & {
+    trendAiRedditClients?: Map<string, RegisteredClient>;
+};
+
+function registry(): Map<string, RegisteredClient> {
+    if (!globalForClients.trendAiRedditClients) {
+        globalForClients.trendAiRedditClients = new Map();
+        // Close transports such as the headless browser before the server exits
+        for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+            process.once(signal, () => {
+                void shutdownRedditClients().finally(() => process.exit(0));
+            });
+        }
+    }
+    return globalForClients.trendAiRedditClients;
+}
+
+// Access tokens are kept in storage, encrypted like refresh tokens
+function storedAccessToken(key: string): AccessTokenStore {
+    return {
+        async load() {
+            const stored = await (await getStorage()).accessTokens.get(key);
+            return stored && {
+                accessToken: decryptToken(stored.encryptedAccessToken),
+                expiresAt: stored.expiresAt.getTime(),
+                scopes: stored.scopes
+            };
+        },
+        async save(token) {
+            await (await getStorage()).accessTokens.save({
+                key,
+                encryptedAccessToken: encryptToken(token.accessToken),
+                scopes: token.scopes,
+                expiresAt: new Date(token.expiresAt)
+            });
+        }
+    };
+}
+
+function appTokenKey(config: RedditAPIConfig) {
+    const { grant } = config;
+    return `app:${config.clientId}:${grant.type === 'password' ? `password:${grant.username}` : grant.type}`;
+}
+
+/**
+ * The process-wide client for the app's own credentials. It keeps its access
+ * token between requests and restarts, so callers must not `cleanup()` it.
+ */
+export function getRedditClient(options: { cached?: boolean } = {}): RedditAPI {
+    const { cached = true } = options;
+    const clients = registry();
+    const key = cached ? 'app' : 'app:uncached';
+
+    let registered = clients.get(key);
+    if (!registered) {
+        const config = appClientConfig();
+        registered = {
+            client: new RedditAPI({
+                ...config,
+                ...(cached ? {} : { cache: null }),
+                tokenStore: storedAccessToken(appTokenKey(config))
+            })
+        };
+        clients.set(key, registered);
+    }
+    return registered.client;
+}
+
+// The process-wide client of a user's connected Reddit account, or null when they have not connected one
+export async function getUserRedditClient(storage: Storage, userId: string): Promise<RedditAPI | null> {
+    const app = getRedditOAuthApp();
+    const connection = await storage.redditConnections.get(userId);
+    const key = `user:${userId}`;
+    const clients = registry();
+    const existing = clients.get(key);
+
+    if (!app || !connection) {
+        if (existing) {
+            clients.delete(key);
+            await existing.client.cleanup();
+        }
+        return null;
+    }
+    if (existing?.encryptedRefreshToken === connection.encryptedRefreshToken) {
+        return existing.client;
+    }
+
+    const registered: RegisteredClient = { client: null!, encryptedRefreshToken: connection.encryptedRefreshToken };
+    registered.client = new RedditAPI({
+        ...userClientConfig(storage, app, connection, encryptedRefreshToken => {
+            registered.encryptedRefreshToken = encryptedRefreshToken;
+        }),
+        tokenStore: storedAccessToken(key)
+    });
+    clients.set(key, registered);
+    await existing?.client.cleanup();
+    return registered.client;
+}
+
+// Forgets a user's client and stored access token, e.g. when they disconnect or connect another account
+export async function releaseUserRedditClient(storage: Storage, userId: string) {
+    const key = `user:${userId}`;
+    const clients = registry();
+    const existing = clients.get(key);
+    clients.delete(key);
+    await storage.accessTokens.delete(key);
+    await existing?.client.cleanup();
+}
+
+// The signed-in user's own client when they have connected Reddit, otherwise the shared one
+export async function getRedditClientFor(storage: Storage, userId: string | null): Promise<RedditAPI> {
+    if (userId) {
+        try {
+            const userClient = await getUserRedditClient(storage, userId);
+            if (userClient) {
+                return userClient;
+            }
+        } catch (error) {
+            // Usually a token stored under a different secret; the user has to connect again
+            console.warn(`Could not use the connected Reddit account of ${userId}:`, error);
+        }
+    }
+    return getRedditClient();
+}
+
+export async function shutdownRedditClients() {
+    const clients = [...registry().values()];
+    registry().clear();
+    await Promise.allSettled(clients.map(({ client }) => client.cleanup()));
+}
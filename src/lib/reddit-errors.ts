@@ -0,0 +1,146 @@
+import type { ZodIssue } from 'zod';
+import type { HttpResponse } from './reddit-transport';
+
+export class RedditAPIError extends Error {
+    public readonly status: number | null;
+    public readonly body: string;
+    // Reddit's machine-readable `reason` field, e.g. "banned" or "private"
+    public readonly reason: string | undefined;
+
+    constructor(message: string, status: number | null = null, body: string = '') {
+        super(message);
+        this.name = 'RedditAPIError';
+        this.status = status;
+        this.body = body;
+        this.reason = parseReason(body);
+    }
+}
+
+export class RedditRateLimitError extends RedditAPIError {
+    // How long Reddit asked us to wait, when it said so
+    public readonly retryAfterMs: number | null;
+
+    constructor(message: string, status: number, body: string, retryAfterMs: number | null) {
+        super(message, status, body);
+        this.name = 'RedditRateLimitError';
+        this.retryAfterMs = retryAfterMs;
+    }
+}
+
+export class RedditAuthError extends RedditAPIError {
+    constructor(message: string, status: number | null = null, body: string = '') {
+        super(message, status, body);
+        this.name = 'RedditAuthError';
+    }
+}
+
+export class RedditNotFoundError extends RedditAPIError {
+    constructor(message: string, status: number, body: string) {
+        super(message, status, body);
+        this.name = 'RedditNotFoundError';
+    }
+}
+
+export class RedditForbiddenError extends RedditAPIError {
+    constructor(message: string, status: number, body: string) {
+        super(message, status, body);
+        this.name = 'RedditForbiddenError';
+    }
+}
+
+export class RedditServerError extends RedditAPIError {
+    constructor(message: string, status: number, body: string) {
+        super(message, status, body);
+        this.name = 'RedditServerError';
+    }
+}
+
+export class RedditNetworkError extends RedditAPIError {
+    constructor(message: string, cause?: unknown) {
+        super(message);
+        this.name = 'RedditNetworkError';
+        this.cause = cause;
+    }
+}
+
+// The response arrived but did not match the schema we expected for the endpoint
+export class RedditValidationError extends RedditAPIError {
+    public readonly issues: ZodIssue[];
+
+    constructor(endpoint: string, issues: ZodIssue[], body: string) {
+        const summary = issues
+            .slice(0, 3)
+            .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+            .join('; ');
+        super(`Unexpected response from ${endpoint}: ${summary}`, 200, body);
+        this.name = 'RedditValidationError';
+        this.issues = issues;
+    }
+}
+
+function parseReason(body: string): string | undefined {
+    try {
+        const parsed = JSON.parse(body);
+        return typeof parsed?.reason === 'string' ? parsed.reason : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+function parseRetryAfter(headers: Record<string, string>): number | null {
+    const retryAfter = Number(headers['retry-after']);
+    if (Number.isFinite(retryAfter) && retryAfter >= 0) {
+        return retryAfter * 1000;
+    }
+
+    const reset = Number(headers['x-ratelimit-reset']);
+    return Number.isFinite(reset) && reset >= 0 ? reset * 1000 : null;
+}
+
+export function errorFromResponse(response: HttpResponse, endpoint: string): RedditAPIError {
+    const { status, body } = response;
+    const message = `HTTP ${status} for ${endpoint}`;
+
+    if (status === 429) {
+        return new RedditRateLimitError(message, status, body, parseRetryAfter(response.headers));
+    }
+    if (status === 401) {
+        return new RedditAuthError(message, status, body);
+    }
+    if (status === 403) {
+        return new RedditForbiddenError(message, status, body);
+    }
+    if (status === 404) {
+        return new RedditNotFoundError(message, status, body);
+    }
+    if (status >= 500) {
+        return new RedditServerError(message, status, body);
+    }
+    return new RedditAPIError(message, status, body);
+}
+
+// What to tell a reader when a page could not be loaded from Reddit
+export function describeRedditError(error: unknown): string {
+    if (error instanceof RedditRateLimitError) {
+        return 'Reddit is rate limiting requests right now. Try again in a minute.';
+    }
+    if (error instanceof RedditValidationError) {
+        return 'Reddit returned data in an unexpected format.';
+    }
+    if (error instanceof RedditAuthError) {
+        return 'Reddit did not accept the configured credentials.';
+    }
+    if (error instanceof RedditServerError) {
+        return 'Reddit is having problems right now. Try again shortly.';
+    }
+    if (error instanceof RedditNetworkError) {
+        return 'Could not reach Reddit.';
+    }
+    return 'Could not load posts from Reddit.';
+}
+
+export function isRetryableError(error: unknown): boolean {
+    return error instanceof RedditRateLimitError
+        || error instanceof RedditServerError
+        || error instanceof RedditNetworkError;
+}
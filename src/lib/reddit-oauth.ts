@@ -0,0 +1,111 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes, timingSafeEqual } from 'crypto';
+
+// Scopes a user can grant when connecting their Reddit account, with what each one unlocks
+export const REDDIT_SCOPES = {
+    identity: 'Your username and account details',
+    read: 'Posts and comments, including subreddits only you can see',
+    history: 'Posts and comments you have submitted, saved or hidden',
+    mysubreddits: 'Subreddits you subscribe to or moderate',
+    privatemessages: 'Your inbox'
+} as const;
+
+export type RedditScope = keyof typeof REDDIT_SCOPES;
+
+// The client cannot do anything useful without these
+export const REQUIRED_SCOPES: RedditScope[] = ['identity', 'read'];
+
+export const STATE_COOKIE = 'reddit_oauth_state';
+
+const DEFAULT_AUTHORIZE_BASE_URL = 'https://www.reddit.com';
+
+export interface RedditOAuthApp {
+    clientId: string;
+    clientSecret: string;
+    redirectUri: string;
+}
+
+// The "web app" used for sign-in also handles account connections; null when it is not configured
+export function getRedditOAuthApp(): RedditOAuthApp | null {
+    const clientId = process.env.REDDIT_OAUTH_CLIENT_ID;
+    const clientSecret = process.env.REDDIT_OAUTH_CLIENT_SECRET;
+    if (!clientId || !clientSecret) {
+        return null;
+    }
+
+    const baseUrl = (process.env.NEXTAUTH_URL ?? 'http://localhost:3000').replace(/\/+$/, '');
+    return {
+        clientId,
+        clientSecret,
+        redirectUri: process.env.REDDIT_OAUTH_REDIRECT_URI || `${baseUrl}/api/reddit/callback`
+    };
+}
+
+export function isRedditScope(value: string): value is RedditScope {
+    return Object.prototype.hasOwnProperty.call(REDDIT_SCOPES, value);
+}
+
+// Unknown scopes are dropped and the required ones always added
+export function normalizeScopes(requested: string[]): RedditScope[] {
+    const scopes = new Set<RedditScope>(REQUIRED_SCOPES);
+    for (const scope of requested) {
+        if (isRedditScope(scope)) {
+            scopes.add(scope);
+        }
+    }
+    return [...scopes];
+}
+
+export function createOAuthState(): string {
+    return randomBytes(24).toString('base64url');
+}
+
+export function statesMatch(expected: string | undefined, received: string | null): boolean {
+    if (!expected || !received) {
+        return false;
+    }
+    const a = Buffer.from(expected);
+    const b = Buffer.from(received);
+    return a.length === b.length && timingSafeEqual(a, b);
+}
+
+// `permanent` makes Reddit return a refresh token along with the first access token
+export function buildAuthorizeUrl(app: RedditOAuthApp, scopes: RedditScope[], state: string): string {
+    const base = (process.env.REDDIT_AUTHORIZE_BASE_URL || DEFAULT_AUTHORIZE_BASE_URL).replace(/\/+$/, '');
+    const params = new URLSearchParams({
+        client_id: app.clientId,
+        response_type: 'code',
+        state,
+        redirect_uri: app.redirectUri,
+        duration: 'permanent',
+        scope: scopes.join(' ')
+    });
+    return `${base}/api/v1/authorize?${params}`;
+}
+
+/** AES-256-GCM key derived from REDDIT_TOKEN_SECRET, falling back to NEXTAUTH_SECRET. */
+function encryptionKey(): Buffer {
+    const secret = process.env.REDDIT_TOKEN_SECRET || process.env.NEXTAUTH_SECRET;
+    if (!secret) {
+        throw new Error('REDDIT_TOKEN_SECRET or NEXTAUTH_SECRET must be set to store Reddit tokens');
+    }
+    return createHash('sha256').update(secret).digest();
+}
+
+// Stored as `iv.tag.ciphertext`, each part base64url encoded
+export function encryptToken(token: string): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', encryptionKey(), iv);
+    const ciphertext = Buffer.concat([cipher.update(token, 'utf8'), cipher.final()]);
+    return [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64url')).join('.');
+}
+
+// Throws when the value was tampered with or encrypted under a different secret
+export function decryptToken(encrypted: string): string {
+    const [iv, tag, ciphertext] = encrypted.split('.').map(part => Buffer.from(part, 'base64url'));
+    if (!iv || !tag || !ciphertext) {
+        throw new Error('Malformed encrypted token');
+    }
+    const decipher = createDecipheriv('aes-256-gcm', encryptionKey(), iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+}
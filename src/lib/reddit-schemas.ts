@@ -0,0 +1,213 @@
+import { z } from 'zod';
+
+// Reddit reports edited posts as a timestamp and unedited ones as `false`
+const editedSchema = z.union([z.number(), z.boolean()]).default(false);
+
+export const RedditPostSchema = z.object({
+    id: z.string(),
+    name: z.string(), // Fullname, e.g. t3_abc123
+    title: z.string(),
+    selftext: z.string().default(''),
+    author: z.string(),
+    author_flair_text: z.string().nullable().default(null),
+    link_flair_text: z.string().nullable().default(null),
+    score: z.number(),
+    upvote_ratio: z.number().optional(),
+    created_utc: z.number(),
+    edited: editedSchema,
+    url: z.string(),
+    permalink: z.string(),
+    num_comments: z.number(),
+    subreddit: z.string(),
+    subreddit_name_prefixed: z.string(),
+    is_self: z.boolean().default(false),
+    over_18: z.boolean().default(false),
+    stickied: z.boolean().default(false),
+    // Video and embed details; null for text and plain link posts
+    media: z.object({
+        reddit_video: z.object({
+            fallback_url: z.string(),
+            duration: z.number().optional(),
+            width: z.number().optional(),
+            height: z.number().optional()
+        }).optional(),
+        oembed: z.object({
+            provider_name: z.string().optional(),
+            title: z.string().optional()
+        }).optional()
+    }).nullable().optional(),
+    // Thumbnails Reddit generated for link and image posts
+    preview: z.object({
+        enabled: z.boolean().optional(),
+        images: z.array(z.object({
+            source: z.object({ url: z.string(), width: z.number(), height: z.number() })
+        })).default([])
+    }).optional()
+});
+
+export type RedditPost = z.infer<typeof RedditPostSchema>;
+
+export function redditThing<K extends string, T extends z.ZodTypeAny>(kind: K, data: T) {
+    return z.object({
+        kind: z.literal(kind),
+        data
+    });
+}
+
+export function redditListing<T extends z.ZodTypeAny>(child: T) {
+    return z.object({
+        kind: z.literal('Listing'),
+        data: z.object({
+            children: z.array(child),
+            after: z.string().nullable(),
+            before: z.string().nullable()
+        })
+    });
+}
+
+export type RedditListing<T> = {
+    kind: 'Listing';
+    data: {
+        children: T[];
+        after: string | null;
+        before: string | null;
+    };
+};
+
+export const RedditPostThingSchema = redditThing('t3', RedditPostSchema);
+export const RedditPostListingSchema = redditListing(RedditPostThingSchema);
+
+// Placeholder for comments that were not included in the response
+export const RedditMoreSchema = z.object({
+    id: z.string(),
+    name: z.string(),
+    parent_id: z.string(),
+    count: z.number(),
+    depth: z.number().default(0),
+    children: z.array(z.string())
+});
+
+export type RedditMore = z.infer<typeof RedditMoreSchema>;
+
+export interface RedditComment {
+    id: string;
+    name: string;
+    parent_id: string;
+    link_id: string;
+    author: string;
+    author_flair_text: string | null;
+    body: string;
+    score: number;
+    created_utc: number;
+    edited: number | boolean;
+    permalink: string;
+    depth: number;
+    stickied: boolean;
+    is_submitter: boolean;
+    // Reddit sends an empty string rather than an empty listing
+    replies: RedditListing<RedditCommentChild> | '';
+}
+
+export type RedditCommentChild =
+    | { kind: 't1'; data: RedditComment }
+    | { kind: 'more'; data: RedditMore };
+
+export const RedditCommentSchema: z.ZodType<RedditComment, z.ZodTypeDef, unknown> = z.object({
+    id: z.string(),
+    name: z.string(),
+    parent_id: z.string(),
+    link_id: z.string(),
+    author: z.string(),
+    author_flair_text: z.string().nullable().default(null),
+    body: z.string(),
+    score: z.number(),
+    created_utc: z.number(),
+    edited: editedSchema,
+    permalink: z.string(),
+    depth: z.number().default(0),
+    stickied: z.boolean().default(false),
+    is_submitter: z.boolean().default(false),
+    replies: z.union([z.literal(''), z.lazy(() => redditListing(RedditCommentChildSchema))]).default('')
+});
+
+export const RedditCommentChildSchema: z.ZodType<RedditCommentChild, z.ZodTypeDef, unknown> = z.union([
+    redditThing('t1', RedditCommentSchema),
+    redditThing('more', RedditMoreSchema)
+]);
+
+export const RedditUserSchema = z.object({
+    id: z.string(),
+    name: z.string(),
+    created_utc: z.number(),
+    link_karma: z.number(),
+    comment_karma: z.number(),
+    total_karma: z.number().optional(),
+    icon_img: z.string().optional(),
+    verified: z.boolean().optional(),
+    has_verified_email: z.boolean().nullable().optional(),
+    is_mod: z.boolean().optional(),
+    is_gold: z.boolean().optional()
+});
+
+export type RedditUser = z.infer<typeof RedditUserSchema>;
+
+export const RedditUserThingSchema = redditThing('t2', RedditUserSchema);
+
+// A comment as listed on a user's profile, with the post and subreddit it was made in
+export const RedditUserCommentSchema = z.object({
+    id: z.string(),
+    name: z.string(),
+    link_id: z.string(),
+    link_title: z.string(),
+    author: z.string(),
+    body: z.string(),
+    score: z.number(),
+    created_utc: z.number(),
+    edited: editedSchema,
+    permalink: z.string(),
+    subreddit: z.string(),
+    subreddit_name_prefixed: z.string(),
+    stickied: z.boolean().default(false)
+});
+
+export type RedditUserComment = z.infer<typeof RedditUserCommentSchema>;
+
+export const RedditUserCommentListingSchema = redditListing(redditThing('t1', RedditUserCommentSchema));
+
+export const SubredditAboutSchema = z.object({
+    id: z.string(),
+    name: z.string(),
+    display_name: z.string(),
+    display_name_prefixed: z.string(),
+    title: z.string(),
+    public_description: z.string().default(''),
+    description: z.string().nullable().default(null),
+    subscribers: z.number().nullable().default(null),
+    active_user_count: z.number().nullable().default(null),
+    icon_img: z.string().nullable().default(null),
+    community_icon: z.string().nullable().default(null),
+    created_utc: z.number(),
+    over18: z.boolean().default(false),
+    subreddit_type: z.string(),
+    url: z.string()
+});
+
+export type SubredditAbout = z.infer<typeof SubredditAboutSchema>;
+
+export const SubredditAboutThingSchema = redditThing('t5', SubredditAboutSchema);
+
+export const SubredditRuleSchema = z.object({
+    short_name: z.string(),
+    description: z.string().default(''),
+    // `link`, `comment` or `all`
+    kind: z.string(),
+    violation_reason: z.string().nullable().default(null),
+    priority: z.number().default(0),
+    created_utc: z.number().optional()
+});
+
+export type SubredditRule = z.infer<typeof SubredditRuleSchema>;
+
+export const SubredditRulesSchema = z.object({
+    rules: z.array(SubredditRuleSchema).default([])
+});
@@ -0,0 +1,153 @@
+import type { Browser, Page } from 'puppeteer';
+
+export interface HttpRequest {
+    method: string;
+    url: string;
+    headers: Record<string, string>;
+    body?: string;
+}
+
+export interface HttpResponse {
+    status: number;
+    // Header names are lower-cased
+    headers: Record<string, string>;
+    body: string;
+}
+
+export interface HttpTransport {
+    send(request: HttpRequest): Promise<HttpResponse>;
+    close?(): Promise<void>;
+}
+
+export class FetchTransport implements HttpTransport {
+    public async send(request: HttpRequest): Promise<HttpResponse> {
+        const response = await fetch(request.url, {
+            method: request.method,
+            headers: request.headers,
+            body: request.body
+        });
+
+        const headers: Record<string, string> = {};
+        response.headers.forEach((value, key) => {
+            headers[key.toLowerCase()] = value;
+        });
+
+        return {
+            status: response.status,
+            headers,
+            body: await response.text()
+        };
+    }
+}
+
+function parseRawHeaders(raw: string): Record<string, string> {
+    const headers: Record<string, string> = {};
+    raw.trim().split(/[\r\n]+/).forEach(line => {
+        const index = line.indexOf(':');
+        if (index > 0) {
+            headers[line.slice(0, index).trim().toLowerCase()] = line.slice(index + 1).trim();
+        }
+    });
+    return headers;
+}
+
+/**
+ * Sends requests as XHRs from inside a headless Chromium page. Only useful
+ * where plain server-side requests get blocked; puppeteer is loaded lazily so
+ * the default fetch transport never pulls it in.
+ */
+export class PuppeteerTransport implements HttpTransport {
+    private browser: Browser | null = null;
+    private page: Page | null = null;
+
+    private async initBrowser() {
+        if (!this.browser) {
+            const { default: puppeteer } = await import('puppeteer');
+            this.browser = await puppeteer.launch({
+                headless: true,
+                args: [
+                    '--no-sandbox',
+                    '--disable-setuid-sandbox',
+                    '--disable-web-security',
+                    '--disable-features=IsolateOrigins,site-per-process',
+                    '--ignore-certificate-errors',
+                    '--ignore-certificate-errors-spki-list',
+                    '--allow-insecure-localhost'
+                ]
+            });
+        }
+
+        if (!this.page) {
+            this.page = await this.browser.newPage();
+            await this.setupPage(this.page);
+        }
+
+        return { browser: this.browser, page: this.page };
+    }
+
+    private async setupPage(page: Page) {
+        await page.setViewport({ width: 1280, height: 800 });
+        await page.setUserAgent('PostmanRuntime/7.32.3');
+        await page.setRequestInterception(true);
+
+        page.on('request', request => {
+            console.debug('Making request:', request.url());
+            request.continue();
+        });
+
+        page.on('response', async response => {
+            const status = response.status();
+            if (status !== 200) {
+                try {
+                    const text = await response.text();
+                    console.warn('Non-200 response:', response.url(), status, text);
+                } catch {
+                    console.warn('Could not read error response body');
+                }
+            }
+        });
+    }
+
+    public async send(request: HttpRequest): Promise<HttpResponse> {
+        const { page } = await this.initBrowser();
+
+        await page.goto('about:blank');
+
+        const response = await page.evaluate(async (request) => {
+            return new Promise<{ status: number; rawHeaders: string; body: string }>((resolve, reject) => {
+                const xhr = new XMLHttpRequest();
+                xhr.open(request.method, request.url, true);
+
+                Object.entries(request.headers).forEach(([key, value]) => {
+                    xhr.setRequestHeader(key, value);
+                });
+
+                xhr.onload = function() {
+                    resolve({
+                        status: this.status,
+                        rawHeaders: this.getAllResponseHeaders(),
+                        body: this.responseText
+                    });
+                };
+
+                xhr.onerror = () => reject(new Error('Network request failed'));
+
+                xhr.send(request.body ?? null);
+            });
+        }, request);
+
+        return {
+            status: response.status,
+            headers: parseRawHeaders(response.rawHeaders),
+            body: response.body
+        };
+    }
+
+    public async close() {
+        if (this.browser) {
+            await this.browser.close();
+            this.browser = null;
+            this.page = null;
+        }
+    }
+}
@@ -0,0 +1,112 @@
+import type { RedditPost } from './reddit-schemas';
+import { escapeRegex } from './utils';
+
+/**
+ * A search box query split into free text and the `author:`, `flair:` and
+ * `self:` filters. Kept free of server-only imports so the search UI can use
+ * it for highlighting.
+ */
+export interface ParsedSearchQuery {
+    // Words and quoted phrases, in the order they were typed
+    terms: string[];
+    author: string | null;
+    flair: string | null;
+    // true for text posts only, false for link posts only
+    self: boolean | null;
+}
+
+const TOKEN_PATTERN = /(author|flair|self):(?:"([^"]*)"|(\S+))|"([^"]+)"|(\S+)/gi;
+
+const SELF_VALUES: Record<string, boolean> = {
+    yes: true,
+    true: true,
+    '1': true,
+    no: false,
+    false: false,
+    '0': false
+};
+
+export function parseSearchQuery(query: string): ParsedSearchQuery {
+    const parsed: ParsedSearchQuery = { terms: [], author: null, flair: null, self: null };
+
+    for (const match of query.matchAll(TOKEN_PATTERN)) {
+        const [, filter, quotedValue, value, phrase, word] = match;
+        const filterValue = (quotedValue ?? value ?? '').trim();
+
+        switch (filter?.toLowerCase()) {
+            case 'author':
+                parsed.author = filterValue.replace(/^u\//i, '') || null;
+                break;
+            case 'flair':
+                parsed.flair = filterValue || null;
+                break;
+            case 'self':
+                parsed.self = SELF_VALUES[filterValue.toLowerCase()] ?? null;
+                break;
+            default: {
+                const term = (phrase ?? word ?? '').trim();
+                if (term) {
+                    parsed.terms.push(term);
+                }
+            }
+        }
+    }
+
+    return parsed;
+}
+
+function quote(value: string) {
+    return /\s/.test(value) ? `"${value}"` : value;
+}
+
+// The query in Reddit's own search syntax
+export function toRedditQuery(parsed: ParsedSearchQuery): string {
+    const parts = parsed.terms.map(quote);
+    if (parsed.author) {
+        parts.push(`author:${parsed.author}`);
+    }
+    if (parsed.flair) {
+        parts.push(`flair:${quote(parsed.flair)}`);
+    }
+    if (parsed.self !== null) {
+        parts.push(`self:${parsed.self ? 'yes' : 'no'}`);
+    }
+    return parts.join(' ');
+}
+
+export function hasSearchCriteria(parsed: ParsedSearchQuery) {
+    return parsed.terms.length > 0 || parsed.author !== null || parsed.flair !== null || parsed.self !== null;
+}
+
+// Reddit treats filters loosely; results that do not actually satisfy them are dropped
+export function matchesSearchFilters(post: RedditPost, parsed: ParsedSearchQuery): boolean {
+    if (parsed.author && post.author.toLowerCase() !== parsed.author.toLowerCase()) {
+        return false;
+    }
+    if (parsed.flair && !post.link_flair_text?.toLowerCase().includes(parsed.flair.toLowerCase())) {
+        return false;
+    }
+    return parsed.self === null || post.is_self === parsed.self;
+}
+
+export interface HighlightSegment {
+    text: string;
+    match: boolean;
+}
+
+// Splits text into matching and non-matching runs; Reddit stems words, so partial matches count
+export function highlightSegments(text: string, terms: string[]): HighlightSegment[] {
+    const usable = [...new Set(terms.map(term => term.normalize('NFC')).filter(term => term.length >= 2))]
+        .sort((a, b) => b.length - a.length);
+    if (usable.length === 0 || !text) {
+        return [{ text, match: false }];
+    }
+
+    const pattern = new RegExp(`(${usable.map(escapeRegex).join('|')})`, 'giu');
+    // With one capturing group, split puts the matches at the odd indexes
+    return text
+        .normalize('NFC')
+        .split(pattern)
+        .map((part, index) => ({ text: part, match: index % 2 === 1 }))
+        .filter(segment => segment.text);
+}
@@ -0,0 +1,106 @@
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import type { ListingTime, RedditAPI, SearchSort, SearchType } from './reddit-api';
+import type { RedditPost, SubredditAbout } from './reddit-schemas';
+import { hasSearchCriteria, matchesSearchFilters, parseSearchQuery, toRedditQuery } from './search-query';
+import type { SavedSearch } from './storage/types';
+import { LISTING_TIMES, isValidSubredditName } from './subreddits';
+
+export const SEARCH_SORTS: SearchSort[] = ['relevance', 'hot', 'top', 'new', 'comments'];
+export const SEARCH_TYPES: SearchType[] = ['link', 'sr'];
+
+export interface SearchRequest {
+    query: string;
+    subreddit: string | null;
+    sort: SearchSort;
+    time: ListingTime;
+    type: SearchType;
+    after?: string;
+}
+
+type QueryValue = string | string[] | undefined;
+
+function firstValue(value: QueryValue): string {
+    return (Array.isArray(value) ? value[0] : value)?.trim() ?? '';
+}
+
+// Reads q/subreddit/sort/time/type/after from a page's or route's search params
+export function parseSearchRequest(searchParams: Record<string, QueryValue>): SearchRequest {
+    const subreddit = firstValue(searchParams.subreddit).replace(/^r\//i, '');
+    const sort = firstValue(searchParams.sort);
+    const time = firstValue(searchParams.time);
+    const type = firstValue(searchParams.type);
+
+    return {
+        query: firstValue(searchParams.q),
+        subreddit: isValidSubredditName(subreddit) ? subreddit : null,
+        sort: SEARCH_SORTS.includes(sort as SearchSort) ? sort as SearchSort : 'relevance',
+        time: LISTING_TIMES.includes(time as ListingTime) ? time as ListingTime : 'all',
+        type: SEARCH_TYPES.includes(type as SearchType) ? type as SearchType : 'link',
+        after: firstValue(searchParams.after) || undefined
+    };
+}
+
+// Search params that reproduce a search, for links and saved searches
+export function searchRequestParams(request: Omit<SearchRequest, 'after'>): URLSearchParams {
+    const params = new URLSearchParams({ q: request.query, sort: request.sort, time: request.time });
+    if (request.subreddit) {
+        params.set('subreddit', request.subreddit);
+    }
+    if (request.type !== 'link') {
+        params.set('type', request.type);
+    }
+    return params;
+}
+
+export type SearchPage =
+    | { type: 'link'; posts: RedditPost[]; after: string | null }
+    | { type: 'sr'; communities: SubredditAbout[]; after: string | null };
+
+/**
+ * One page of results. Post results that do not satisfy the query's
+ * author/flair/self filters are dropped, so a page can hold fewer than
+ * `limit` posts while still having a next page.
+ */
+export async function runSearch(api: RedditAPI, request: SearchRequest, limit: number = 25): Promise<SearchPage> {
+    const parsed = parseSearchQuery(request.query);
+    if (!hasSearchCriteria(parsed)) {
+        return request.type === 'sr'
+            ? { type: 'sr', communities: [], after: null }
+            : { type: 'link', posts: [], after: null };
+    }
+
+    const options = {
+        subreddit: request.subreddit ?? undefined,
+        sort: request.sort,
+        time: request.time,
+        limit,
+        after: request.after
+    };
+
+    if (request.type === 'sr') {
+        const listing = await api.search(parsed.terms.join(' ') || request.query, { ...options, type: 'sr' });
+        return { type: 'sr', communities: listing.data.children.map(child => child.data), after: listing.data.after };
+    }
+
+    const listing = await api.search(toRedditQuery(parsed), options);
+    return {
+        type: 'link',
+        posts: listing.data.children.map(child => child.data).filter(post => matchesSearchFilters(post, parsed)),
+        after: listing.data.after
+    };
+}
+
+export const SavedSearchInputSchema = z.object({
+    name: z.string().trim().min(1).max(100),
+    query: z.string().trim().min(1).max(512),
+    subreddit: z.string().trim().refine(isValidSubredditName, 'Invalid subreddit name').nullable().default(null),
+    sort: z.enum(SEARCH_SORTS as [SearchSort, ...SearchSort[]]).default('relevance'),
+    time: z.enum(LISTING_TIMES as [ListingTime, ...ListingTime[]]).default('all')
+});
+
+export type SavedSearchInput = z.infer<typeof SavedSearchInputSchema>;
+
+export function createSavedSearch(userId: string, input: SavedSearchInput, now: Date = new Date()): SavedSearch {
+    return { id: randomUUID(), userId, ...input, createdAt: now };
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { scoreWithLexicon } from './sentiment-lexicon';
+
+describe('scoreWithLexicon', () => {
+    it('labels English text and flips negated words', () => {
+        expect(scoreWithLexicon('This is amazing, thanks!').label).toBe('positive');
+        expect(scoreWithLexicon('Terrible news, so sad').label).toBe('negative');
+        expect(scoreWithLexicon("I don't like this").label).toBe('negative');
+        expect(scoreWithLexicon('The bus leaves at noon').label).toBe('neutral');
+    });
+
+    it('scores Bangla text, with negation after the word', () => {
+        expect(scoreWithLexicon('খুবই চমৎকার উদ্যোগ, ধন্যবাদ।').label).toBe('positive');
+        expect(scoreWithLexicon('দুর্নীতি আর মিথ্যা, ভয়ংকর অবস্থা').label).toBe('negative');
+        expect(scoreWithLexicon('খাবারটা ভালো না').label).toBe('negative');
+        expect(scoreWithLexicon('পরিস্থিতি ভালো নয়').label).toBe('negative');
+    });
+
+    it('scores Banglish text', () => {
+        expect(scoreWithLexicon('eta khub valo hoise bhai, darun').label).toBe('positive');
+        expect(scoreWithLexicon('valo na eta, faltu').label).toBe('negative');
+    });
+
+    it('matches Bangla words whatever their Unicode normalization', () => {
+        // The single code point U+09DF for য়, which NFC splits into য and a nukta
+        const precomposed = 'ভ\u09DFংকর';
+
+        expect(scoreWithLexicon(precomposed).label).toBe('negative');
+    });
+
+    it('keeps scores within -1..1 and reports the emotions found', () => {
+        const result = scoreWithLexicon('love love love love love love, so happy and proud');
+
+        expect(result.score).toBeGreaterThan(0.9);
+        expect(result.score).toBeLessThanOrEqual(1);
+        expect(result.emotions).toContain('joy');
+        expect(scoreWithLexicon('সবাই আতঙ্কে, ভয় লাগছে').emotions).toContain('fear');
+    });
+});
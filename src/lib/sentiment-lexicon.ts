@@ -0,0 +1,91 @@
+import { segmentWords } from './language';
+import type { SentimentLabel } from './storage/types';
+
+export const EMOTIONS = ['joy', 'anger', 'sadness', 'fear', 'surprise', 'disgust', 'trust'] as const;
+export type Emotion = (typeof EMOTIONS)[number];
+
+// Word weights from -3 to 3, a small AFINN-style list tuned for Reddit threads
+const VALENCE: Record<string, number> = {
+    amazing: 3, awesome: 3, excellent: 3, fantastic: 3, love: 3, wonderful: 3, brilliant: 3, best: 3,
+    beautiful: 2, congrats: 2, congratulations: 2, glad: 2, good: 2, great: 2, happy: 2, helpful: 2,
+    hope: 2, impressive: 2, nice: 2, proud: 2, safe: 2, thank: 2, thanks: 2, win: 2, won: 2,
+    agree: 1, better: 1, calm: 1, cool: 1, fine: 1, fair: 1, like: 1, peaceful: 1, support: 1, useful: 1,
+    bad: -2, broken: -2, corrupt: -2, corruption: -2, crisis: -2, dead: -2, died: -2, fail: -2,
+    failed: -2, fake: -2, fear: -2, hate: -3, horrible: -3, killed: -3, terrible: -3, worst: -3,
+    awful: -3, disgusting: -3, angry: -2, attack: -2, crime: -2, danger: -2, dangerous: -2,
+    injured: -2, lie: -2, lies: -2, poor: -2, problem: -1, protest: -1, sad: -2, scam: -2,
+    scared: -2, shame: -2, stupid: -2, violence: -3, war: -2, wrong: -1, worse: -2, worried: -2,
+    annoying: -1, confused: -1, difficult: -1, doubt: -1, issue: -1, unfortunately: -1,
+    // Bangla
+    'অসাধারণ': 3, 'চমৎকার': 3, 'দারুণ': 3, 'ভালোবাসা': 3, 'ভালোবাসি': 3,
+    'অভিনন্দন': 2, 'আশা': 2, 'খুশি': 2, 'গর্ব': 2, 'জয়': 2, 'ধন্যবাদ': 2, 'নিরাপদ': 2, 'ভালো': 2,
+    'ভাল': 2, 'সফল': 2, 'সুন্দর': 2, 'আনন্দ': 2, 'শান্তি': 1, 'সাহায্য': 1, 'সমর্থন': 1,
+    'খারাপ': -2, 'বাজে': -2, 'দুর্নীতি': -2, 'মৃত্যু': -2, 'আহত': -2, 'হামলা': -2, 'দুঃখ': -2,
+    'দুঃখজনক': -2, 'ভয়': -2, 'রাগ': -2, 'মিথ্যা': -2, 'সংকট': -2, 'লজ্জা': -2, 'অন্যায়': -2,
+    'চুরি': -2, 'দুর্ঘটনা': -2, 'বিপদ': -2, 'ব্যর্থ': -2, 'প্রতারণা': -2, 'যুদ্ধ': -2, 'হতাশ': -2,
+    'চিন্তিত': -2, 'নিহত': -3, 'সহিংসতা': -3, 'ঘৃণা': -3, 'ভয়ংকর': -3, 'ভয়ঙ্কর': -3,
+    'সমস্যা': -1, 'বিরক্ত': -1,
+    // Banglish, Bangla in Latin script
+    darun: 3, oshadharon: 3, bhalo: 2, valo: 2, sundor: 2, khushi: 2, dhonnobad: 2,
+    kharap: -2, baje: -2, faltu: -2, bhoy: -2, dukkho: -2, lojja: -2
+};
+
+const EMOTION_WORDS: Record<Emotion, string[]> = {
+    joy: ['happy', 'glad', 'love', 'celebrate', 'congrats', 'congratulations', 'excited', 'fun', 'proud', 'yay', 'খুশি', 'আনন্দ', 'khushi'],
+    anger: ['angry', 'hate', 'furious', 'outrage', 'rage', 'corrupt', 'corruption', 'attack', 'unfair', 'disgrace', 'রাগ', 'ক্ষোভ', 'ঘৃণা'],
+    sadness: ['sad', 'died', 'dead', 'grief', 'loss', 'lost', 'miss', 'cry', 'tragic', 'rip', 'দুঃখ', 'কষ্ট', 'মৃত্যু', 'dukkho'],
+    fear: ['afraid', 'fear', 'scared', 'worried', 'danger', 'dangerous', 'threat', 'panic', 'unsafe', 'risk', 'ভয়', 'আতঙ্ক', 'বিপদ', 'bhoy'],
+    surprise: ['surprised', 'shocking', 'shocked', 'unexpected', 'wow', 'unbelievable', 'suddenly', 'omg', 'অবাক'],
+    disgust: ['disgusting', 'gross', 'sick', 'shameful', 'nasty', 'vile', 'shame', 'pathetic', 'লজ্জা', 'জঘন্য'],
+    trust: ['trust', 'reliable', 'honest', 'support', 'safe', 'agree', 'thanks', 'thank', 'helpful', 'proof', 'বিশ্বাস', 'ধন্যবাদ', 'dhonnobad']
+};
+
+// Keys compared in NFC, the form `segmentWords` produces
+const VALENCE_NFC = new Map(Object.entries(VALENCE).map(([word, valence]) => [word.normalize('NFC'), valence]));
+const EMOTION_WORDS_NFC = new Map(EMOTIONS.map(emotion => [emotion, new Set(EMOTION_WORDS[emotion].map(word => word.normalize('NFC')))]));
+
+const NEGATORS = new Set(['not', 'no', 'never', 'dont', 'doesnt', 'didnt', 'isnt', 'wasnt', 'cant', 'wont', 'without']);
+// Bangla negates after the word: ভালো না, valo na
+const TRAILING_NEGATORS = new Set(['না', 'নয়', 'নেই', 'নাই', 'na', 'noy', 'nai', 'nei'].map(word => word.normalize('NFC')));
+
+export interface LexiconScore {
+    label: SentimentLabel;
+    score: number;
+    emotions: Emotion[];
+}
+
+/**
+ * Scores English, Bangla and Banglish text by summing word valences,
+ * flipping a word when one of the two words before it is a negator, or the
+ * word after it is a Bangla one. The sum is squashed into -1..1 so long texts
+ * do not dominate. Used when no language model is configured.
+ */
+export function scoreWithLexicon(text: string): LexiconScore {
+    const words = segmentWords(text.toLowerCase().replace(/['’]/g, ''));
+
+    let total = 0;
+    const emotionCounts = new Map<Emotion, number>();
+    words.forEach((word, index) => {
+        const valence = VALENCE_NFC.get(word);
+        if (valence !== undefined) {
+            const negated = NEGATORS.has(words[index - 1]) || NEGATORS.has(words[index - 2])
+                || TRAILING_NEGATORS.has(words[index + 1]);
+            total += negated ? -valence : valence;
+        }
+
+        EMOTIONS.forEach(emotion => {
+            if (EMOTION_WORDS_NFC.get(emotion)!.has(word)) {
+                emotionCounts.set(emotion, (emotionCounts.get(emotion) ?? 0) + 1);
+            }
+        });
+    });
+
+    const score = total / Math.sqrt(total * total + 15);
+    const label: SentimentLabel = score > 0.2 ? 'positive' : score < -0.2 ? 'negative' : 'neutral';
+    const emotions = [...emotionCounts.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, 2)
+        .map(([emotion]) => emotion);
+
+    return { label, score: Number(score.toFixed(3)), emotions };
+}
@@ -0,0 +1,273 @@
+import { z } from 'zod';
+import type { GeminiClient } from './gemini-client';
+import { LLMClient, LLMResponseError, parseJsonResponse } from './llm';
+import { EMOTIONS, Emotion, scoreWithLexicon } from './sentiment-lexicon';
+import type { SentimentLabel, SentimentRecord, Storage } from './storage/types';
+
+export interface SentimentItem {
+    // Reddit fullname (t3_ for posts, t1_ for comments), so posts and comments never collide
+    id: string;
+    kind: 'post' | 'comment';
+    subreddit: string;
+    text: string;
+    createdUtc: number;
+}
+
+export interface SentimentScore {
+    label: SentimentLabel;
+    score: number;
+    emotions: Emotion[];
+}
+
+export interface SentimentScorer {
+    readonly name: SentimentRecord['scorer'];
+    // Items missing from the result could not be scored and should be retried later
+    score(items: SentimentItem[]): Promise<Map<string, SentimentScore>>;
+}
+
+export class LexiconSentimentScorer implements SentimentScorer {
+    public readonly name = 'lexicon';
+
+    public async score(items: SentimentItem[]) {
+        return new Map(items.map(item => [item.id, scoreWithLexicon(item.text)]));
+    }
+}
+
+const MAX_CHARS_PER_ITEM = 1500;
+// Keeps the answer for a batch well inside the output token limit
+const MAX_ITEMS_PER_BATCH = 80;
+// Room left for the instructions and for the tokenizer disagreeing with our estimate
+const PROMPT_BUDGET_SHARE = 0.6;
+
+// Rough count; Gemini averages about four characters per token on English text
+export function estimateTokens(text: string) {
+    return Math.ceil(text.length / 4);
+}
+
+function clipItem(item: SentimentItem) {
+    const text = item.text.replace(/\s+/g, ' ').trim();
+    return text.length > MAX_CHARS_PER_ITEM ? `${text.slice(0, MAX_CHARS_PER_ITEM)}…` : text;
+}
+
+// Splits items into consecutive batches whose estimated size stays under the token budget
+export function batchByTokens(items: SentimentItem[], tokenBudget: number, maxItems: number = MAX_ITEMS_PER_BATCH) {
+    const batches: SentimentItem[][] = [];
+    let current: SentimentItem[] = [];
+    let currentTokens = 0;
+
+    for (const item of items) {
+        const tokens = estimateTokens(clipItem(item)) + 8;
+        if (current.length > 0 && (currentTokens + tokens > tokenBudget || current.length >= maxItems)) {
+            batches.push(current);
+            current = [];
+            currentTokens = 0;
+        }
+        current.push(item);
+        currentTokens += tokens;
+    }
+
+    if (current.length > 0) {
+        batches.push(current);
+    }
+    return batches;
+}
+
+const SentimentResponseSchema = z.object({
+    results: z.array(z.object({
+        index: z.number().int(),
+        label: z.enum(['positive', 'negative', 'neutral']),
+        score: z.number(),
+        emotions: z.array(z.string())
+    }))
+});
+
+export function buildSentimentPrompt(items: SentimentItem[]) {
+    return [
+        'Classify the sentiment of each Reddit text below. Respond with JSON only, using this shape:',
+        '{"results": [{"index": number, "label": "positive" | "negative" | "neutral", "score": number, "emotions": string[]}]}',
+        '- "index": the number shown before the text.',
+        '- "score": from -1 (very negative) to 1 (very positive).',
+        `- "emotions": zero to two of ${EMOTIONS.join(', ')}.`,
+        'Texts may be in Bengali, Banglish or other languages; judge them in their own language.',
+        'Include every text exactly once.',
+        '',
+        ...items.map((item, index) => `[${index + 1}] ${clipItem(item)}`)
+    ].join('\n');
+}
+
+/**
+ * Scores items with a language model, packing as many into one call as the
+ * model's input token limit allows. A batch that fails is logged and left
+ * unscored, so the next run picks it up again.
+ */
+export class LLMSentimentScorer implements SentimentScorer {
+    public readonly name = 'llm';
+
+    constructor(private readonly llm: LLMClient, private readonly inputTokenLimit: number) {}
+
+    public async score(items: SentimentItem[]) {
+        const scores = new Map<string, SentimentScore>();
+        const overhead = estimateTokens(buildSentimentPrompt([]));
+        const budget = Math.max(this.inputTokenLimit * PROMPT_BUDGET_SHARE - overhead, 1000);
+
+        for (const batch of batchByTokens(items, budget)) {
+            try {
+                const batchScores = await this.scoreBatch(batch);
+                batchScores.forEach((score, id) => scores.set(id, score));
+            } catch (error) {
+                console.error('Error scoring sentiment batch:', error instanceof Error ? error.message : 'Unknown error');
+            }
+        }
+
+        return scores;
+    }
+
+    private async scoreBatch(batch: SentimentItem[]) {
+        const text = await this.llm.generate(buildSentimentPrompt(batch), { json: true, temperature: 0 });
+
+        const parsed = SentimentResponseSchema.safeParse(parseJsonResponse(text));
+        if (!parsed.success) {
+            throw new LLMResponseError('Model returned sentiment in an unexpected shape', text);
+        }
+
+        const scores = new Map<string, SentimentScore>();
+        for (const result of parsed.data.results) {
+            const item = batch[result.index - 1];
+            if (!item) {
+                continue;
+            }
+            scores.set(item.id, {
+                label: result.label,
+                score: Math.max(-1, Math.min(1, result.score)),
+                emotions: result.emotions
+                    .map(emotion => emotion.toLowerCase())
+                    .filter((emotion): emotion is Emotion => (EMOTIONS as readonly string[]).includes(emotion))
+                    .slice(0, 2)
+            });
+        }
+        return scores;
+    }
+}
+
+const DEFAULT_INPUT_TOKEN_LIMIT = 32_000;
+
+// Gemini when a client is configured, the local lexicon otherwise
+export async function createSentimentScorer(gemini: GeminiClient | null): Promise<SentimentScorer> {
+    if (!gemini) {
+        return new LexiconSentimentScorer();
+    }
+
+    let inputTokenLimit = DEFAULT_INPUT_TOKEN_LIMIT;
+    try {
+        const info = await gemini.getModelInfo();
+        inputTokenLimit = info?.inputTokenLimit ?? DEFAULT_INPUT_TOKEN_LIMIT;
+    } catch (error) {
+        console.error('Error fetching Gemini model info:', error instanceof Error ? error.message : 'Unknown error');
+    }
+    return new LLMSentimentScorer(gemini, inputTokenLimit);
+}
+
+export interface ScoreStoredOptions {
+    subreddit?: string;
+    // Only posts created at or after this time, and their comments
+    since?: Date;
+    maxPosts?: number;
+}
+
+// Loads stored posts and their comments as sentiment items
+async function collectItems(storage: Storage, options: ScoreStoredOptions) {
+    const posts = await storage.posts.findPosts({
+        subreddit: options.subreddit,
+        createdAfter: options.since,
+        sortBy: 'createdUtc',
+        limit: options.maxPosts ?? 200
+    });
+
+    const items: SentimentItem[] = [];
+    for (const post of posts) {
+        items.push({
+            id: post.name,
+            kind: 'post',
+            subreddit: post.subreddit,
+            text: `${post.title}\n${post.selftext}`,
+            createdUtc: post.createdUtc
+        });
+
+        const comments = await storage.posts.getComments(post.id);
+        comments
+            .filter(comment => comment.body !== '[deleted]' && comment.body !== '[removed]')
+            .forEach(comment => items.push({
+                id: comment.name,
+                kind: 'comment',
+                subreddit: comment.subreddit,
+                text: comment.body,
+                createdUtc: comment.createdUtc
+            }));
+    }
+    return items;
+}
+
+/**
+ * Scores stored posts and comments that have no sentiment yet and saves the
+ * results. Returns how many items were scored.
+ */
+export async function scoreStoredItems(storage: Storage, scorer: SentimentScorer, options: ScoreStoredOptions = {}) {
+    const items = await collectItems(storage, options);
+    const scored = await storage.sentiment.findScored(items.map(item => item.id));
+    const pending = items.filter(item => !scored.has(item.id));
+    if (pending.length === 0) {
+        return 0;
+    }
+
+    const scores = await scorer.score(pending);
+    const scoredAt = new Date();
+    const records: SentimentRecord[] = pending.flatMap(item => {
+        const score = scores.get(item.id);
+        return score ? [{
+            itemId: item.id,
+            kind: item.kind,
+            subreddit: item.subreddit,
+            createdUtc: item.createdUtc,
+            ...score,
+            scorer: scorer.name,
+            scoredAt
+        }] : [];
+    });
+
+    await storage.sentiment.save(records);
+    return records.length;
+}
+
+export interface SentimentBucket {
+    // Start of the bucket, in ms since the epoch
+    start: number;
+    count: number;
+    positive: number;
+    negative: number;
+    neutral: number;
+    meanScore: number;
+    emotions: Partial<Record<Emotion, number>>;
+}
+
+// Groups records into fixed-width time buckets, oldest first, skipping empty ones
+export function sentimentTimeline(records: SentimentRecord[], bucketMs: number = 24 * 60 * 60 * 1000): SentimentBucket[] {
+    const buckets = new Map<number, SentimentBucket>();
+
+    for (const record of records) {
+        const start = Math.floor((record.createdUtc * 1000) / bucketMs) * bucketMs;
+        let bucket = buckets.get(start);
+        if (!bucket) {
+            bucket = { start, count: 0, positive: 0, negative: 0, neutral: 0, meanScore: 0, emotions: {} };
+            buckets.set(start, bucket);
+        }
+
+        bucket.meanScore = (bucket.meanScore * bucket.count + record.score) / (bucket.count + 1);
+        bucket.count++;
+        bucket[record.label]++;
+        for (const emotion of record.emotions as Emotion[]) {
+            bucket.emotions[emotion] = (bucket.emotions[emotion] ?? 0) + 1;
+        }
+    }
+
+    return [...buckets.values()].sort((a, b) => a.start - b.start);
+}
@@ -0,0 +1,167 @@
+import { z } from 'zod';
+import { createGeminiClient, GeminiClient } from './gemini-client';
+import type { RedditAPI, SubredditStatus } from './reddit-api';
+import { createRedditClient } from './reddit-client';
+import type { AppSettings, Storage } from './storage/types';
+import { LISTING_SORTS, LISTING_TIMES, TRACKED_SUBREDDITS, isValidSubredditName } from './subreddits';
+
+// Used until the settings are saved for the first time
+export function defaultSettings(): AppSettings {
+    const collectorSubreddits = process.env.COLLECTOR_SUBREDDITS
+        ?.split(',')
+        .map(name => name.trim())
+        .filter(Boolean);
+
+    return {
+        trackedSubreddits: collectorSubreddits?.length
+            ? collectorSubreddits.map(name => ({ name, description: `r/${name}` }))
+            : TRACKED_SUBREDDITS,
+        collectorIntervalMinutes: Number(process.env.COLLECTOR_INTERVAL_MINUTES) || 15,
+        notificationPollSeconds: 60,
+        defaultSort: 'hot',
+        defaultTime: 'day',
+        geminiModel: process.env.GEMINI_MODEL || GeminiClient.DEFAULT_MODEL,
+        updatedAt: new Date(0)
+    };
+}
+
+export async function getSettings(storage: Storage): Promise<AppSettings> {
+    return await storage.settings.get() ?? defaultSettings();
+}
+
+export const SettingsInputSchema = z.object({
+    trackedSubreddits: z.array(z.object({
+        name: z.string().trim().refine(isValidSubredditName, 'Invalid subreddit name'),
+        description: z.string().trim().max(200).default('')
+    })).min(1, 'Track at least one subreddit').max(50),
+    collectorIntervalMinutes: z.number().int().min(1).max(24 * 60),
+    notificationPollSeconds: z.number().int().min(10).max(60 * 60),
+    defaultSort: z.enum(LISTING_SORTS as [AppSettings['defaultSort'], ...AppSettings['defaultSort'][]]),
+    defaultTime: z.enum(LISTING_TIMES as [AppSettings['defaultTime'], ...AppSettings['defaultTime'][]]),
+    geminiModel: z.string().trim().min(1).max(100)
+});
+
+export type SettingsInput = z.infer<typeof SettingsInputSchema>;
+
+export class UnavailableSubredditsError extends Error {
+    constructor(public readonly subreddits: { name: string; status: SubredditStatus }[]) {
+        super(`Cannot track ${subreddits.map(({ name, status }) => `r/${name} (${status.replace('_', ' ')})`).join(', ')}`);
+        this.name = 'UnavailableSubredditsError';
+    }
+}
+
+/**
+ * Saves the settings after checking every newly added subreddit against
+ * /r/{name}/about. Names are case-insensitive on Reddit, so duplicates that
+ * differ only in case are dropped.
+ */
+export async function saveSettings(storage: Storage, api: RedditAPI, input: SettingsInput): Promise<AppSettings> {
+    const current = await getSettings(storage);
+    const known = new Set(current.trackedSubreddits.map(subreddit => subreddit.name.toLowerCase()));
+
+    const seen = new Set<string>();
+    const trackedSubreddits = input.trackedSubreddits.filter(subreddit => {
+        const key = subreddit.name.toLowerCase();
+        if (seen.has(key)) {
+            return false;
+        }
+        seen.add(key);
+        return true;
+    });
+
+    const added = trackedSubreddits.filter(subreddit => !known.has(subreddit.name.toLowerCase()));
+    const statuses = await Promise.all(added.map(async ({ name }) => ({ name, status: await api.getSubredditStatus(name) })));
+    const unavailable = statuses.filter(({ status }) => status !== 'ok');
+    if (unavailable.length > 0) {
+        throw new UnavailableSubredditsError(unavailable);
+    }
+
+    const settings: AppSettings = {
+        ...input,
+        trackedSubreddits: trackedSubreddits.map(({ name, description }) => ({ name, description: description || `r/${name}` })),
+        updatedAt: new Date()
+    };
+    await storage.settings.save(settings);
+    return settings;
+}
+
+// Gemini client using the model chosen on the Settings page, or null without an API key
+export async function createConfiguredGeminiClient(storage: Storage) {
+    const { geminiModel } = await getSettings(storage);
+    return createGeminiClient({ model: geminiModel });
+}
+
+export interface GeminiModelOption {
+    // Model id without the `models/` prefix, as passed to the API
+    id: string;
+    displayName: string;
+    inputTokenLimit: number;
+}
+
+// Models that can generate text, for the model picker
+export async function listGeminiModels(): Promise<GeminiModelOption[]> {
+    const client = createGeminiClient();
+    if (!client) {
+        return [];
+    }
+
+    const models = await client.listModels();
+    return models
+        .filter(model => model.supportedGenerationMethods?.includes('generateContent'))
+        .map(model => ({
+            id: model.name.replace(/^models\//, ''),
+            displayName: model.displayName,
+            inputTokenLimit: model.inputTokenLimit
+        }));
+}
+
+export interface ConnectionTestResult {
+    ok: boolean;
+    message: string;
+    latencyMs: number;
+}
+
+async function timed(run: () => Promise<string>): Promise<ConnectionTestResult> {
+    const startedAt = Date.now();
+    try {
+        const message = await run();
+        return { ok: true, message, latencyMs: Date.now() - startedAt };
+    } catch (error) {
+        return {
+            ok: false,
+            // Gemini errors carry the whole response body
+            message: (error instanceof Error ? error.message : 'Unknown error').slice(0, 300),
+            latencyMs: Date.now() - startedAt
+        };
+    }
+}
+
+// Obtains a token with the configured grant and reads a public subreddit
+export async function testRedditConnection(): Promise<ConnectionTestResult> {
+    const api = createRedditClient({ cached: false });
+    try {
+        return await timed(async () => {
+            const status = await api.getSubredditStatus('announcements');
+            if (status !== 'ok') {
+                throw new Error(`Unexpected status for r/announcements: ${status}`);
+            }
+            const { remaining } = api.getRateLimitState();
+            return `Authenticated with Reddit${remaining !== null ? `, ${remaining} requests left in this window` : ''}`;
+        });
+    } finally {
+        await api.cleanup();
+    }
+}
+
+// Sends a tiny prompt to the given model
+export async function testGeminiConnection(model: string): Promise<ConnectionTestResult> {
+    const client = createGeminiClient({ model });
+    if (!client) {
+        return { ok: false, message: 'GEMINI_API_KEY is not set', latencyMs: 0 };
+    }
+
+    return timed(async () => {
+        const reply = await client.generate('Reply with the single word OK.');
+        return `${model} answered "${reply.trim().slice(0, 40)}"`;
+    });
+}
@@ -0,0 +1,22 @@
+export * from './types';
+export { getStorage } from './provider';
+export { toStoredComments, toStoredPost } from './mappers';
+export {
+    createInMemoryStorage,
+    InMemoryAccessTokenRepository,
+    InMemoryAlertDeliveryRepository,
+    InMemoryAlertRepository,
+    InMemoryAnalysisRepository,
+    InMemoryCollectorRepository,
+    InMemoryCommunityRepository,
+    InMemoryDigestRepository,
+    InMemoryNotificationRepository,
+    InMemoryPostRepository,
+    InMemoryRedditConnectionRepository,
+    InMemorySavedSearchRepository,
+    InMemorySentimentRepository,
+    InMemorySettingsRepository,
+    InMemoryUserRepository,
+    InMemoryWatchlistRepository
+} from './memory';
+export { recordPosts, recordThread } from './record';
@@ -0,0 +1,41 @@
+import type { CommentNode } from '../comment-tree';
+import type { RedditPost } from '../reddit-schemas';
+import type { StoredCommentInput, StoredPostInput } from './types';
+
+export function toStoredPost(post: RedditPost): StoredPostInput {
+    return {
+        id: post.id,
+        name: post.name,
+        subreddit: post.subreddit,
+        title: post.title,
+        selftext: post.selftext,
+        author: post.author,
+        authorFlair: post.author_flair_text,
+        linkFlair: post.link_flair_text,
+        url: post.url,
+        permalink: post.permalink,
+        createdUtc: post.created_utc,
+        score: post.score,
+        numComments: post.num_comments,
+        upvoteRatio: post.upvote_ratio ?? null
+    };
+}
+
+// Flattens a normalized comment tree into one record per comment
+export function toStoredComments(post: RedditPost, comments: CommentNode[], parentId: string = post.name): StoredCommentInput[] {
+    return comments.flatMap(comment => [
+        {
+            id: comment.id,
+            name: comment.name,
+            postId: post.id,
+            parentId,
+            subreddit: post.subreddit,
+            author: comment.author,
+            authorFlair: comment.authorFlair,
+            body: comment.body,
+            createdUtc: comment.createdUtc,
+            score: comment.score
+        },
+        ...toStoredComments(post, comment.replies, comment.name)
+    ]);
+}
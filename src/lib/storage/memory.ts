@@ -0,0 +1,458 @@
+import type {
+    AccessTokenRepository,
+    AlertChannel,
+    AlertDelivery,
+    AlertDeliveryRepository,
+    AlertRepository,
+    AlertRule,
+    AnalysisRecord,
+    AnalysisRepository,
+    AppSettings,
+    CollectorCheckpoint,
+    CollectorRepository,
+    CollectorRun,
+    CommentSnapshot,
+    CommunityRepository,
+    Digest,
+    DigestRepository,
+    HistoryRange,
+    Notification,
+    NotificationQuery,
+    NotificationRepository,
+    PostQuery,
+    PostRepository,
+    PostSnapshot,
+    RedditConnection,
+    RedditConnectionRepository,
+    SavedSearch,
+    SavedSearchRepository,
+    SentimentRecord,
+    SentimentRepository,
+    SettingsRepository,
+    Storage,
+    StoredAccessToken,
+    StoredComment,
+    StoredCommentInput,
+    StoredPost,
+    StoredPostInput,
+    SubredditSnapshot,
+    User,
+    UserPreferences,
+    UserRepository,
+    Watchlist,
+    WatchlistRepository
+} from './types';
+
+function inRange(date: Date, range: HistoryRange = {}) {
+    return (!range.from || date >= range.from) && (!range.to || date <= range.to);
+}
+
+/**
+ * Keeps everything in process memory. Used for tests and for local
+ * development without a MongoDB instance; data is lost on restart.
+ */
+export class InMemoryPostRepository implements PostRepository {
+    private readonly posts = new Map<string, StoredPost>();
+    private readonly comments = new Map<string, StoredComment>();
+    private readonly postSnapshots = new Map<string, PostSnapshot[]>();
+    private readonly commentSnapshots = new Map<string, CommentSnapshot[]>();
+
+    public async upsertPosts(posts: StoredPostInput[], capturedAt: Date = new Date()) {
+        for (const post of posts) {
+            const existing = this.posts.get(post.id);
+            this.posts.set(post.id, {
+                ...post,
+                firstSeenAt: existing?.firstSeenAt ?? capturedAt,
+                lastSeenAt: capturedAt
+            });
+
+            const snapshots = this.postSnapshots.get(post.id) ?? [];
+            snapshots.push({
+                postId: post.id,
+                capturedAt,
+                score: post.score,
+                numComments: post.numComments,
+                upvoteRatio: post.upvoteRatio
+            });
+            this.postSnapshots.set(post.id, snapshots);
+        }
+    }
+
+    public async upsertComments(comments: StoredCommentInput[], capturedAt: Date = new Date()) {
+        for (const comment of comments) {
+            const existing = this.comments.get(comment.id);
+            this.comments.set(comment.id, {
+                ...comment,
+                firstSeenAt: existing?.firstSeenAt ?? capturedAt,
+                lastSeenAt: capturedAt
+            });
+
+            const snapshots = this.commentSnapshots.get(comment.id) ?? [];
+            snapshots.push({ commentId: comment.id, capturedAt, score: comment.score });
+            this.commentSnapshots.set(comment.id, snapshots);
+        }
+    }
+
+    public async getPost(id: string) {
+        return this.posts.get(id) ?? null;
+    }
+
+    public async findPosts(query: PostQuery = {}) {
+        const { subreddit, createdAfter, seenAfter, sortBy = 'createdUtc', limit = 100 } = query;
+        const subredditKey = subreddit?.toLowerCase();
+
+        return [...this.posts.values()]
+            .filter(post => !subredditKey || post.subreddit.toLowerCase() === subredditKey)
+            .filter(post => !createdAfter || post.createdUtc * 1000 >= createdAfter.getTime())
+            .filter(post => !seenAfter || post.lastSeenAt >= seenAfter)
+            .sort((a, b) => {
+                if (sortBy === 'lastSeenAt') {
+                    return b.lastSeenAt.getTime() - a.lastSeenAt.getTime();
+                }
+                return b[sortBy] - a[sortBy];
+            })
+            .slice(0, limit);
+    }
+
+    public async getComments(postId: string) {
+        return [...this.comments.values()]
+            .filter(comment => comment.postId === postId)
+            .sort((a, b) => a.createdUtc - b.createdUtc);
+    }
+
+    public async getPostHistory(postId: string, range?: HistoryRange) {
+        return (this.postSnapshots.get(postId) ?? []).filter(snapshot => inRange(snapshot.capturedAt, range));
+    }
+
+    public async getPostHistories(postIds: string[], range?: HistoryRange) {
+        const histories = new Map<string, PostSnapshot[]>();
+        for (const postId of postIds) {
+            histories.set(postId, await this.getPostHistory(postId, range));
+        }
+        return histories;
+    }
+
+    public async getCommentHistory(commentId: string, range?: HistoryRange) {
+        return (this.commentSnapshots.get(commentId) ?? []).filter(snapshot => inRange(snapshot.capturedAt, range));
+    }
+}
+
+export class InMemoryCollectorRepository implements CollectorRepository {
+    private readonly checkpoints = new Map<string, CollectorCheckpoint>();
+    private readonly runs: CollectorRun[] = [];
+
+    private static key(subreddit: string, sort: string) {
+        return `${subreddit.toLowerCase()}:${sort}`;
+    }
+
+    public async getCheckpoint(subreddit: string, sort: string) {
+        return this.checkpoints.get(InMemoryCollectorRepository.key(subreddit, sort)) ?? null;
+    }
+
+    public async saveCheckpoint(checkpoint: CollectorCheckpoint) {
+        this.checkpoints.set(InMemoryCollectorRepository.key(checkpoint.subreddit, checkpoint.sort), checkpoint);
+    }
+
+    public async saveRun(run: CollectorRun) {
+        this.runs.push(run);
+    }
+
+    public async listRuns(limit: number = 20) {
+        return [...this.runs].reverse().slice(0, limit);
+    }
+}
+
+export class InMemoryAnalysisRepository implements AnalysisRepository {
+    private readonly records = new Map<string, AnalysisRecord>();
+
+    public async get<T>(kind: string, key: string) {
+        return (this.records.get(`${kind}:${key}`) as AnalysisRecord<T> | undefined) ?? null;
+    }
+
+    public async put<T>(kind: string, key: string, value: T) {
+        this.records.set(`${kind}:${key}`, { kind, key, value, createdAt: new Date() });
+    }
+}
+
+export class InMemoryDigestRepository implements DigestRepository {
+    private readonly digests = new Map<string, Digest>();
+
+    public async save(digest: Digest) {
+        this.digests.set(`${digest.subreddit.toLowerCase()}:${digest.date}`, digest);
+    }
+
+    public async get(subreddit: string, date: string) {
+        return this.digests.get(`${subreddit.toLowerCase()}:${date}`) ?? null;
+    }
+
+    public async listDates(subreddit: string) {
+        return [...this.digests.values()]
+            .filter(digest => digest.subreddit.toLowerCase() === subreddit.toLowerCase())
+            .map(digest => digest.date)
+            .sort()
+            .reverse();
+    }
+}
+
+export class InMemorySentimentRepository implements SentimentRepository {
+    private readonly records = new Map<string, SentimentRecord>();
+
+    public async save(records: SentimentRecord[]) {
+        records.forEach(record => this.records.set(record.itemId, record));
+    }
+
+    public async findScored(itemIds: string[]) {
+        return new Set(itemIds.filter(id => this.records.has(id)));
+    }
+
+    public async findBySubreddit(subreddit: string, since: Date) {
+        return [...this.records.values()]
+            .filter(record => record.subreddit.toLowerCase() === subreddit.toLowerCase())
+            .filter(record => record.createdUtc * 1000 >= since.getTime())
+            .sort((a, b) => a.createdUtc - b.createdUtc);
+    }
+}
+
+export class InMemoryWatchlistRepository implements WatchlistRepository {
+    private readonly watchlists = new Map<string, Watchlist>();
+
+    public async list(userId: string) {
+        return [...this.watchlists.values()]
+            .filter(watchlist => watchlist.userId === userId)
+            .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    }
+
+    public async listEnabled() {
+        return [...this.watchlists.values()].filter(watchlist => watchlist.enabled);
+    }
+
+    public async get(userId: string, id: string) {
+        const watchlist = this.watchlists.get(id);
+        return watchlist?.userId === userId ? watchlist : null;
+    }
+
+    public async save(watchlist: Watchlist) {
+        this.watchlists.set(watchlist.id, watchlist);
+    }
+
+    public async delete(userId: string, id: string) {
+        return (await this.get(userId, id)) !== null && this.watchlists.delete(id);
+    }
+}
+
+export class InMemoryNotificationRepository implements NotificationRepository {
+    private readonly notifications: Notification[] = [];
+
+    public async add(notifications: Notification[]) {
+        const added = notifications.filter(notification => !this.notifications.some(existing =>
+            existing.watchlistId === notification.watchlistId && existing.itemId === notification.itemId
+        ));
+        this.notifications.push(...added);
+        return added;
+    }
+
+    public async list(userId: string, query: NotificationQuery = {}) {
+        return this.notifications
+            .filter(notification => notification.userId === userId && (!query.unreadOnly || !notification.read))
+            .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+            .slice(0, query.limit ?? 50);
+    }
+
+    public async countUnread(userId: string) {
+        return this.notifications.filter(notification => notification.userId === userId && !notification.read).length;
+    }
+
+    public async markRead(userId: string, ids?: string[]) {
+        this.notifications
+            .filter(notification => notification.userId === userId && (!ids || ids.includes(notification.id)))
+            .forEach(notification => notification.read = true);
+    }
+}
+
+export class InMemoryAlertRepository implements AlertRepository {
+    private readonly channels = new Map<string, AlertChannel>();
+    private readonly rules = new Map<string, AlertRule>();
+
+    public async listChannels(userId: string) {
+        return [...this.channels.values()].filter(channel => channel.userId === userId);
+    }
+
+    public async getChannel(userId: string, id: string) {
+        const channel = this.channels.get(id);
+        return channel?.userId === userId ? channel : null;
+    }
+
+    public async saveChannel(channel: AlertChannel) {
+        this.channels.set(channel.id, channel);
+    }
+
+    public async deleteChannel(userId: string, id: string) {
+        return (await this.getChannel(userId, id)) !== null && this.channels.delete(id);
+    }
+
+    public async listRules(userId: string) {
+        return [...this.rules.values()].filter(rule => rule.userId === userId);
+    }
+
+    public async listEnabledRules() {
+        return [...this.rules.values()].filter(rule => rule.enabled);
+    }
+
+    public async saveRule(rule: AlertRule) {
+        this.rules.set(rule.id, rule);
+    }
+
+    public async deleteRule(userId: string, id: string) {
+        return this.rules.get(id)?.userId === userId && this.rules.delete(id);
+    }
+}
+
+export class InMemoryAlertDeliveryRepository implements AlertDeliveryRepository {
+    private readonly deliveries: AlertDelivery[] = [];
+
+    public async record(delivery: AlertDelivery) {
+        this.deliveries.push(delivery);
+    }
+
+    public async wasDelivered(ruleId: string, channelId: string, postId: string) {
+        return this.deliveries.some(delivery =>
+            delivery.status === 'sent' &&
+            delivery.ruleId === ruleId &&
+            delivery.channelId === channelId &&
+            delivery.postId === postId
+        );
+    }
+
+    public async list(userId: string, limit: number = 50) {
+        return this.deliveries
+            .filter(delivery => delivery.userId === userId)
+            .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+            .slice(0, limit);
+    }
+}
+
+export class InMemoryUserRepository implements UserRepository {
+    private readonly users = new Map<string, User>();
+    private readonly preferences = new Map<string, UserPreferences>();
+
+    public async get(id: string) {
+        return this.users.get(id) ?? null;
+    }
+
+    public async save(user: User) {
+        this.users.set(user.id, user);
+    }
+
+    public async getPreferences(userId: string) {
+        return this.preferences.get(userId) ?? null;
+    }
+
+    public async savePreferences(preferences: UserPreferences) {
+        this.preferences.set(preferences.userId, preferences);
+    }
+}
+
+export class InMemoryRedditConnectionRepository implements RedditConnectionRepository {
+    private readonly connections = new Map<string, RedditConnection>();
+
+    public async get(userId: string) {
+        return this.connections.get(userId) ?? null;
+    }
+
+    public async save(connection: RedditConnection) {
+        this.connections.set(connection.userId, connection);
+    }
+
+    public async delete(userId: string) {
+        return this.connections.delete(userId);
+    }
+}
+
+export class InMemoryAccessTokenRepository implements AccessTokenRepository {
+    private readonly tokens = new Map<string, StoredAccessToken>();
+
+    public async get(key: string) {
+        const token = this.tokens.get(key);
+        return token && token.expiresAt > new Date() ? token : null;
+    }
+
+    public async save(token: StoredAccessToken) {
+        this.tokens.set(token.key, token);
+    }
+
+    public async delete(key: string) {
+        return this.tokens.delete(key);
+    }
+}
+
+export class InMemorySettingsRepository implements SettingsRepository {
+    private settings: AppSettings | null = null;
+
+    public async get() {
+        return this.settings;
+    }
+
+    public async save(settings: AppSettings) {
+        this.settings = settings;
+    }
+}
+
+export class InMemoryCommunityRepository implements CommunityRepository {
+    private readonly snapshots = new Map<string, SubredditSnapshot[]>();
+
+    public async addSnapshot(snapshot: SubredditSnapshot) {
+        const subreddit = snapshot.subreddit.toLowerCase();
+        const history = this.snapshots.get(subreddit) ?? [];
+        history.push({ ...snapshot, subreddit });
+        this.snapshots.set(subreddit, history);
+    }
+
+    public async getHistory(subreddit: string, range?: HistoryRange) {
+        return (this.snapshots.get(subreddit.toLowerCase()) ?? [])
+            .filter(snapshot => inRange(snapshot.capturedAt, range));
+    }
+}
+
+export class InMemorySavedSearchRepository implements SavedSearchRepository {
+    private readonly searches = new Map<string, SavedSearch>();
+
+    public async list(userId: string) {
+        return [...this.searches.values()]
+            .filter(search => search.userId === userId)
+            .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    }
+
+    public async get(userId: string, id: string) {
+        const search = this.searches.get(id);
+        return search?.userId === userId ? search : null;
+    }
+
+    public async save(search: SavedSearch) {
+        this.searches.set(search.id, search);
+    }
+
+    public async delete(userId: string, id: string) {
+        return (await this.get(userId, id)) !== null && this.searches.delete(id);
+    }
+}
+
+export function createInMemoryStorage(): Storage {
+    return {
+        posts: new InMemoryPostRepository(),
+        collector: new InMemoryCollectorRepository(),
+        analyses: new InMemoryAnalysisRepository(),
+        digests: new InMemoryDigestRepository(),
+        sentiment: new InMemorySentimentRepository(),
+        watchlists: new InMemoryWatchlistRepository(),
+        notifications: new InMemoryNotificationRepository(),
+        alerts: new InMemoryAlertRepository(),
+        alertDeliveries: new InMemoryAlertDeliveryRepository(),
+        users: new InMemoryUserRepository(),
+        redditConnections: new InMemoryRedditConnectionRepository(),
+        accessTokens: new InMemoryAccessTokenRepository(),
+        settings: new InMemorySettingsRepository(),
+        communities: new InMemoryCommunityRepository(),
+        savedSearches: new InMemorySavedSearchRepository(),
+        close: async () => undefined
+    };
+}
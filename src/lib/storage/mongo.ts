@@ -0,0 +1,829 @@
+import mongoose, { Connection, Model, Schema } from 'mongoose';
+import { escapeRegex } from '../utils';
+import type {
+    AccessTokenRepository,
+    AlertChannel,
+    AlertDelivery,
+    AlertDeliveryRepository,
+    AlertRepository,
+    AlertRule,
+    AnalysisRecord,
+    AnalysisRepository,
+    AppSettings,
+    CollectorCheckpoint,
+    CollectorRepository,
+    CollectorRun,
+    CommentSnapshot,
+    CommunityRepository,
+    Digest,
+    DigestRepository,
+    HistoryRange,
+    Notification,
+    NotificationQuery,
+    NotificationRepository,
+    PostQuery,
+    PostRepository,
+    PostSnapshot,
+    RedditConnection,
+    RedditConnectionRepository,
+    SavedSearch,
+    SavedSearchRepository,
+    SentimentRecord,
+    SentimentRepository,
+    SettingsRepository,
+    Storage,
+    StoredAccessToken,
+    StoredComment,
+    StoredCommentInput,
+    StoredPost,
+    StoredPostInput,
+    SubredditSnapshot,
+    User,
+    UserPreferences,
+    UserRepository,
+    Watchlist,
+    WatchlistRepository
+} from './types';
+
+const postSchema = new Schema<StoredPost>({
+    id: { type: String, required: true, unique: true },
+    name: { type: String, required: true },
+    subreddit: { type: String, required: true },
+    title: { type: String, required: true },
+    selftext: { type: String, default: '' },
+    author: { type: String, required: true },
+    authorFlair: { type: String, default: null },
+    linkFlair: { type: String, default: null },
+    url: { type: String, required: true },
+    permalink: { type: String, required: true },
+    createdUtc: { type: Number, required: true },
+    score: { type: Number, required: true },
+    numComments: { type: Number, required: true },
+    upvoteRatio: { type: Number, default: null },
+    firstSeenAt: { type: Date, required: true },
+    lastSeenAt: { type: Date, required: true }
+});
+postSchema.index({ subreddit: 1, createdUtc: -1 });
+
+const commentSchema = new Schema<StoredComment>({
+    id: { type: String, required: true, unique: true },
+    name: { type: String, required: true },
+    postId: { type: String, required: true, index: true },
+    parentId: { type: String, required: true },
+    subreddit: { type: String, required: true },
+    author: { type: String, required: true },
+    authorFlair: { type: String, default: null },
+    body: { type: String, default: '' },
+    createdUtc: { type: Number, required: true },
+    score: { type: Number, required: true },
+    firstSeenAt: { type: Date, required: true },
+    lastSeenAt: { type: Date, required: true }
+});
+
+const postSnapshotSchema = new Schema<PostSnapshot>({
+    postId: { type: String, required: true },
+    capturedAt: { type: Date, required: true },
+    score: { type: Number, required: true },
+    numComments: { type: Number, required: true },
+    upvoteRatio: { type: Number, default: null }
+});
+postSnapshotSchema.index({ postId: 1, capturedAt: 1 });
+
+const commentSnapshotSchema = new Schema<CommentSnapshot>({
+    commentId: { type: String, required: true },
+    capturedAt: { type: Date, required: true },
+    score: { type: Number, required: true }
+});
+commentSnapshotSchema.index({ commentId: 1, capturedAt: 1 });
+
+const checkpointSchema = new Schema<CollectorCheckpoint>({
+    subreddit: { type: String, required: true },
+    sort: { type: String, required: true },
+    lastSeenName: { type: String, default: null },
+    lastSeenCreatedUtc: { type: Number, default: null },
+    updatedAt: { type: Date, required: true }
+});
+checkpointSchema.index({ subreddit: 1, sort: 1 }, { unique: true });
+
+const collectorRunSchema = new Schema<CollectorRun>({
+    id: { type: String, required: true, unique: true },
+    startedAt: { type: Date, required: true, index: true },
+    finishedAt: { type: Date, required: true },
+    postsStored: { type: Number, required: true },
+    sources: [{
+        _id: false,
+        subreddit: String,
+        sort: String,
+        postsFetched: Number,
+        error: { type: String, default: null }
+    }],
+    rateLimitRemaining: { type: Number, default: null }
+});
+
+const analysisSchema = new Schema<AnalysisRecord>({
+    kind: { type: String, required: true },
+    key: { type: String, required: true },
+    value: { type: Schema.Types.Mixed, required: true },
+    createdAt: { type: Date, required: true }
+});
+analysisSchema.index({ kind: 1, key: 1 }, { unique: true });
+
+const digestPostRef = {
+    _id: false,
+    id: String,
+    title: String,
+    permalink: String,
+    score: Number,
+    numComments: Number
+};
+
+// `subreddit` keeps the name as given for display; lookups go through the lowercased key
+type StoredDigest = Digest & { subredditKey: string };
+
+const digestSchema = new Schema<StoredDigest>({
+    subreddit: { type: String, required: true },
+    subredditKey: { type: String, required: true },
+    date: { type: String, required: true },
+    headline: { type: String, required: true },
+    topics: [{
+        _id: false,
+        title: String,
+        summary: String,
+        posts: [digestPostRef]
+    }],
+    notablePosts: [{ ...digestPostRef, reason: String }],
+    mood: { type: String, default: '' },
+    postCount: { type: Number, required: true },
+    model: { type: String, required: true },
+    createdAt: { type: Date, required: true }
+});
+digestSchema.index({ subredditKey: 1, date: -1 }, { unique: true });
+
+const sentimentSchema = new Schema<SentimentRecord>({
+    itemId: { type: String, required: true, unique: true },
+    kind: { type: String, enum: ['post', 'comment'], required: true },
+    subreddit: { type: String, required: true },
+    createdUtc: { type: Number, required: true },
+    label: { type: String, enum: ['positive', 'negative', 'neutral'], required: true },
+    score: { type: Number, required: true },
+    emotions: { type: [String], default: [] },
+    scorer: { type: String, enum: ['llm', 'lexicon'], required: true },
+    scoredAt: { type: Date, required: true }
+});
+sentimentSchema.index({ subreddit: 1, createdUtc: 1 });
+
+const watchlistSchema = new Schema<Watchlist>({
+    id: { type: String, required: true, unique: true },
+    userId: { type: String, required: true, index: true },
+    name: { type: String, required: true },
+    rules: [{
+        _id: false,
+        type: { type: String, enum: ['keyword', 'regex', 'author', 'flair'], required: true },
+        value: { type: String, required: true }
+    }],
+    subreddits: { type: [String], default: [] },
+    enabled: { type: Boolean, default: true },
+    createdAt: { type: Date, required: true },
+    updatedAt: { type: Date, required: true }
+});
+
+const notificationSchema = new Schema<Notification>({
+    id: { type: String, required: true, unique: true },
+    userId: { type: String, required: true },
+    watchlistId: { type: String, required: true },
+    watchlistName: { type: String, required: true },
+    itemId: { type: String, required: true },
+    kind: { type: String, enum: ['post', 'comment'], required: true },
+    subreddit: { type: String, required: true },
+    title: { type: String, required: true },
+    excerpt: { type: String, default: '' },
+    permalink: { type: String, required: true },
+    matches: { type: [String], default: [] },
+    read: { type: Boolean, default: false },
+    createdAt: { type: Date, required: true }
+});
+notificationSchema.index({ watchlistId: 1, itemId: 1 }, { unique: true });
+notificationSchema.index({ userId: 1, read: 1, createdAt: -1 });
+
+const alertChannelSchema = new Schema<AlertChannel>({
+    id: { type: String, required: true, unique: true },
+    userId: { type: String, required: true, index: true },
+    name: { type: String, required: true },
+    type: { type: String, enum: ['webhook', 'slack', 'discord', 'email'], required: true },
+    target: { type: String, required: true },
+    template: { type: String, default: null },
+    enabled: { type: Boolean, default: true },
+    createdAt: { type: Date, required: true }
+});
+
+const alertRuleSchema = new Schema<AlertRule>({
+    id: { type: String, required: true, unique: true },
+    userId: { type: String, required: true, index: true },
+    name: { type: String, required: true },
+    subreddits: { type: [String], default: [] },
+    keywords: { type: [String], default: [] },
+    minScore: { type: Number, default: null },
+    channelIds: { type: [String], default: [] },
+    enabled: { type: Boolean, default: true },
+    createdAt: { type: Date, required: true }
+});
+
+const alertDeliverySchema = new Schema<AlertDelivery>({
+    id: { type: String, required: true, unique: true },
+    userId: { type: String, required: true },
+    ruleId: { type: String, default: null },
+    channelId: { type: String, required: true },
+    postId: { type: String, default: null },
+    status: { type: String, enum: ['sent', 'failed'], required: true },
+    attempts: { type: Number, required: true },
+    error: { type: String, default: null },
+    createdAt: { type: Date, required: true }
+});
+alertDeliverySchema.index({ ruleId: 1, channelId: 1, postId: 1, status: 1 });
+alertDeliverySchema.index({ userId: 1, createdAt: -1 });
+
+const userSchema = new Schema<User>({
+    id: { type: String, required: true, unique: true },
+    provider: { type: String, enum: ['credentials', 'reddit'], required: true },
+    username: { type: String, required: true },
+    name: { type: String, required: true },
+    image: { type: String, default: null },
+    passwordHash: { type: String, default: null },
+    createdAt: { type: Date, required: true }
+});
+
+const preferencesSchema = new Schema<UserPreferences>({
+    userId: { type: String, required: true, unique: true },
+    subreddits: { type: [String], default: [] },
+    defaultSort: { type: String, enum: ['hot', 'new', 'top', 'rising'], default: 'hot' },
+    defaultTime: { type: String, enum: ['hour', 'day', 'week', 'month', 'year', 'all'], default: 'day' },
+    updatedAt: { type: Date, required: true }
+});
+
+const redditConnectionSchema = new Schema<RedditConnection>({
+    userId: { type: String, required: true, unique: true },
+    redditUsername: { type: String, required: true },
+    scopes: { type: [String], default: [] },
+    encryptedRefreshToken: { type: String, required: true },
+    connectedAt: { type: Date, required: true },
+    updatedAt: { type: Date, required: true }
+});
+
+const accessTokenSchema = new Schema<StoredAccessToken>({
+    key: { type: String, required: true, unique: true },
+    encryptedAccessToken: { type: String, required: true },
+    scopes: { type: [String], default: [] },
+    expiresAt: { type: Date, required: true }
+});
+// MongoDB drops tokens once they expire
+accessTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const subredditSnapshotSchema = new Schema<SubredditSnapshot>({
+    subreddit: { type: String, required: true },
+    capturedAt: { type: Date, required: true },
+    subscribers: { type: Number, default: null },
+    activeUsers: { type: Number, default: null }
+});
+subredditSnapshotSchema.index({ subreddit: 1, capturedAt: 1 });
+
+const savedSearchSchema = new Schema<SavedSearch>({
+    id: { type: String, required: true, unique: true },
+    userId: { type: String, required: true, index: true },
+    name: { type: String, required: true },
+    query: { type: String, required: true },
+    subreddit: { type: String, default: null },
+    sort: { type: String, enum: ['relevance', 'hot', 'top', 'new', 'comments'], default: 'relevance' },
+    time: { type: String, enum: ['hour', 'day', 'week', 'month', 'year', 'all'], default: 'all' },
+    createdAt: { type: Date, required: true }
+});
+
+// Stored as a single document under the key 'app'
+const settingsSchema = new Schema<AppSettings & { key: string }>({
+    key: { type: String, required: true, unique: true },
+    trackedSubreddits: { type: [{ _id: false, name: String, description: String }], default: [] },
+    collectorIntervalMinutes: { type: Number, required: true },
+    notificationPollSeconds: { type: Number, required: true },
+    defaultSort: { type: String, enum: ['hot', 'new', 'top', 'rising'], required: true },
+    defaultTime: { type: String, enum: ['hour', 'day', 'week', 'month', 'year', 'all'], required: true },
+    geminiModel: { type: String, required: true },
+    updatedAt: { type: Date, required: true }
+});
+
+// Strips mongoose's _id/__v so callers get the same plain records as the in-memory store
+const plain = { _id: 0, __v: 0 };
+
+function rangeFilter(range: HistoryRange = {}) {
+    const filter: Record<string, Date> = {};
+    if (range.from) {
+        filter.$gte = range.from;
+    }
+    if (range.to) {
+        filter.$lte = range.to;
+    }
+    return Object.keys(filter).length > 0 ? { capturedAt: filter } : {};
+}
+
+export class MongoPostRepository implements PostRepository {
+    private readonly Post: Model<StoredPost>;
+    private readonly Comment: Model<StoredComment>;
+    private readonly PostSnapshot: Model<PostSnapshot>;
+    private readonly CommentSnapshot: Model<CommentSnapshot>;
+
+    constructor(connection: Connection) {
+        this.Post = connection.model('Post', postSchema);
+        this.Comment = connection.model('Comment', commentSchema);
+        this.PostSnapshot = connection.model('PostSnapshot', postSnapshotSchema);
+        this.CommentSnapshot = connection.model('CommentSnapshot', commentSnapshotSchema);
+    }
+
+    public async upsertPosts(posts: StoredPostInput[], capturedAt: Date = new Date()) {
+        if (posts.length === 0) {
+            return;
+        }
+
+        await this.Post.bulkWrite(posts.map(post => ({
+            updateOne: {
+                filter: { id: post.id },
+                update: {
+                    $set: { ...post, lastSeenAt: capturedAt },
+                    $setOnInsert: { firstSeenAt: capturedAt }
+                },
+                upsert: true
+            }
+        })));
+
+        await this.PostSnapshot.insertMany(posts.map(post => ({
+            postId: post.id,
+            capturedAt,
+            score: post.score,
+            numComments: post.numComments,
+            upvoteRatio: post.upvoteRatio
+        })));
+    }
+
+    public async upsertComments(comments: StoredCommentInput[], capturedAt: Date = new Date()) {
+        if (comments.length === 0) {
+            return;
+        }
+
+        await this.Comment.bulkWrite(comments.map(comment => ({
+            updateOne: {
+                filter: { id: comment.id },
+                update: {
+                    $set: { ...comment, lastSeenAt: capturedAt },
+                    $setOnInsert: { firstSeenAt: capturedAt }
+                },
+                upsert: true
+            }
+        })));
+
+        await this.CommentSnapshot.insertMany(comments.map(comment => ({
+            commentId: comment.id,
+            capturedAt,
+            score: comment.score
+        })));
+    }
+
+    public async getPost(id: string) {
+        return this.Post.findOne({ id }, plain).lean<StoredPost>();
+    }
+
+    public async findPosts(query: PostQuery = {}) {
+        const { subreddit, createdAfter, seenAfter, sortBy = 'createdUtc', limit = 100 } = query;
+
+        const filter: Record<string, unknown> = {};
+        if (subreddit) {
+            filter.subreddit = new RegExp(`^${escapeRegex(subreddit)}$`, 'i');
+        }
+        if (createdAfter) {
+            filter.createdUtc = { $gte: createdAfter.getTime() / 1000 };
+        }
+        if (seenAfter) {
+            filter.lastSeenAt = { $gte: seenAfter };
+        }
+
+        return this.Post.find(filter, plain)
+            .sort({ [sortBy]: -1 })
+            .limit(limit)
+            .lean<StoredPost[]>();
+    }
+
+    public async getComments(postId: string) {
+        return this.Comment.find({ postId }, plain).sort({ createdUtc: 1 }).lean<StoredComment[]>();
+    }
+
+    public async getPostHistory(postId: string, range?: HistoryRange) {
+        return this.PostSnapshot.find({ postId, ...rangeFilter(range) }, plain)
+            .sort({ capturedAt: 1 })
+            .lean<PostSnapshot[]>();
+    }
+
+    public async getPostHistories(postIds: string[], range?: HistoryRange) {
+        const snapshots = await this.PostSnapshot.find({ postId: { $in: postIds }, ...rangeFilter(range) }, plain)
+            .sort({ capturedAt: 1 })
+            .lean<PostSnapshot[]>();
+
+        const histories = new Map<string, PostSnapshot[]>(postIds.map(postId => [postId, []]));
+        snapshots.forEach(snapshot => histories.get(snapshot.postId)?.push(snapshot));
+        return histories;
+    }
+
+    public async getCommentHistory(commentId: string, range?: HistoryRange) {
+        return this.CommentSnapshot.find({ commentId, ...rangeFilter(range) }, plain)
+            .sort({ capturedAt: 1 })
+            .lean<CommentSnapshot[]>();
+    }
+}
+
+export class MongoCollectorRepository implements CollectorRepository {
+    private readonly Checkpoint: Model<CollectorCheckpoint>;
+    private readonly Run: Model<CollectorRun>;
+
+    constructor(connection: Connection) {
+        this.Checkpoint = connection.model('CollectorCheckpoint', checkpointSchema);
+        this.Run = connection.model('CollectorRun', collectorRunSchema);
+    }
+
+    public async getCheckpoint(subreddit: string, sort: string) {
+        return this.Checkpoint.findOne({ subreddit: subreddit.toLowerCase(), sort }, plain).lean<CollectorCheckpoint>();
+    }
+
+    public async saveCheckpoint(checkpoint: CollectorCheckpoint) {
+        const key = { subreddit: checkpoint.subreddit.toLowerCase(), sort: checkpoint.sort };
+        await this.Checkpoint.updateOne(key, { $set: { ...checkpoint, ...key } }, { upsert: true });
+    }
+
+    public async saveRun(run: CollectorRun) {
+        await this.Run.create(run);
+    }
+
+    public async listRuns(limit: number = 20) {
+        return this.Run.find({}, plain).sort({ startedAt: -1 }).limit(limit).lean<CollectorRun[]>();
+    }
+}
+
+export class MongoAnalysisRepository implements AnalysisRepository {
+    private readonly Analysis: Model<AnalysisRecord>;
+
+    constructor(connection: Connection) {
+        this.Analysis = connection.model('Analysis', analysisSchema);
+    }
+
+    public async get<T>(kind: string, key: string) {
+        return this.Analysis.findOne({ kind, key }, plain).lean<AnalysisRecord<T>>();
+    }
+
+    public async put<T>(kind: string, key: string, value: T) {
+        await this.Analysis.updateOne(
+            { kind, key },
+            { $set: { value, createdAt: new Date() } },
+            { upsert: true }
+        );
+    }
+}
+
+export class MongoDigestRepository implements DigestRepository {
+    private readonly Digest: Model<StoredDigest>;
+
+    constructor(connection: Connection) {
+        this.Digest = connection.model('Digest', digestSchema);
+    }
+
+    public async save(digest: Digest) {
+        const key = { subredditKey: digest.subreddit.toLowerCase(), date: digest.date };
+        await this.Digest.updateOne(key, { $set: { ...digest, ...key } }, { upsert: true });
+    }
+
+    public async get(subreddit: string, date: string) {
+        return this.Digest.findOne({ subredditKey: subreddit.toLowerCase(), date }, { ...plain, subredditKey: 0 })
+            .lean<Digest>();
+    }
+
+    public async listDates(subreddit: string) {
+        const digests = await this.Digest.find({ subredditKey: subreddit.toLowerCase() }, { date: 1, _id: 0 })
+            .sort({ date: -1 })
+            .lean<Array<Pick<Digest, 'date'>>>();
+        return digests.map(digest => digest.date);
+    }
+}
+
+export class MongoSentimentRepository implements SentimentRepository {
+    private readonly Sentiment: Model<SentimentRecord>;
+
+    constructor(connection: Connection) {
+        this.Sentiment = connection.model('Sentiment', sentimentSchema);
+    }
+
+    public async save(records: SentimentRecord[]) {
+        if (records.length === 0) {
+            return;
+        }
+
+        await this.Sentiment.bulkWrite(records.map(record => ({
+            updateOne: {
+                filter: { itemId: record.itemId },
+                update: { $set: record },
+                upsert: true
+            }
+        })));
+    }
+
+    public async findScored(itemIds: string[]) {
+        const records = await this.Sentiment.find({ itemId: { $in: itemIds } }, { itemId: 1, _id: 0 })
+            .lean<Array<Pick<SentimentRecord, 'itemId'>>>();
+        return new Set(records.map(record => record.itemId));
+    }
+
+    public async findBySubreddit(subreddit: string, since: Date) {
+        return this.Sentiment.find({
+            subreddit: new RegExp(`^${escapeRegex(subreddit)}$`, 'i'),
+            createdUtc: { $gte: since.getTime() / 1000 }
+        }, plain)
+            .sort({ createdUtc: 1 })
+            .lean<SentimentRecord[]>();
+    }
+}
+
+export class MongoWatchlistRepository implements WatchlistRepository {
+    private readonly Watchlist: Model<Watchlist>;
+
+    constructor(connection: Connection) {
+        this.Watchlist = connection.model('Watchlist', watchlistSchema);
+    }
+
+    public async list(userId: string) {
+        return this.Watchlist.find({ userId }, plain).sort({ createdAt: 1 }).lean<Watchlist[]>();
+    }
+
+    public async listEnabled() {
+        return this.Watchlist.find({ enabled: true }, plain).lean<Watchlist[]>();
+    }
+
+    public async get(userId: string, id: string) {
+        return this.Watchlist.findOne({ userId, id }, plain).lean<Watchlist>();
+    }
+
+    public async save(watchlist: Watchlist) {
+        await this.Watchlist.updateOne({ id: watchlist.id }, { $set: watchlist }, { upsert: true });
+    }
+
+    public async delete(userId: string, id: string) {
+        const result = await this.Watchlist.deleteOne({ userId, id });
+        return result.deletedCount > 0;
+    }
+}
+
+export class MongoNotificationRepository implements NotificationRepository {
+    private readonly Notification: Model<Notification>;
+
+    constructor(connection: Connection) {
+        this.Notification = connection.model('Notification', notificationSchema);
+    }
+
+    public async add(notifications: Notification[]) {
+        if (notifications.length === 0) {
+            return [];
+        }
+
+        // Inserting only when the watchlist/item pair is new keeps concurrent ingests from duplicating
+        const result = await this.Notification.bulkWrite(notifications.map(notification => ({
+            updateOne: {
+                filter: { watchlistId: notification.watchlistId, itemId: notification.itemId },
+                update: { $setOnInsert: notification },
+                upsert: true
+            }
+        })), { ordered: false });
+
+        const inserted = new Set(Object.keys(result.upsertedIds).map(Number));
+        return notifications.filter((_, index) => inserted.has(index));
+    }
+
+    public async list(userId: string, query: NotificationQuery = {}) {
+        return this.Notification.find(query.unreadOnly ? { userId, read: false } : { userId }, plain)
+            .sort({ createdAt: -1 })
+            .limit(query.limit ?? 50)
+            .lean<Notification[]>();
+    }
+
+    public async countUnread(userId: string) {
+        return this.Notification.countDocuments({ userId, read: false });
+    }
+
+    public async markRead(userId: string, ids?: string[]) {
+        await this.Notification.updateMany(ids ? { userId, id: { $in: ids } } : { userId }, { $set: { read: true } });
+    }
+}
+
+export class MongoAlertRepository implements AlertRepository {
+    private readonly Channel: Model<AlertChannel>;
+    private readonly Rule: Model<AlertRule>;
+
+    constructor(connection: Connection) {
+        this.Channel = connection.model('AlertChannel', alertChannelSchema);
+        this.Rule = connection.model('AlertRule', alertRuleSchema);
+    }
+
+    public async listChannels(userId: string) {
+        return this.Channel.find({ userId }, plain).sort({ createdAt: 1 }).lean<AlertChannel[]>();
+    }
+
+    public async getChannel(userId: string, id: string) {
+        return this.Channel.findOne({ userId, id }, plain).lean<AlertChannel>();
+    }
+
+    public async saveChannel(channel: AlertChannel) {
+        await this.Channel.updateOne({ id: channel.id }, { $set: channel }, { upsert: true });
+    }
+
+    public async deleteChannel(userId: string, id: string) {
+        const result = await this.Channel.deleteOne({ userId, id });
+        return result.deletedCount > 0;
+    }
+
+    public async listRules(userId: string) {
+        return this.Rule.find({ userId }, plain).sort({ createdAt: 1 }).lean<AlertRule[]>();
+    }
+
+    public async listEnabledRules() {
+        return this.Rule.find({ enabled: true }, plain).lean<AlertRule[]>();
+    }
+
+    public async saveRule(rule: AlertRule) {
+        await this.Rule.updateOne({ id: rule.id }, { $set: rule }, { upsert: true });
+    }
+
+    public async deleteRule(userId: string, id: string) {
+        const result = await this.Rule.deleteOne({ userId, id });
+        return result.deletedCount > 0;
+    }
+}
+
+export class MongoAlertDeliveryRepository implements AlertDeliveryRepository {
+    private readonly Delivery: Model<AlertDelivery>;
+
+    constructor(connection: Connection) {
+        this.Delivery = connection.model('AlertDelivery', alertDeliverySchema);
+    }
+
+    public async record(delivery: AlertDelivery) {
+        await this.Delivery.create(delivery);
+    }
+
+    public async wasDelivered(ruleId: string, channelId: string, postId: string) {
+        return (await this.Delivery.exists({ ruleId, channelId, postId, status: 'sent' })) !== null;
+    }
+
+    public async list(userId: string, limit: number = 50) {
+        return this.Delivery.find({ userId }, plain).sort({ createdAt: -1 }).limit(limit).lean<AlertDelivery[]>();
+    }
+}
+
+export class MongoUserRepository implements UserRepository {
+    private readonly User: Model<User>;
+    private readonly Preferences: Model<UserPreferences>;
+
+    constructor(connection: Connection) {
+        this.User = connection.model('User', userSchema);
+        this.Preferences = connection.model('UserPreferences', preferencesSchema);
+    }
+
+    public async get(id: string) {
+        return this.User.findOne({ id }, plain).lean<User>();
+    }
+
+    public async save(user: User) {
+        await this.User.updateOne({ id: user.id }, { $set: user }, { upsert: true });
+    }
+
+    public async getPreferences(userId: string) {
+        return this.Preferences.findOne({ userId }, plain).lean<UserPreferences>();
+    }
+
+    public async savePreferences(preferences: UserPreferences) {
+        await this.Preferences.updateOne({ userId: preferences.userId }, { $set: preferences }, { upsert: true });
+    }
+}
+
+export class MongoRedditConnectionRepository implements RedditConnectionRepository {
+    private readonly RedditConnection: Model<RedditConnection>;
+
+    constructor(connection: Connection) {
+        this.RedditConnection = connection.model('RedditConnection', redditConnectionSchema);
+    }
+
+    public async get(userId: string) {
+        return this.RedditConnection.findOne({ userId }, plain).lean<RedditConnection>();
+    }
+
+    public async save(connection: RedditConnection) {
+        await this.RedditConnection.updateOne({ userId: connection.userId }, { $set: connection }, { upsert: true });
+    }
+
+    public async delete(userId: string) {
+        const result = await this.RedditConnection.deleteOne({ userId });
+        return result.deletedCount > 0;
+    }
+}
+
+export class MongoAccessTokenRepository implements AccessTokenRepository {
+    private readonly AccessToken: Model<StoredAccessToken>;
+
+    constructor(connection: Connection) {
+        this.AccessToken = connection.model('AccessToken', accessTokenSchema);
+    }
+
+    public async get(key: string) {
+        // The TTL monitor only runs once a minute
+        return this.AccessToken.findOne({ key, expiresAt: { $gt: new Date() } }, plain).lean<StoredAccessToken>();
+    }
+
+    public async save(token: StoredAccessToken) {
+        await this.AccessToken.updateOne({ key: token.key }, { $set: token }, { upsert: true });
+    }
+
+    public async delete(key: string) {
+        const result = await this.AccessToken.deleteOne({ key });
+        return result.deletedCount > 0;
+    }
+}
+
+export class MongoSettingsRepository implements SettingsRepository {
+    private readonly Settings: Model<AppSettings & { key: string }>;
+
+    constructor(connection: Connection) {
+        this.Settings = connection.model('AppSettings', settingsSchema);
+    }
+
+    public async get() {
+        return this.Settings.findOne({ key: 'app' }, { ...plain, key: 0 }).lean<AppSettings>();
+    }
+
+    public async save(settings: AppSettings) {
+        await this.Settings.updateOne({ key: 'app' }, { $set: settings }, { upsert: true });
+    }
+}
+
+export class MongoCommunityRepository implements CommunityRepository {
+    private readonly Snapshot: Model<SubredditSnapshot>;
+
+    constructor(connection: Connection) {
+        this.Snapshot = connection.model('SubredditSnapshot', subredditSnapshotSchema);
+    }
+
+    public async addSnapshot(snapshot: SubredditSnapshot) {
+        await this.Snapshot.create({ ...snapshot, subreddit: snapshot.subreddit.toLowerCase() });
+    }
+
+    public async getHistory(subreddit: string, range?: HistoryRange) {
+        return this.Snapshot.find({ subreddit: subreddit.toLowerCase(), ...rangeFilter(range) }, plain)
+            .sort({ capturedAt: 1 })
+            .lean<SubredditSnapshot[]>();
+    }
+}
+
+export class MongoSavedSearchRepository implements SavedSearchRepository {
+    private readonly SavedSearch: Model<SavedSearch>;
+
+    constructor(connection: Connection) {
+        this.SavedSearch = connection.model('SavedSearch', savedSearchSchema);
+    }
+
+    public async list(userId: string) {
+        return this.SavedSearch.find({ userId }, plain).sort({ createdAt: -1 }).lean<SavedSearch[]>();
+    }
+
+    public async get(userId: string, id: string) {
+        return this.SavedSearch.findOne({ userId, id }, plain).lean<SavedSearch>();
+    }
+
+    public async save(search: SavedSearch) {
+        await this.SavedSearch.updateOne({ id: search.id }, { $set: search }, { upsert: true });
+    }
+
+    public async delete(userId: string, id: string) {
+        const result = await this.SavedSearch.deleteOne({ userId, id });
+        return result.deletedCount > 0;
+    }
+}
+
+export async function createMongoStorage(uri: string): Promise<Storage> {
+    const connection = await mongoose.createConnection(uri).asPromise();
+    return {
+        posts: new MongoPostRepository(connection),
+        collector: new MongoCollectorRepository(connection),
+        analyses: new MongoAnalysisRepository(connection),
+        digests: new MongoDigestRepository(connection),
+        sentiment: new MongoSentimentRepository(connection),
+        watchlists: new MongoWatchlistRepository(connection),
+        notifications: new MongoNotificationRepository(connection),
+        alerts: new MongoAlertRepository(connection),
+        alertDeliveries: new MongoAlertDeliveryRepository(connection),
+        users: new MongoUserRepository(connection),
+        redditConnections: new MongoRedditConnectionRepository(connection),
+        accessTokens: new MongoAccessTokenRepository(connection),
+        settings: new MongoSettingsRepository(connection),
+        communities: new MongoCommunityRepository(connection),
+        savedSearches: new MongoSavedSearchRepository(connection),
+        close: () => connection.close()
+    };
+}
@@ -0,0 +1,29 @@
+import { createInMemoryStorage } from './memory';
+import { createMongoStorage } from './mongo';
+import type { Storage } from './types';
+
+// Cached on globalThis so dev-server hot reloads reuse one connection
+const globalForStorage = globalThis as typeof globalThis & {
+    trendAiStorage?: Promise<Storage>;
+};
+
+/**
+ * Returns the process-wide storage. Uses MongoDB when MONGODB_URI is set,
+ * otherwise falls back to an in-memory store.
+ */
+export function getStorage(): Promise<Storage> {
+    if (!globalForStorage.trendAiStorage) {
+        const uri = process.env.MONGODB_URI;
+        if (!uri) {
+            console.warn('MONGODB_URI is not set, using in-memory storage');
+        }
+
+        const storage = uri ? createMongoStorage(uri) : Promise.resolve(createInMemoryStorage());
+        // Let a failed connection be retried on the next call
+        globalForStorage.trendAiStorage = storage.catch(error => {
+            globalForStorage.trendAiStorage = undefined;
+            throw error;
+        });
+    }
+    return globalForStorage.trendAiStorage;
+}
@@ -0,0 +1,31 @@
+import type { CommentThread } from '../reddit-api';
+import type { RedditPost } from '../reddit-schemas';
+import { commentToWatchItems, evaluateWatchlists, postToWatchItem } from '../watchlists';
+import { getStorage } from './provider';
+import { toStoredComments, toStoredPost } from './mappers';
+
+// Snapshot writes and watchlist checks are best effort: a storage outage must not break a page render
+
+export async function recordPosts(posts: RedditPost[], capturedAt: Date = new Date()) {
+    try {
+        const storage = await getStorage();
+        await storage.posts.upsertPosts(posts.map(toStoredPost), capturedAt);
+        await evaluateWatchlists(storage, posts.map(postToWatchItem), capturedAt);
+    } catch (error) {
+        console.error('Error recording posts:', error);
+    }
+}
+
+export async function recordThread(thread: CommentThread, capturedAt: Date = new Date()) {
+    try {
+        const storage = await getStorage();
+        await storage.posts.upsertPosts([toStoredPost(thread.post)], capturedAt);
+        await storage.posts.upsertComments(toStoredComments(thread.post, thread.comments), capturedAt);
+        await evaluateWatchlists(storage, [
+            postToWatchItem(thread.post),
+            ...commentToWatchItems(thread.post, thread.comments)
+        ], capturedAt);
+    } catch (error) {
+        console.error('Error recording thread:', error);
+    }
+}
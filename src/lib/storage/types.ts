@@ -0,0 +1,442 @@
+export interface StoredPost {
+    id: string;
+    name: string;
+    subreddit: string;
+    title: string;
+    selftext: string;
+    author: string;
+    authorFlair: string | null;
+    linkFlair: string | null;
+    url: string;
+    permalink: string;
+    createdUtc: number;
+    // Latest values; the full history lives in the snapshots
+    score: number;
+    numComments: number;
+    upvoteRatio: number | null;
+    firstSeenAt: Date;
+    lastSeenAt: Date;
+}
+
+export interface StoredComment {
+    id: string;
+    name: string;
+    postId: string;
+    parentId: string;
+    subreddit: string;
+    author: string;
+    authorFlair: string | null;
+    body: string;
+    createdUtc: number;
+    score: number;
+    firstSeenAt: Date;
+    lastSeenAt: Date;
+}
+
+export interface PostSnapshot {
+    postId: string;
+    capturedAt: Date;
+    score: number;
+    numComments: number;
+    upvoteRatio: number | null;
+}
+
+export interface CommentSnapshot {
+    commentId: string;
+    capturedAt: Date;
+    score: number;
+}
+
+export interface PostQuery {
+    subreddit?: string;
+    // Only posts created at or after this time
+    createdAfter?: Date;
+    // Only posts seen by a fetch at or after this time
+    seenAfter?: Date;
+    sortBy?: 'createdUtc' | 'score' | 'lastSeenAt';
+    limit?: number;
+}
+
+export interface HistoryRange {
+    from?: Date;
+    to?: Date;
+}
+
+export interface PostRepository {
+    upsertPosts(posts: StoredPostInput[], capturedAt?: Date): Promise<void>;
+    upsertComments(comments: StoredCommentInput[], capturedAt?: Date): Promise<void>;
+    getPost(id: string): Promise<StoredPost | null>;
+    findPosts(query?: PostQuery): Promise<StoredPost[]>;
+    getComments(postId: string): Promise<StoredComment[]>;
+    getPostHistory(postId: string, range?: HistoryRange): Promise<PostSnapshot[]>;
+    // Snapshots for many posts at once, keyed by post id and ordered oldest first
+    getPostHistories(postIds: string[], range?: HistoryRange): Promise<Map<string, PostSnapshot[]>>;
+    getCommentHistory(commentId: string, range?: HistoryRange): Promise<CommentSnapshot[]>;
+}
+
+// What a fetch knows about a post or comment; the repository fills in the seen-at times
+export type StoredPostInput = Omit<StoredPost, 'firstSeenAt' | 'lastSeenAt'>;
+export type StoredCommentInput = Omit<StoredComment, 'firstSeenAt' | 'lastSeenAt'>;
+
+// Where ingestion of one subreddit listing left off
+export interface CollectorCheckpoint {
+    subreddit: string;
+    sort: string;
+    // Newest post seen so far; null for listings like `hot` that are re-read in full
+    lastSeenName: string | null;
+    lastSeenCreatedUtc: number | null;
+    updatedAt: Date;
+}
+
+export interface CollectorSourceStats {
+    subreddit: string;
+    sort: string;
+    postsFetched: number;
+    error: string | null;
+}
+
+export interface CollectorRun {
+    id: string;
+    startedAt: Date;
+    finishedAt: Date;
+    postsStored: number;
+    sources: CollectorSourceStats[];
+    // Rate-limit budget left when the run finished
+    rateLimitRemaining: number | null;
+}
+
+export interface CollectorRepository {
+    getCheckpoint(subreddit: string, sort: string): Promise<CollectorCheckpoint | null>;
+    saveCheckpoint(checkpoint: CollectorCheckpoint): Promise<void>;
+    saveRun(run: CollectorRun): Promise<void>;
+    listRuns(limit?: number): Promise<CollectorRun[]>;
+}
+
+// Stored output of an expensive analysis step, such as an LLM summary
+export interface AnalysisRecord<T = unknown> {
+    kind: string;
+    key: string;
+    value: T;
+    createdAt: Date;
+}
+
+export interface AnalysisRepository {
+    get<T>(kind: string, key: string): Promise<AnalysisRecord<T> | null>;
+    put<T>(kind: string, key: string, value: T): Promise<void>;
+}
+
+export interface DigestPostRef {
+    id: string;
+    title: string;
+    permalink: string;
+    score: number;
+    numComments: number;
+}
+
+export interface DigestTopic {
+    title: string;
+    summary: string;
+    posts: DigestPostRef[];
+}
+
+export interface Digest {
+    subreddit: string;
+    // UTC calendar day, YYYY-MM-DD
+    date: string;
+    headline: string;
+    topics: DigestTopic[];
+    notablePosts: Array<DigestPostRef & { reason: string }>;
+    mood: string;
+    postCount: number;
+    model: string;
+    createdAt: Date;
+}
+
+export interface DigestRepository {
+    save(digest: Digest): Promise<void>;
+    get(subreddit: string, date: string): Promise<Digest | null>;
+    // Dates with a stored digest, newest first
+    listDates(subreddit: string): Promise<string[]>;
+}
+
+export type SentimentLabel = 'positive' | 'negative' | 'neutral';
+
+export interface SentimentRecord {
+    itemId: string;
+    kind: 'post' | 'comment';
+    subreddit: string;
+    createdUtc: number;
+    label: SentimentLabel;
+    // -1 (very negative) to 1 (very positive)
+    score: number;
+    emotions: string[];
+    scorer: 'llm' | 'lexicon';
+    scoredAt: Date;
+}
+
+export interface SentimentRepository {
+    save(records: SentimentRecord[]): Promise<void>;
+    // Ids among the given ones that already have a score
+    findScored(itemIds: string[]): Promise<Set<string>>;
+    // Records for items created at or after `since`, oldest first
+    findBySubreddit(subreddit: string, since: Date): Promise<SentimentRecord[]>;
+}
+
+export type WatchRuleType = 'keyword' | 'regex' | 'author' | 'flair';
+
+export interface WatchRule {
+    type: WatchRuleType;
+    value: string;
+}
+
+export interface Watchlist {
+    id: string;
+    userId: string;
+    name: string;
+    rules: WatchRule[];
+    // Subreddits the watchlist applies to; empty means all of them
+    subreddits: string[];
+    enabled: boolean;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface WatchlistRepository {
+    list(userId: string): Promise<Watchlist[]>;
+    // Enabled watchlists of every user, for evaluating ingested items
+    listEnabled(): Promise<Watchlist[]>;
+    get(userId: string, id: string): Promise<Watchlist | null>;
+    save(watchlist: Watchlist): Promise<void>;
+    delete(userId: string, id: string): Promise<boolean>;
+}
+
+export interface Notification {
+    id: string;
+    userId: string;
+    watchlistId: string;
+    watchlistName: string;
+    // Fullname of the matching post or comment
+    itemId: string;
+    kind: 'post' | 'comment';
+    subreddit: string;
+    title: string;
+    excerpt: string;
+    permalink: string;
+    // Human-readable descriptions of the rules that matched
+    matches: string[];
+    read: boolean;
+    createdAt: Date;
+}
+
+export interface NotificationQuery {
+    unreadOnly?: boolean;
+    limit?: number;
+}
+
+export interface NotificationRepository {
+    // Skips items a watchlist has already notified about, returns the ones added
+    add(notifications: Notification[]): Promise<Notification[]>;
+    // Newest first
+    list(userId: string, query?: NotificationQuery): Promise<Notification[]>;
+    countUnread(userId: string): Promise<number>;
+    // Marks the given notifications, or all of them, as read
+    markRead(userId: string, ids?: string[]): Promise<void>;
+}
+
+export type AlertChannelType = 'webhook' | 'slack' | 'discord' | 'email';
+
+export interface AlertChannel {
+    id: string;
+    userId: string;
+    name: string;
+    type: AlertChannelType;
+    // Webhook URL, or the recipient address for email
+    target: string;
+    // Message body with {{placeholders}}; the channel type's default when missing
+    template: string | null;
+    enabled: boolean;
+    createdAt: Date;
+}
+
+export interface AlertRule {
+    id: string;
+    userId: string;
+    name: string;
+    // Empty means every subreddit
+    subreddits: string[];
+    // A post matches when it contains any of them; empty means every post
+    keywords: string[];
+    minScore: number | null;
+    channelIds: string[];
+    enabled: boolean;
+    createdAt: Date;
+}
+
+export interface AlertRepository {
+    listChannels(userId: string): Promise<AlertChannel[]>;
+    getChannel(userId: string, id: string): Promise<AlertChannel | null>;
+    saveChannel(channel: AlertChannel): Promise<void>;
+    deleteChannel(userId: string, id: string): Promise<boolean>;
+    listRules(userId: string): Promise<AlertRule[]>;
+    // Enabled rules of every user, for evaluating fetched posts
+    listEnabledRules(): Promise<AlertRule[]>;
+    saveRule(rule: AlertRule): Promise<void>;
+    deleteRule(userId: string, id: string): Promise<boolean>;
+}
+
+export interface AlertDelivery {
+    id: string;
+    userId: string;
+    ruleId: string | null;
+    channelId: string;
+    // Fullname of the post the alert was about; null for test messages
+    postId: string | null;
+    status: 'sent' | 'failed';
+    attempts: number;
+    error: string | null;
+    createdAt: Date;
+}
+
+export interface AlertDeliveryRepository {
+    record(delivery: AlertDelivery): Promise<void>;
+    // Whether a rule already alerted a channel about a post successfully
+    wasDelivered(ruleId: string, channelId: string, postId: string): Promise<boolean>;
+    // Newest first
+    list(userId: string, limit?: number): Promise<AlertDelivery[]>;
+}
+
+export interface User {
+    // `credentials:<username>` or `reddit:<reddit account id>`
+    id: string;
+    provider: 'credentials' | 'reddit';
+    username: string;
+    name: string;
+    image: string | null;
+    // scrypt hash for credentials users, null for OAuth users
+    passwordHash: string | null;
+    createdAt: Date;
+}
+
+export interface UserPreferences {
+    userId: string;
+    // The user's own list of subreddits; empty means the tracked defaults
+    subreddits: string[];
+    defaultSort: 'hot' | 'new' | 'top' | 'rising';
+    defaultTime: 'hour' | 'day' | 'week' | 'month' | 'year' | 'all';
+    updatedAt: Date;
+}
+
+export interface UserRepository {
+    get(id: string): Promise<User | null>;
+    save(user: User): Promise<void>;
+    getPreferences(userId: string): Promise<UserPreferences | null>;
+    savePreferences(preferences: UserPreferences): Promise<void>;
+}
+
+// A user's Reddit account linked through the authorization-code flow
+export interface RedditConnection {
+    userId: string;
+    redditUsername: string;
+    scopes: string[];
+    // AES-GCM encrypted; see encryptToken in reddit-oauth
+    encryptedRefreshToken: string;
+    connectedAt: Date;
+    updatedAt: Date;
+}
+
+export interface RedditConnectionRepository {
+    get(userId: string): Promise<RedditConnection | null>;
+    save(connection: RedditConnection): Promise<void>;
+    delete(userId: string): Promise<boolean>;
+}
+
+// An access token kept so the shared client survives restarts without a new grant
+export interface StoredAccessToken {
+    // Client the token belongs to, e.g. `app:<client id>` or `user:<user id>`
+    key: string;
+    // AES-GCM encrypted, like refresh tokens
+    encryptedAccessToken: string;
+    scopes: string[];
+    expiresAt: Date;
+}
+
+export interface AccessTokenRepository {
+    // Null once the token has expired
+    get(key: string): Promise<StoredAccessToken | null>;
+    save(token: StoredAccessToken): Promise<void>;
+    delete(key: string): Promise<boolean>;
+}
+
+export interface SavedSearch {
+    id: string;
+    userId: string;
+    name: string;
+    // As typed, including author:/flair:/self: filters
+    query: string;
+    // null searches all of Reddit
+    subreddit: string | null;
+    sort: 'relevance' | 'hot' | 'top' | 'new' | 'comments';
+    time: 'hour' | 'day' | 'week' | 'month' | 'year' | 'all';
+    createdAt: Date;
+}
+
+export interface SavedSearchRepository {
+    // Newest first
+    list(userId: string): Promise<SavedSearch[]>;
+    get(userId: string, id: string): Promise<SavedSearch | null>;
+    save(search: SavedSearch): Promise<void>;
+    delete(userId: string, id: string): Promise<boolean>;
+}
+
+// Size of a community at one point in time, recorded whenever its about page is read
+export interface SubredditSnapshot {
+    // Lowercase, so differently cased links share a history
+    subreddit: string;
+    capturedAt: Date;
+    subscribers: number | null;
+    activeUsers: number | null;
+}
+
+export interface CommunityRepository {
+    addSnapshot(snapshot: SubredditSnapshot): Promise<void>;
+    // Oldest first
+    getHistory(subreddit: string, range?: HistoryRange): Promise<SubredditSnapshot[]>;
+}
+
+// App-wide configuration edited on the Settings page; env vars only seed the initial values
+export interface AppSettings {
+    trackedSubreddits: { name: string; description: string }[];
+    // Delay between collector runs
+    collectorIntervalMinutes: number;
+    // How often open dashboards check for new notifications
+    notificationPollSeconds: number;
+    // Listing defaults for users who have not chosen their own
+    defaultSort: 'hot' | 'new' | 'top' | 'rising';
+    defaultTime: 'hour' | 'day' | 'week' | 'month' | 'year' | 'all';
+    geminiModel: string;
+    updatedAt: Date;
+}
+
+export interface SettingsRepository {
+    get(): Promise<AppSettings | null>;
+    save(settings: AppSettings): Promise<void>;
+}
+
+export interface Storage {
+    posts: PostRepository;
+    collector: CollectorRepository;
+    analyses: AnalysisRepository;
+    digests: DigestRepository;
+    sentiment: SentimentRepository;
+    watchlists: WatchlistRepository;
+    notifications: NotificationRepository;
+    alerts: AlertRepository;
+    alertDeliveries: AlertDeliveryRepository;
+    users: UserRepository;
+    redditConnections: RedditConnectionRepository;
+    accessTokens: AccessTokenRepository;
+    settings: SettingsRepository;
+    communities: CommunityRepository;
+    savedSearches: SavedSearchRepository;
+    close(): Promise<void>;
+}
@@ -0,0 +1,61 @@
+import type { ListingSort, ListingTime, RecentPostsOptions } from './reddit-api';
+
+export interface TrackedSubreddit {
+    name: string;
+    description: string;
+}
+
+export const TRACKED_SUBREDDITS: TrackedSubreddit[] = [
+    { name: 'Bangladesh', description: 'The subreddit for Bangladesh' },
+    { name: 'dhaka', description: 'The capital city of Bangladesh' },
+    { name: 'chittagong', description: 'The port city of Chattogram' },
+    { name: 'bangladeshi', description: 'Bangladeshi people at home and abroad' },
+    { name: 'india', description: 'The subreddit for India' },
+    { name: 'pakistan', description: 'The subreddit for Pakistan' },
+    { name: 'nepal', description: 'The subreddit for Nepal' },
+    { name: 'srilanka', description: 'The subreddit for Sri Lanka' },
+    { name: 'bhutan', description: 'The subreddit for Bhutan' },
+    { name: 'kolkata', description: 'The City of Joy' },
+    { name: 'myanmar', description: 'The subreddit for Myanmar' },
+    { name: 'southasia', description: 'News and discussion about South Asia' },
+];
+
+export const LISTING_SORTS: ListingSort[] = ['hot', 'new', 'top', 'rising'];
+export const LISTING_TIMES: ListingTime[] = ['hour', 'day', 'week', 'month', 'year', 'all'];
+
+// Reddit's own listing endpoints cap `limit` at 100
+export const MAX_LISTING_LIMIT = 100;
+
+const SUBREDDIT_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_]{1,20}$/;
+
+export function isValidSubredditName(name: string): boolean {
+    return SUBREDDIT_NAME_PATTERN.test(name);
+}
+
+type QueryValue = string | string[] | undefined;
+
+function firstValue(value: QueryValue): string | undefined {
+    return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Reads sort/time/limit/after from a page's search params, falling back to
+ * the given defaults (or the `getRecentPosts` ones) for anything missing or
+ * invalid.
+ */
+export function parseListingOptions(
+    searchParams: Record<string, QueryValue>,
+    defaults: { sort?: ListingSort; time?: ListingTime } = {}
+): Required<Omit<RecentPostsOptions, 'after'>> & { after?: string } {
+    const sort = firstValue(searchParams.sort);
+    const time = firstValue(searchParams.time);
+    const limit = Number.parseInt(firstValue(searchParams.limit) ?? '', 10);
+    const after = firstValue(searchParams.after);
+
+    return {
+        sort: LISTING_SORTS.includes(sort as ListingSort) ? sort as ListingSort : defaults.sort ?? 'hot',
+        time: LISTING_TIMES.includes(time as ListingTime) ? time as ListingTime : defaults.time ?? 'day',
+        limit: Number.isFinite(limit) && limit > 0 ? Math.min(limit, MAX_LISTING_LIMIT) : 25,
+        after: after || undefined,
+    };
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import type { CommentNode } from './comment-tree';
+import { FakeLLMClient, LLMResponseError } from './llm';
+import { RedditPostSchema } from './reddit-schemas';
+import { InMemoryAnalysisRepository } from './storage/memory';
+import { buildSummaryPrompt, summarizePost, summarizePostCached } from './summarize';
+
+const post = RedditPostSchema.parse({
+    id: 'abc',
+    name: 't3_abc',
+    title: 'Metro rail fares going up',
+    selftext: 'What do you think?',
+    author: 'author',
+    score: 10,
+    created_utc: 1767225600,
+    url: 'https://reddit.com/r/bangladesh/comments/abc/',
+    permalink: '/r/bangladesh/comments/abc/',
+    num_comments: 3,
+    subreddit: 'bangladesh',
+    subreddit_name_prefixed: 'r/bangladesh'
+});
+
+function comment(id: string, body: string, score: number, replies: CommentNode[] = []): CommentNode {
+    return {
+        id,
+        name: `t1_${id}`,
+        author: 'commenter',
+        authorFlair: null,
+        body,
+        score,
+        createdUtc: 1767225600,
+        permalink: `/r/bangladesh/comments/abc/_/${id}/`,
+        depth: 0,
+        isSubmitter: false,
+        stickied: false,
+        replies,
+        moreCount: 0
+    };
+}
+
+const answer = JSON.stringify({ summary: 'Fares are rising.', viewpoints: ['Too expensive'], sentiment: 'negative' });
+
+describe('buildSummaryPrompt', () => {
+    it('includes the highest scored comments across the tree, skipping removed ones', () => {
+        const comments = [
+            comment('a', 'Low', 1, [comment('b', 'Top reply', 50)]),
+            comment('c', '[removed]', 100),
+            comment('d', 'Middle', 10)
+        ];
+
+        const { prompt, commentsConsidered } = buildSummaryPrompt(post, comments, { maxComments: 2 });
+
+        expect(commentsConsidered).toBe(2);
+        expect(prompt).toContain('- (50 points) Top reply\n- (10 points) Middle');
+        expect(prompt).not.toContain('[removed]');
+        expect(prompt).not.toContain('Low');
+    });
+});
+
+describe('summarizePost', () => {
+    it('parses the model answer, including fenced JSON', async () => {
+        const llm = new FakeLLMClient(() => `\`\`\`json\n${answer}\n\`\`\``);
+
+        const summary = await summarizePost(llm, post, [comment('a', 'Too expensive', 5)]);
+
+        expect(summary).toMatchObject({ summary: 'Fares are rising.', sentiment: 'negative', model: 'fake-llm', commentsConsidered: 1 });
+    });
+
+    it('rejects answers in the wrong shape', async () => {
+        const llm = new FakeLLMClient(() => JSON.stringify({ summary: 'Missing fields' }));
+
+        await expect(summarizePost(llm, post, [])).rejects.toBeInstanceOf(LLMResponseError);
+    });
+});
+
+describe('summarizePostCached', () => {
+    it('asks the model once and serves repeat views from storage', async () => {
+        const analyses = new InMemoryAnalysisRepository();
+        const llm = new FakeLLMClient(() => answer);
+
+        const first = await summarizePostCached(analyses, llm, post, []);
+        const second = await summarizePostCached(analyses, llm, post, []);
+        await summarizePostCached(analyses, llm, post, [], { refresh: true });
+
+        expect(second).toEqual(first);
+        expect(llm.prompts).toHaveLength(2);
+    });
+});
@@ -0,0 +1,115 @@
+import { z } from 'zod';
+import type { CommentNode } from './comment-tree';
+import { LLMClient, LLMResponseError, parseJsonResponse } from './llm';
+import type { RedditPost } from './reddit-schemas';
+import type { AnalysisRepository } from './storage/types';
+
+const SummaryResponseSchema = z.object({
+    summary: z.string(),
+    viewpoints: z.array(z.string()),
+    sentiment: z.enum(['positive', 'negative', 'neutral', 'mixed'])
+});
+
+export type PostSummary = z.infer<typeof SummaryResponseSchema> & {
+    model: string;
+    // ISO timestamp, so summaries survive JSON round trips unchanged
+    createdAt: string;
+    commentsConsidered: number;
+};
+
+export interface SummarizeOptions {
+    maxComments?: number;
+    maxCharsPerComment?: number;
+}
+
+function flattenComments(comments: CommentNode[]): CommentNode[] {
+    return comments.flatMap(comment => [comment, ...flattenComments(comment.replies)]);
+}
+
+function clip(text: string, maxChars: number) {
+    return text.length > maxChars ? `${text.slice(0, maxChars)}…` : text;
+}
+
+export function buildSummaryPrompt(post: RedditPost, comments: CommentNode[], options: SummarizeOptions = {}) {
+    const { maxComments = 40, maxCharsPerComment = 500 } = options;
+
+    const selected = flattenComments(comments)
+        .filter(comment => comment.author !== '[deleted]' && comment.body !== '[removed]')
+        .sort((a, b) => b.score - a.score)
+        .slice(0, maxComments);
+
+    const commentLines = selected
+        .map(comment => `- (${comment.score} points) ${clip(comment.body.replace(/\s+/g, ' '), maxCharsPerComment)}`)
+        .join('\n');
+
+    const prompt = [
+        'You are analysing a Reddit discussion. Respond with JSON only, using this shape:',
+        '{"summary": string, "viewpoints": string[], "sentiment": "positive" | "negative" | "neutral" | "mixed"}',
+        '- "summary": two or three sentences on what the post is about and how the discussion went.',
+        '- "viewpoints": up to five distinct positions commenters take, one short sentence each.',
+        '- "sentiment": the overall tone of the discussion.',
+        'Write in English even if the post is in another language.',
+        '',
+        `Subreddit: ${post.subreddit_name_prefixed}`,
+        `Title: ${post.title}`,
+        post.selftext ? `Body: ${clip(post.selftext, 4000)}` : 'Body: (link post, no text)',
+        '',
+        `Top comments (${selected.length}):`,
+        commentLines || '(no comments)'
+    ].join('\n');
+
+    return { prompt, commentsConsidered: selected.length };
+}
+
+export async function summarizePost(
+    llm: LLMClient,
+    post: RedditPost,
+    comments: CommentNode[],
+    options: SummarizeOptions = {}
+): Promise<PostSummary> {
+    const { prompt, commentsConsidered } = buildSummaryPrompt(post, comments, options);
+    const text = await llm.generate(prompt, { json: true, temperature: 0.2 });
+
+    const parsed = SummaryResponseSchema.safeParse(parseJsonResponse(text));
+    if (!parsed.success) {
+        throw new LLMResponseError('Model returned a summary in an unexpected shape', text);
+    }
+
+    return {
+        ...parsed.data,
+        model: llm.model,
+        createdAt: new Date().toISOString(),
+        commentsConsidered
+    };
+}
+
+const SUMMARY_KIND = 'post-summary';
+
+function summaryKey(postId: string, model: string) {
+    return `${postId}:${model}`;
+}
+
+export async function getCachedSummary(analyses: AnalysisRepository, postId: string, model: string) {
+    const record = await analyses.get<PostSummary>(SUMMARY_KIND, summaryKey(postId, model));
+    return record?.value ?? null;
+}
+
+// Returns the stored summary when there is one, so repeat views are not billed again
+export async function summarizePostCached(
+    analyses: AnalysisRepository,
+    llm: LLMClient,
+    post: RedditPost,
+    comments: CommentNode[],
+    options: SummarizeOptions & { refresh?: boolean } = {}
+): Promise<PostSummary> {
+    if (!options.refresh) {
+        const cached = await getCachedSummary(analyses, post.id, llm.model);
+        if (cached) {
+            return cached;
+        }
+    }
+
+    const summary = await summarizePost(llm, post, comments, options);
+    await analyses.put(SUMMARY_KIND, summaryKey(post.id, llm.model), summary);
+    return summary;
+}
@@ -24,8 +24,11 @@ async function testRedditAPI() {
     const api = new RedditAPI({
         clientId: process.env.REDDIT_CLIENT_ID!,
         clientSecret: process.env.REDDIT_SECRET!,
-        username: process.env.REDDIT_USERNAME!,
-        password: process.env.REDDIT_PASSWORD!
+        grant: {
+            type: 'password',
+            username: process.env.REDDIT_USERNAME!,
+            password: process.env.REDDIT_PASSWORD!
+        }
     });
     
     try {
@@ -0,0 +1,99 @@
+import { z } from 'zod';
+import { detectLanguage, LANGUAGE_NAMES, type Language } from './language';
+import { LLMClient, LLMResponseError, parseJsonResponse } from './llm';
+import type { RedditPost } from './reddit-schemas';
+import type { AnalysisRepository } from './storage/types';
+
+const TranslationResponseSchema = z.object({
+    title: z.string(),
+    body: z.string()
+});
+
+export type PostTranslation = z.infer<typeof TranslationResponseSchema> & {
+    // Language of the original, as detected before translating
+    language: Language;
+    model: string;
+    // ISO timestamp, so translations survive JSON round trips unchanged
+    createdAt: string;
+};
+
+export function detectPostLanguage(post: Pick<RedditPost, 'title' | 'selftext'>) {
+    return detectLanguage(`${post.title}\n${post.selftext}`);
+}
+
+// Only posts that are not already English are worth a translation
+export function needsTranslation(language: Language) {
+    return language === 'bn' || language === 'banglish';
+}
+
+export class NoTranslationNeededError extends Error {
+    constructor(public readonly language: Language) {
+        super(`Posts in ${LANGUAGE_NAMES[language]} are not translated`);
+        this.name = 'NoTranslationNeededError';
+    }
+}
+
+export function buildTranslationPrompt(post: RedditPost, language: Language) {
+    return [
+        'Translate this Reddit post into natural English. Respond with JSON only, using this shape:',
+        '{"title": string, "body": string}',
+        language === 'banglish'
+            ? 'The post is Bangla written in Latin script (Banglish).'
+            : 'The post is written in Bangla.',
+        'Keep names, places and English words as they are. Use an empty "body" when the post has no body.',
+        '',
+        `Title: ${post.title}`,
+        `Body: ${post.selftext.slice(0, 8000)}`
+    ].join('\n');
+}
+
+export async function translatePost(llm: LLMClient, post: RedditPost): Promise<PostTranslation> {
+    const language = detectPostLanguage(post);
+    if (!needsTranslation(language)) {
+        throw new NoTranslationNeededError(language);
+    }
+
+    const text = await llm.generate(buildTranslationPrompt(post, language), { json: true, temperature: 0 });
+
+    const parsed = TranslationResponseSchema.safeParse(parseJsonResponse(text));
+    if (!parsed.success) {
+        throw new LLMResponseError('Model returned a translation in an unexpected shape', text);
+    }
+
+    return {
+        ...parsed.data,
+        language,
+        model: llm.model,
+        createdAt: new Date().toISOString()
+    };
+}
+
+const TRANSLATION_KIND = 'post-translation';
+
+function translationKey(postId: string, model: string) {
+    return `${postId}:${model}`;
+}
+
+export async function getCachedTranslation(analyses: AnalysisRepository, postId: string, model: string) {
+    const record = await analyses.get<PostTranslation>(TRANSLATION_KIND, translationKey(postId, model));
+    return record?.value ?? null;
+}
+
+// Returns the stored translation when there is one, so repeat views are not billed again
+export async function translatePostCached(
+    analyses: AnalysisRepository,
+    llm: LLMClient,
+    post: RedditPost,
+    options: { refresh?: boolean } = {}
+): Promise<PostTranslation> {
+    if (!options.refresh) {
+        const cached = await getCachedTranslation(analyses, post.id, llm.model);
+        if (cached) {
+            return cached;
+        }
+    }
+
+    const translation = await translatePost(llm, post);
+    await analyses.put(TRANSLATION_KIND, translationKey(post.id, llm.model), translation);
+    return translation;
+}
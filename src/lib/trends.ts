@@ -0,0 +1,234 @@
+import { extractKeywords } from './keywords';
+import type { RedditAPI } from './reddit-api';
+import type { PostSnapshot, Storage, StoredPost } from './storage/types';
+import { toStoredPost } from './storage/mappers';
+
+const HOUR = 60 * 60 * 1000;
+
+export interface Velocity {
+    scorePerHour: number;
+    commentsPerHour: number;
+}
+
+export interface TrendingPost {
+    post: StoredPost;
+    velocity: Velocity;
+    // Score velocity relative to the subreddit baseline
+    ratio: number;
+    // Score at each snapshot, oldest first
+    scoreHistory: number[];
+}
+
+export interface TrendingKeyword {
+    keyword: string;
+    // Rising posts mentioning the keyword
+    risingPosts: number;
+    // How much more common the keyword is among rising posts than among all posts
+    lift: number;
+    scorePerHour: number;
+}
+
+export interface SubredditTrends {
+    subreddit: string;
+    postsAnalyzed: number;
+    baseline: Velocity;
+    risingPosts: TrendingPost[];
+    keywords: TrendingKeyword[];
+}
+
+export interface TrendOptions {
+    // How far back snapshots and posts are considered
+    windowMs?: number;
+    // A post is rising when its score velocity is at least this multiple of the baseline
+    riseMultiplier?: number;
+    // Ignore posts gaining fewer points per hour than this, however quiet the subreddit
+    minScorePerHour?: number;
+    maxPosts?: number;
+    maxKeywords?: number;
+}
+
+export function median(values: number[]): number {
+    if (values.length === 0) {
+        return 0;
+    }
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Growth per hour between the first and last snapshot. With a single
+ * snapshot the post's whole lifetime is used instead, which is the best
+ * estimate available until it has been sampled again.
+ */
+export function computeVelocity(post: StoredPost, snapshots: PostSnapshot[], now: Date = new Date()): Velocity {
+    const first = snapshots[0];
+    const last = snapshots[snapshots.length - 1];
+
+    if (first && last && last.capturedAt.getTime() - first.capturedAt.getTime() >= 5 * 60 * 1000) {
+        const hours = (last.capturedAt.getTime() - first.capturedAt.getTime()) / HOUR;
+        return {
+            scorePerHour: (last.score - first.score) / hours,
+            commentsPerHour: (last.numComments - first.numComments) / hours
+        };
+    }
+
+    const ageHours = Math.max((now.getTime() - post.createdUtc * 1000) / HOUR, 0.25);
+    return {
+        scorePerHour: post.score / ageHours,
+        commentsPerHour: post.numComments / ageHours
+    };
+}
+
+export function detectTrends(
+    subreddit: string,
+    posts: StoredPost[],
+    histories: Map<string, PostSnapshot[]>,
+    options: TrendOptions = {},
+    now: Date = new Date()
+): SubredditTrends {
+    const { riseMultiplier = 2, minScorePerHour = 5, maxPosts = 10, maxKeywords = 15 } = options;
+
+    const measured = posts.map(post => {
+        const history = histories.get(post.id) ?? [];
+        return { post, history, velocity: computeVelocity(post, history, now) };
+    });
+
+    const baseline: Velocity = {
+        scorePerHour: median(measured.map(item => item.velocity.scorePerHour)),
+        commentsPerHour: median(measured.map(item => item.velocity.commentsPerHour))
+    };
+    const threshold = Math.max(baseline.scorePerHour * riseMultiplier, minScorePerHour);
+
+    const rising = measured
+        .filter(item => item.velocity.scorePerHour >= threshold)
+        .map(item => ({
+            post: item.post,
+            velocity: item.velocity,
+            ratio: baseline.scorePerHour > 0 ? item.velocity.scorePerHour / baseline.scorePerHour : Infinity,
+            scoreHistory: item.history.map(snapshot => snapshot.score)
+        }))
+        .sort((a, b) => b.velocity.scorePerHour - a.velocity.scorePerHour);
+
+    return {
+        subreddit,
+        postsAnalyzed: posts.length,
+        baseline,
+        risingPosts: rising.slice(0, maxPosts),
+        keywords: findRisingKeywords(measured.map(item => item.post), rising).slice(0, maxKeywords)
+    };
+}
+
+// Keywords over-represented in rising posts compared to the subreddit as a whole
+function findRisingKeywords(allPosts: StoredPost[], rising: TrendingPost[]): TrendingKeyword[] {
+    if (rising.length === 0) {
+        return [];
+    }
+
+    const overall = new Map<string, number>();
+    allPosts.forEach(post => extractKeywords(post.title).forEach(keyword => {
+        overall.set(keyword, (overall.get(keyword) ?? 0) + 1);
+    }));
+
+    const risingStats = new Map<string, { count: number; scorePerHour: number }>();
+    rising.forEach(({ post, velocity }) => extractKeywords(post.title).forEach(keyword => {
+        const stats = risingStats.get(keyword) ?? { count: 0, scorePerHour: 0 };
+        stats.count++;
+        stats.scorePerHour += velocity.scorePerHour;
+        risingStats.set(keyword, stats);
+    }));
+
+    // A single rising post only counts when few posts are rising at all
+    const minCount = rising.length >= 4 ? 2 : 1;
+
+    return [...risingStats.entries()]
+        .map(([keyword, stats]) => ({
+            keyword,
+            risingPosts: stats.count,
+            lift: (stats.count / rising.length) / ((overall.get(keyword) ?? stats.count) / allPosts.length),
+            scorePerHour: stats.scorePerHour
+        }))
+        .filter(keyword => keyword.risingPosts >= minCount && keyword.lift >= 1.5)
+        .sort((a, b) => b.scorePerHour - a.scorePerHour);
+}
+
+// How often the Trends page takes a sample of its own
+export const TREND_SAMPLE_INTERVAL_MS = 10 * 60 * 1000;
+
+interface SamplingState {
+    sampledAt: Map<string, number>;
+    pending: Map<string, Promise<void>>;
+}
+
+// Cached on globalThis so dev-server hot reloads remember when each subreddit was sampled
+const globalForSampling = globalThis as typeof globalThis & {
+    trendAiSamplingState?: SamplingState;
+};
+
+function samplingState(): SamplingState {
+    globalForSampling.trendAiSamplingState ??= { sampledAt: new Map(), pending: new Map() };
+    return globalForSampling.trendAiSamplingState;
+}
+
+async function sampleSubreddit(api: RedditAPI, storage: Storage, subreddit: string) {
+    const capturedAt = new Date();
+    for (const sort of ['hot', 'rising'] as const) {
+        const listing = await api.getRecentPosts(subreddit, { sort, limit: 100 });
+        await storage.posts.upsertPosts(listing.data.children.map(child => toStoredPost(child.data)), capturedAt);
+    }
+}
+
+/**
+ * Takes a fresh sample of each subreddit and records it, so each call
+ * extends every post's time series by one snapshot. Each subreddit gets its
+ * own requests, run concurrently, so busy ones cannot crowd quiet ones out of
+ * a shared multireddit listing. Subreddits sampled within `minIntervalMs` are
+ * skipped, and concurrent calls share one sample. Returns the subreddits that
+ * failed.
+ */
+export async function sampleSubreddits(
+    api: RedditAPI,
+    storage: Storage,
+    subreddits: string[],
+    options: { minIntervalMs?: number } = {}
+): Promise<string[]> {
+    const { minIntervalMs = 0 } = options;
+    const { sampledAt, pending } = samplingState();
+
+    const results = await Promise.allSettled(subreddits.map(subreddit => {
+        const key = subreddit.toLowerCase();
+        const inFlight = pending.get(key);
+        if (inFlight) {
+            return inFlight;
+        }
+        if (Date.now() - (sampledAt.get(key) ?? 0) < minIntervalMs) {
+            return Promise.resolve();
+        }
+
+        const sample = sampleSubreddit(api, storage, subreddit)
+            .then(() => {
+                sampledAt.set(key, Date.now());
+            })
+            .finally(() => pending.delete(key));
+        pending.set(key, sample);
+        return sample;
+    }));
+
+    return subreddits.filter((subreddit, index) => {
+        const result = results[index];
+        if (result.status === 'rejected') {
+            console.warn(`Could not sample r/${subreddit}:`, result.reason);
+        }
+        return result.status === 'rejected';
+    });
+}
+
+export async function getSubredditTrends(storage: Storage, subreddit: string, options: TrendOptions = {}): Promise<SubredditTrends> {
+    const { windowMs = 24 * HOUR } = options;
+    const now = new Date();
+    const from = new Date(now.getTime() - windowMs);
+
+    const posts = await storage.posts.findPosts({ subreddit, seenAfter: from, limit: 500 });
+    const histories = await storage.posts.getPostHistories(posts.map(post => post.id), { from });
+    return detectTrends(subreddit, posts, histories, options, now);
+}
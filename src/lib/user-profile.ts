@@ -0,0 +1,107 @@
+import type { RedditAPI, UserListingOptions } from './reddit-api';
+import type { RedditListing, RedditPost, RedditUser, RedditUserComment } from './reddit-schemas';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Accounts younger than this are flagged as new on the profile page
+export const NEW_ACCOUNT_DAYS = 30;
+
+const USERNAME_PATTERN = /^[A-Za-z0-9_-]{3,20}$/;
+
+export function isValidUsername(name: string): boolean {
+    return USERNAME_PATTERN.test(name);
+}
+
+export interface SubredditActivity {
+    subreddit: string;
+    posts: number;
+    comments: number;
+}
+
+export interface UserProfile {
+    about: RedditUser;
+    accountAgeDays: number;
+    // Newest first
+    posts: RedditPost[];
+    comments: RedditUserComment[];
+    // Posts and comments per hour of the day in UTC, index 0 being midnight
+    hourlyActivity: number[];
+    // Most active first
+    subreddits: SubredditActivity[];
+    // The user has more posts or comments than were read, so counts cover only the latest ones
+    truncated: boolean;
+}
+
+export function hourlyActivity(items: { created_utc: number }[]): number[] {
+    const hours = new Array<number>(24).fill(0);
+    for (const item of items) {
+        hours[new Date(item.created_utc * 1000).getUTCHours()]++;
+    }
+    return hours;
+}
+
+export function subredditDistribution(posts: RedditPost[], comments: RedditUserComment[]): SubredditActivity[] {
+    const activity = new Map<string, SubredditActivity>();
+    const entry = (subreddit: string) => {
+        const key = subreddit.toLowerCase();
+        let existing = activity.get(key);
+        if (!existing) {
+            existing = { subreddit, posts: 0, comments: 0 };
+            activity.set(key, existing);
+        }
+        return existing;
+    };
+
+    posts.forEach(post => entry(post.subreddit).posts++);
+    comments.forEach(comment => entry(comment.subreddit).comments++);
+
+    return [...activity.values()].sort((a, b) =>
+        b.posts + b.comments - (a.posts + a.comments) || a.subreddit.localeCompare(b.subreddit)
+    );
+}
+
+// Follows `after` cursors until `maxItems` are read; returns whether more were left
+async function readListing<T>(
+    fetchPage: (options: UserListingOptions) => Promise<RedditListing<{ data: T }>>,
+    maxItems: number
+): Promise<{ items: T[]; truncated: boolean }> {
+    const items: T[] = [];
+    let after: string | undefined;
+
+    while (items.length < maxItems) {
+        const page = await fetchPage({ sort: 'new', limit: Math.min(100, maxItems - items.length), after });
+        items.push(...page.data.children.map(child => child.data));
+        if (!page.data.after || page.data.children.length === 0) {
+            return { items, truncated: false };
+        }
+        after = page.data.after;
+    }
+    return { items, truncated: true };
+}
+
+/**
+ * Reads a user's about page and their latest posts and comments, up to
+ * `maxItems` of each, and works out when and where they are active.
+ */
+export async function getUserProfile(
+    api: RedditAPI,
+    username: string,
+    options: { maxItems?: number; now?: Date } = {}
+): Promise<UserProfile> {
+    const { maxItems = 300, now = new Date() } = options;
+    const [about, posts, comments] = await Promise.all([
+        api.getUserAbout(username),
+        readListing(listing => api.getUserPosts(username, listing), maxItems),
+        readListing(listing => api.getUserComments(username, listing), maxItems)
+    ]);
+
+    return {
+        about,
+        accountAgeDays: Math.max(0, (now.getTime() - about.created_utc * 1000) / DAY_MS),
+        posts: posts.items,
+        comments: comments.items,
+        hourlyActivity: hourlyActivity([...posts.items, ...comments.items]),
+        subreddits: subredditDistribution(posts.items, comments.items),
+        truncated: posts.truncated || comments.truncated
+    };
+}
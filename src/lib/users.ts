@@ -0,0 +1,165 @@
+import { randomBytes, scrypt as scryptCallback, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { z } from 'zod';
+import type { Storage, User, UserPreferences } from './storage/types';
+import { getSettings } from './settings';
+import { isValidSubredditName } from './subreddits';
+
+const scrypt = promisify(scryptCallback) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+
+// Stored as `scrypt:<salt>:<hash>`, both hex
+export async function hashPassword(password: string) {
+    const salt = randomBytes(16);
+    const hash = await scrypt(password, salt, KEY_LENGTH);
+    return `scrypt:${salt.toString('hex')}:${hash.toString('hex')}`;
+}
+
+export async function verifyPassword(password: string, stored: string) {
+    const [scheme, salt, hash] = stored.split(':');
+    if (scheme !== 'scrypt' || !salt || !hash) {
+        return false;
+    }
+
+    const expected = Buffer.from(hash, 'hex');
+    const actual = await scrypt(password, Buffer.from(salt, 'hex'), expected.length);
+    return timingSafeEqual(actual, expected);
+}
+
+export class UserExistsError extends Error {
+    constructor(username: string) {
+        super(`User ${username} already exists`);
+        this.name = 'UserExistsError';
+    }
+}
+
+export class RegistrationClosedError extends Error {
+    constructor() {
+        super('Registration is closed');
+        this.name = 'RegistrationClosedError';
+    }
+}
+
+// New accounts, by password or by Reddit sign-in, need ALLOW_REGISTRATION=true
+export function isRegistrationOpen() {
+    return process.env.ALLOW_REGISTRATION === 'true';
+}
+
+export const RegistrationSchema = z.object({
+    username: z.string().trim().regex(/^[a-z0-9_-]{3,32}$/i, 'Usernames are 3 to 32 letters, digits, _ or -'),
+    password: z.string().min(8, 'Passwords need at least 8 characters').max(200)
+});
+
+function credentialsUserId(username: string) {
+    return `credentials:${username.toLowerCase()}`;
+}
+
+export async function registerUser(storage: Storage, input: z.infer<typeof RegistrationSchema>): Promise<User> {
+    if (!isRegistrationOpen()) {
+        throw new RegistrationClosedError();
+    }
+
+    const id = credentialsUserId(input.username);
+    if (await storage.users.get(id)) {
+        throw new UserExistsError(input.username);
+    }
+
+    const user: User = {
+        id,
+        provider: 'credentials',
+        username: input.username,
+        name: input.username,
+        image: null,
+        passwordHash: await hashPassword(input.password),
+        createdAt: new Date()
+    };
+    await storage.users.save(user);
+    return user;
+}
+
+// The user when the password matches, null otherwise
+export async function authenticateUser(storage: Storage, username: string, password: string) {
+    const user = await storage.users.get(credentialsUserId(username));
+    if (!user?.passwordHash || !(await verifyPassword(password, user.passwordHash))) {
+        return null;
+    }
+    return user;
+}
+
+/**
+ * Whether the user may change what everyone shares, such as the settings.
+ * ADMIN_USERS lists usernames separated by commas, with `u/name` for
+ * accounts that sign in with Reddit.
+ */
+export async function isAdmin(storage: Storage, userId: string | null) {
+    const admins = (process.env.ADMIN_USERS ?? '')
+        .split(',')
+        .map(name => name.trim().toLowerCase())
+        .filter(Boolean);
+    if (!userId || admins.length === 0) {
+        return false;
+    }
+
+    if (admins.some(name => !name.startsWith('u/') && credentialsUserId(name) === userId)) {
+        return true;
+    }
+    const user = await storage.users.get(userId);
+    return user?.provider === 'reddit' && admins.includes(`u/${user.username.toLowerCase()}`);
+}
+
+function redditUserId(accountId: string) {
+    return `reddit:${accountId}`;
+}
+
+// Existing Reddit users can always sign in; new ones only while registration is open
+export async function mayRedditUserSignIn(storage: Storage, accountId: string) {
+    return isRegistrationOpen() || Boolean(await storage.users.get(redditUserId(accountId)));
+}
+
+// Creates the user on first Reddit sign-in and keeps the name current afterwards
+export async function upsertRedditUser(storage: Storage, account: { id: string; name: string; image?: string | null }) {
+    const id = redditUserId(account.id);
+    const existing = await storage.users.get(id);
+    const user: User = {
+        id,
+        provider: 'reddit',
+        username: account.name,
+        name: account.name,
+        image: account.image ?? null,
+        passwordHash: null,
+        createdAt: existing?.createdAt ?? new Date()
+    };
+    await storage.users.save(user);
+    return user;
+}
+
+export const PreferencesInputSchema = z.object({
+    subreddits: z.array(z.string().trim().refine(isValidSubredditName, 'Invalid subreddit name')).max(50),
+    defaultSort: z.enum(['hot', 'new', 'top', 'rising']),
+    defaultTime: z.enum(['hour', 'day', 'week', 'month', 'year', 'all'])
+});
+
+export async function getPreferences(storage: Storage, userId: string): Promise<UserPreferences> {
+    const stored = await storage.users.getPreferences(userId);
+    if (stored) {
+        return stored;
+    }
+
+    const settings = await getSettings(storage);
+    return {
+        userId,
+        subreddits: [],
+        defaultSort: settings.defaultSort,
+        defaultTime: settings.defaultTime,
+        updatedAt: new Date(0)
+    };
+}
+
+// The user's saved subreddits, or the tracked list when they have not picked any
+export async function getUserSubreddits(storage: Storage, userId: string | null) {
+    const preferences = userId ? await storage.users.getPreferences(userId) : null;
+    return preferences?.subreddits.length
+        ? preferences.subreddits.map(name => ({ name, description: `r/${name}` }))
+        : (await getSettings(storage)).trackedSubreddits;
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { createInMemoryStorage } from './storage/memory';
+import type { WatchRule } from './storage/types';
+import { createWatchlist, evaluateWatchlists, matchWatchlist, WatchRuleSchema, type WatchItem } from './watchlists';
+
+function item(overrides: Partial<WatchItem> = {}): WatchItem {
+    return {
+        id: 't3_abc',
+        kind: 'post',
+        subreddit: 'bangladesh',
+        author: 'someone',
+        flair: null,
+        title: 'Title',
+        text: 'Title\nBody',
+        permalink: 'https://reddit.com/r/bangladesh/comments/abc/',
+        ...overrides
+    };
+}
+
+function watchlist(rules: WatchRule[], subreddits: string[] = []) {
+    return createWatchlist('user', { name: 'Watch', rules, subreddits, enabled: true });
+}
+
+describe('matchWatchlist', () => {
+    it('matches keywords as whole words, ignoring case', () => {
+        const list = watchlist([{ type: 'keyword', value: 'flood' }]);
+
+        expect(matchWatchlist(list, item({ text: 'Flood warning in Sylhet' }))).toEqual(['"flood"']);
+        expect(matchWatchlist(list, item({ text: 'Floodlights at the stadium' }))).toEqual([]);
+    });
+
+    it('matches Bangla keywords next to punctuation but not inside longer words', () => {
+        const list = watchlist([{ type: 'keyword', value: 'বন্যা' }]);
+
+        expect(matchWatchlist(list, item({ text: 'সিলেটে বন্যা, সবাই সাবধান' }))).toHaveLength(1);
+        expect(matchWatchlist(list, item({ text: 'বন্যার্ত মানুষ' }))).toEqual([]);
+    });
+
+    it('matches regular expressions, authors and flair', () => {
+        const list = watchlist([
+            { type: 'regex', value: 'price (hike|increase)' },
+            { type: 'author', value: 'u/Reporter' },
+            { type: 'flair', value: 'news' }
+        ]);
+
+        const matches = matchWatchlist(list, item({ text: 'Another price hike', author: 'reporter', flair: 'News' }));
+
+        expect(matches).toEqual(['/price (hike|increase)/', 'u/Reporter', 'flair "news"']);
+    });
+
+    it('only looks at the watchlist subreddits when it has any', () => {
+        const list = watchlist([{ type: 'keyword', value: 'flood' }], ['Bangladesh']);
+
+        expect(matchWatchlist(list, item({ text: 'flood' }))).toHaveLength(1);
+        expect(matchWatchlist(list, item({ text: 'flood', subreddit: 'india' }))).toEqual([]);
+    });
+
+    it('skips stored regular expressions prone to catastrophic backtracking', () => {
+        const list = watchlist([{ type: 'regex', value: '(a+)+$' }]);
+
+        expect(matchWatchlist(list, item({ text: `${'a'.repeat(40)}!` }))).toEqual([]);
+    });
+});
+
+describe('WatchRuleSchema', () => {
+    it('refuses invalid and unsafe regular expressions', () => {
+        expect(WatchRuleSchema.safeParse({ type: 'regex', value: '(' }).success).toBe(false);
+        expect(WatchRuleSchema.safeParse({ type: 'regex', value: '(a+)+' }).success).toBe(false);
+        expect(WatchRuleSchema.safeParse({ type: 'regex', value: 'a+b' }).success).toBe(true);
+    });
+});
+
+describe('evaluateWatchlists', () => {
+    it('stores one notification per matching item and skips items already notified', async () => {
+        const storage = createInMemoryStorage();
+        await storage.watchlists.save(watchlist([{ type: 'keyword', value: 'flood' }]));
+
+        const items = [item({ id: 't3_a', text: 'Flood in Sylhet' }), item({ id: 't3_b', text: 'Cricket' })];
+        const first = await evaluateWatchlists(storage, items);
+        const second = await evaluateWatchlists(storage, items);
+
+        expect(first.map(notification => notification.itemId)).toEqual(['t3_a']);
+        expect(first[0]).toMatchObject({ userId: 'user', matches: ['"flood"'], excerpt: 'Flood in Sylhet', read: false });
+        expect(second).toEqual([]);
+        expect(await storage.notifications.countUnread('user')).toBe(1);
+    });
+
+    it('ignores disabled watchlists', async () => {
+        const storage = createInMemoryStorage();
+        await storage.watchlists.save({ ...watchlist([{ type: 'keyword', value: 'flood' }]), enabled: false });
+
+        expect(await evaluateWatchlists(storage, [item({ text: 'flood' })])).toEqual([]);
+    });
+});
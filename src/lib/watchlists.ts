@@ -0,0 +1,194 @@
+import { randomUUID } from 'crypto';
+import safeRegex from 'safe-regex';
+import { z } from 'zod';
+import type { CommentNode } from './comment-tree';
+import { truncateGraphemes } from './language';
+import type { RedditPost } from './reddit-schemas';
+import type { Notification, Storage, Watchlist, WatchRule } from './storage/types';
+import { isValidSubredditName } from './subreddits';
+import { escapeRegex } from './utils';
+
+const MAX_PATTERN_LENGTH = 200;
+
+function isValidPattern(pattern: string) {
+    try {
+        new RegExp(pattern, 'iu');
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+// Rules run on the server against every ingested item, so nested repetition such as `(a+)+` is refused
+function isSafePattern(pattern: string) {
+    return isValidPattern(pattern) && safeRegex(new RegExp(pattern, 'iu'));
+}
+
+export const WatchRuleSchema = z.object({
+    type: z.enum(['keyword', 'regex', 'author', 'flair']),
+    value: z.string().trim().min(1).max(MAX_PATTERN_LENGTH)
+}).refine(rule => rule.type !== 'regex' || isValidPattern(rule.value), {
+    message: 'Invalid regular expression',
+    path: ['value']
+}).refine(rule => rule.type !== 'regex' || !isValidPattern(rule.value) || isSafePattern(rule.value), {
+    message: 'Regular expression could take too long to match; avoid nested repetition such as (a+)+',
+    path: ['value']
+});
+
+export const WatchlistInputSchema = z.object({
+    name: z.string().trim().min(1).max(100),
+    rules: z.array(WatchRuleSchema).min(1).max(50),
+    subreddits: z.array(z.string().trim().refine(isValidSubredditName, 'Invalid subreddit name')).max(50).default([]),
+    enabled: z.boolean().default(true)
+});
+
+export type WatchlistInput = z.infer<typeof WatchlistInputSchema>;
+
+export function createWatchlist(userId: string, input: WatchlistInput, now: Date = new Date()): Watchlist {
+    return { id: randomUUID(), userId, ...input, createdAt: now, updatedAt: now };
+}
+
+// A post or comment in the shape the rules are evaluated against
+export interface WatchItem {
+    id: string;
+    kind: 'post' | 'comment';
+    subreddit: string;
+    author: string;
+    flair: string | null;
+    title: string;
+    text: string;
+    permalink: string;
+}
+
+export function postToWatchItem(post: RedditPost): WatchItem {
+    return {
+        id: post.name,
+        kind: 'post',
+        subreddit: post.subreddit,
+        author: post.author,
+        flair: post.link_flair_text ?? null,
+        title: post.title,
+        text: `${post.title}\n${post.selftext}`,
+        permalink: `https://reddit.com${post.permalink}`
+    };
+}
+
+export function commentToWatchItems(post: RedditPost, comments: CommentNode[]): WatchItem[] {
+    return comments.flatMap(comment => [
+        {
+            id: comment.name,
+            kind: 'comment' as const,
+            subreddit: post.subreddit,
+            author: comment.author,
+            flair: comment.authorFlair,
+            title: post.title,
+            text: comment.body,
+            permalink: `https://reddit.com${comment.permalink}`
+        },
+        ...commentToWatchItems(post, comment.replies)
+    ]);
+}
+
+// Whole words or phrases, with Bangla letters and marks counting as word characters; test NFC text
+export function keywordPattern(keyword: string) {
+    return new RegExp(`(^|[^\\p{L}\\p{M}\\p{N}])${escapeRegex(keyword.normalize('NFC'))}($|[^\\p{L}\\p{M}\\p{N}])`, 'iu');
+}
+
+// Compiled once per evaluation rather than once per item
+type RuleMatcher = (item: WatchItem) => boolean;
+
+function compileRule(rule: WatchRule): RuleMatcher {
+    switch (rule.type) {
+        case 'keyword': {
+            const pattern = keywordPattern(rule.value);
+            return item => pattern.test(item.text.normalize('NFC'));
+        }
+        case 'regex': {
+            // Rules saved before the check existed are skipped rather than risk blocking the server
+            if (!isSafePattern(rule.value)) {
+                return () => false;
+            }
+            const pattern = new RegExp(rule.value, 'iu');
+            return item => pattern.test(item.text);
+        }
+        case 'author': {
+            const author = rule.value.replace(/^u\//i, '').toLowerCase();
+            return item => item.author.toLowerCase() === author;
+        }
+        case 'flair': {
+            const flair = rule.value.toLowerCase();
+            return item => item.flair?.toLowerCase() === flair;
+        }
+    }
+}
+
+export function describeRule(rule: WatchRule) {
+    switch (rule.type) {
+        case 'keyword':
+            return `"${rule.value}"`;
+        case 'regex':
+            return `/${rule.value}/`;
+        case 'author':
+            return `u/${rule.value.replace(/^u\//i, '')}`;
+        case 'flair':
+            return `flair "${rule.value}"`;
+    }
+}
+
+function compileWatchlist(watchlist: Watchlist) {
+    const subreddits = new Set(watchlist.subreddits.map(subreddit => subreddit.toLowerCase()));
+    const rules = watchlist.rules.map(rule => ({ description: describeRule(rule), matches: compileRule(rule) }));
+
+    return (item: WatchItem) => {
+        if (subreddits.size > 0 && !subreddits.has(item.subreddit.toLowerCase())) {
+            return [];
+        }
+        return rules.filter(rule => rule.matches(item)).map(rule => rule.description);
+    };
+}
+
+// Descriptions of the watchlist's rules that match the item; empty when none do
+export function matchWatchlist(watchlist: Watchlist, item: WatchItem): string[] {
+    return compileWatchlist(watchlist)(item);
+}
+
+/**
+ * Runs every enabled watchlist over the items and stores a notification for
+ * each match. Items a watchlist already notified about are skipped, so
+ * re-ingesting the same posts is harmless. Returns the new notifications.
+ */
+export async function evaluateWatchlists(storage: Storage, items: WatchItem[], now: Date = new Date()) {
+    if (items.length === 0) {
+        return [];
+    }
+
+    const watchlists = await storage.watchlists.listEnabled();
+    const notifications: Notification[] = [];
+    for (const watchlist of watchlists) {
+        const match = compileWatchlist(watchlist);
+        for (const item of items) {
+            const matches = match(item);
+            if (matches.length === 0) {
+                continue;
+            }
+
+            notifications.push({
+                id: randomUUID(),
+                userId: watchlist.userId,
+                watchlistId: watchlist.id,
+                watchlistName: watchlist.name,
+                itemId: item.id,
+                kind: item.kind,
+                subreddit: item.subreddit,
+                title: item.title,
+                excerpt: truncateGraphemes(item.text.replace(/\s+/g, ' ').trim(), 160),
+                permalink: item.permalink,
+                matches,
+                read: false,
+                createdAt: now
+            });
+        }
+    }
+
+    return storage.notifications.add(notifications);
+}
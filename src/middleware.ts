@@ -0,0 +1,10 @@
+import { withAuth } from 'next-auth/middleware';
+
+// Signed-out visitors to the dashboard are sent to the sign-in page
+export default withAuth({
+  pages: { signIn: '/signin' },
+});
+
+export const config = {
+  matcher: ['/dashboard/:path*'],
+};
@@ -0,0 +1,77 @@
+import dotenv from 'dotenv';
+import { dispatchAlerts } from '../lib/alerts';
+import { Collector } from '../lib/collector';
+import { createRedditClient } from '../lib/reddit-client';
+import { getSettings } from '../lib/settings';
+import { getStorage } from '../lib/storage';
+import { evaluateWatchlists, postToWatchItem } from '../lib/watchlists';
+
+dotenv.config();
+
+// Usage: npm run fetch-reddit [-- --once]
+async function main() {
+    const once = process.argv.includes('--once');
+    const api = createRedditClient({ cached: false });
+    const storage = await getStorage();
+
+    // Subreddits and interval come from the Settings page and are re-read after every run
+    const collectorOptions = async () => {
+        const settings = await getSettings(storage);
+        return {
+            subreddits: settings.trackedSubreddits.map(subreddit => subreddit.name),
+            intervalMs: settings.collectorIntervalMinutes * 60 * 1000
+        };
+    };
+    const initial = await collectorOptions();
+
+    const collector = new Collector(api, storage, {
+        ...initial,
+        onPosts: async posts => {
+            const notifications = await evaluateWatchlists(storage, posts.map(postToWatchItem));
+            if (notifications.length > 0) {
+                console.log(`  ${notifications.length} new watchlist matches`);
+            }
+
+            const deliveries = await dispatchAlerts(storage, posts);
+            const failed = deliveries.filter(delivery => delivery.status === 'failed').length;
+            if (deliveries.length > 0) {
+                console.log(`  ${deliveries.length - failed} alerts sent, ${failed} failed`);
+            }
+        }
+    });
+
+    const logRun = (run: Awaited<ReturnType<Collector['runOnce']>>) => {
+        const failed = run.sources.filter(source => source.error);
+        const seconds = ((run.finishedAt.getTime() - run.startedAt.getTime()) / 1000).toFixed(1);
+        console.log(`Run ${run.id} stored ${run.postsStored} posts in ${seconds}s (${failed.length} failed sources, rate limit remaining: ${run.rateLimitRemaining ?? 'unknown'})`);
+        failed.forEach(source => console.log(`  r/${source.subreddit}/${source.sort}: ${source.error}`));
+    };
+
+    const shutdown = () => {
+        console.log('Stopping collector...');
+        collector.stop();
+    };
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+
+    try {
+        const minutes = initial.intervalMs / 60000;
+        console.log(`Collecting ${initial.subreddits.length} subreddits${once ? ' once' : ` every ${minutes} minutes`}...`);
+        if (once) {
+            logRun(await collector.runOnce());
+        } else {
+            await collector.start(async run => {
+                logRun(run);
+                collector.reconfigure(await collectorOptions());
+            });
+        }
+    } finally {
+        await api.cleanup();
+        await storage.close();
+    }
+}
+
+main().catch(error => {
+    console.error('Collector error:', error instanceof Error ? error.message : 'Unknown error');
+    process.exit(1);
+});
@@ -0,0 +1,45 @@
+import dotenv from 'dotenv';
+import { generateDailyDigest } from '../lib/digest';
+import { createRedditClient } from '../lib/reddit-client';
+import { createConfiguredGeminiClient, getSettings } from '../lib/settings';
+import { getStorage } from '../lib/storage';
+
+dotenv.config();
+
+// Usage: npm run generate-digests [-- subreddit ...]
+async function main() {
+    const storage = await getStorage();
+    const llm = await createConfiguredGeminiClient(storage);
+    if (!llm) {
+        console.error('GEMINI_API_KEY is not set');
+        await storage.close();
+        process.exit(1);
+    }
+
+    const requested = process.argv.slice(2);
+    const subreddits = requested.length > 0
+        ? requested
+        : (await getSettings(storage)).trackedSubreddits.map(subreddit => subreddit.name);
+
+    const api = createRedditClient();
+
+    try {
+        for (const subreddit of subreddits) {
+            try {
+                const digest = await generateDailyDigest(api, llm, subreddit);
+                await storage.digests.save(digest);
+                console.log(`r/${subreddit} (${digest.date}): ${digest.headline}`);
+            } catch (error) {
+                console.error(`Error generating digest for r/${subreddit}:`, error instanceof Error ? error.message : 'Unknown error');
+            }
+        }
+    } finally {
+        await api.cleanup();
+        await storage.close();
+    }
+}
+
+main().catch(error => {
+    console.error('Digest error:', error instanceof Error ? error.message : 'Unknown error');
+    process.exit(1);
+});
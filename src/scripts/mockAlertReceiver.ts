@@ -0,0 +1,89 @@
+import http from 'http';
+import net from 'net';
+
+/**
+ * Local stand-in for alert destinations.
+ *
+ * Webhook, Slack and Discord channels can point at http://localhost:4400/anything,
+ * and every request body is printed. Add ?status=500 to a URL to see retries.
+ * Email channels work with SMTP_HOST=localhost SMTP_PORT=2525, and every
+ * message is printed instead of delivered.
+ *
+ * Usage: npm run mock-alerts
+ */
+const httpPort = Number(process.env.ALERT_MOCK_PORT) || 4400;
+const smtpPort = Number(process.env.ALERT_MOCK_SMTP_PORT) || 2525;
+
+const webhookServer = http.createServer((request, response) => {
+    let body = '';
+    request.on('data', chunk => body += chunk);
+    request.on('end', () => {
+        const url = new URL(request.url ?? '/', `http://localhost:${httpPort}`);
+        const status = Number(url.searchParams.get('status')) || 200;
+
+        console.log(`\n[webhook] ${request.method} ${url.pathname} -> ${status}`);
+        try {
+            console.log(JSON.stringify(JSON.parse(body), null, 2));
+        } catch {
+            console.log(body);
+        }
+
+        response.writeHead(status, { 'Content-Type': 'application/json' });
+        response.end(JSON.stringify({ ok: status < 400 }));
+    });
+});
+
+// Just enough SMTP for nodemailer: accept everything and print the message
+const smtpServer = net.createServer(socket => {
+    let inData = false;
+    let message = '';
+    let buffer = '';
+
+    socket.write('220 localhost mock SMTP\r\n');
+    socket.on('data', chunk => {
+        buffer += chunk.toString();
+        let index;
+        while ((index = buffer.indexOf('\r\n')) >= 0) {
+            const line = buffer.slice(0, index);
+            buffer = buffer.slice(index + 2);
+
+            if (inData) {
+                if (line === '.') {
+                    inData = false;
+                    console.log(`\n[smtp] message received:\n${message}`);
+                    message = '';
+                    socket.write('250 OK: queued\r\n');
+                } else {
+                    message += `${line.replace(/^\./, '')}\n`;
+                }
+                continue;
+            }
+
+            const command = line.split(' ')[0].toUpperCase();
+            if (command === 'EHLO') {
+                socket.write('250-localhost\r\n250 AUTH PLAIN LOGIN\r\n');
+            } else if (command === 'DATA') {
+                inData = true;
+                socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+            } else if (command === 'AUTH') {
+                socket.write('235 Authentication successful\r\n');
+            } else if (command === 'QUIT') {
+                socket.end('221 Bye\r\n');
+            } else {
+                socket.write('250 OK\r\n');
+            }
+        }
+    });
+    socket.on('error', () => socket.destroy());
+});
+
+webhookServer.listen(httpPort, () => console.log(`Mock webhook receiver on http://localhost:${httpPort}`));
+smtpServer.listen(smtpPort, () => console.log(`Mock SMTP server on localhost:${smtpPort}`));
+
+const shutdown = () => {
+    webhookServer.close();
+    smtpServer.close();
+    process.exit(0);
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -0,0 +1,38 @@
+import dotenv from 'dotenv';
+import { createSentimentScorer, scoreStoredItems } from '../lib/sentiment';
+import { createConfiguredGeminiClient, getSettings } from '../lib/settings';
+import { getStorage } from '../lib/storage';
+
+dotenv.config();
+
+// Usage: npm run score-sentiment [-- subreddit ...]
+async function main() {
+    const storage = await getStorage();
+    const requested = process.argv.slice(2);
+    const subreddits = requested.length > 0
+        ? requested
+        : (await getSettings(storage)).trackedSubreddits.map(subreddit => subreddit.name);
+    const days = Number(process.env.SENTIMENT_LOOKBACK_DAYS) || 7;
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+    const scorer = await createSentimentScorer(await createConfiguredGeminiClient(storage));
+    console.log(`Scoring with the ${scorer.name} scorer...`);
+
+    try {
+        for (const subreddit of subreddits) {
+            try {
+                const scored = await scoreStoredItems(storage, scorer, { subreddit, since, maxPosts: 500 });
+                console.log(`r/${subreddit}: scored ${scored} posts and comments`);
+            } catch (error) {
+                console.error(`Error scoring r/${subreddit}:`, error instanceof Error ? error.message : 'Unknown error');
+            }
+        }
+    } finally {
+        await storage.close();
+    }
+}
+
+main().catch(error => {
+    console.error('Sentiment error:', error instanceof Error ? error.message : 'Unknown error');
+    process.exit(1);
+});
@@ -0,0 +1,16 @@
+import type { DefaultSession } from 'next-auth';
+
+declare module 'next-auth' {
+    interface Session {
+        user: DefaultSession['user'] & {
+            // Our own user id, see src/lib/users.ts
+            id: string;
+        };
+    }
+}
+
+declare module 'next-auth/jwt' {
+    interface JWT {
+        userId?: string;
+    }
+}